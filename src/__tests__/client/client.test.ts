@@ -1,12 +1,15 @@
 import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { McpNotifyClient } from '../../client/client';
-import { ExecutionParams } from '../../shared/config';
-import { TOOL_NAMES } from '../../shared/constants';
+import { ConnectionStatus, reconnectDelay } from '../../client/reconnect';
+import { ExecutionParams, MAX_SAMPLING_ANSWER_MS, ReconnectPolicySchema } from '../../shared/config';
+import { DEFAULT_CONFIG, TOOL_NAMES } from '../../shared/constants';
 
 // Mock the @modelcontextprotocol/sdk dependencies
 const mockConnect = jest.fn(() => Promise.resolve());
 const mockRequest = jest.fn();
 const mockClose = jest.fn(() => Promise.resolve());
+const mockSetLoggingLevel = jest.fn((_level: string) => Promise.resolve({}));
 
 jest.mock('@modelcontextprotocol/sdk/client/index.js', () => {
   return {
@@ -28,8 +31,10 @@ jest.mock('@modelcontextprotocol/sdk/client/index.js', () => {
         return Promise.reject(new Error('Unknown request'));
       }),
       notification: jest.fn(),
+      setLoggingLevel: mockSetLoggingLevel,
       fallbackNotificationHandler: null,
       setRequestHandler: jest.fn(),
+      setNotificationHandler: jest.fn(),
       onerror: null,
     }))
   };
@@ -43,6 +48,21 @@ jest.mock('@modelcontextprotocol/sdk/client/stdio.js', () => {
   };
 });
 
+const mockTerminateSession = jest.fn(() => Promise.resolve());
+
+jest.mock('@modelcontextprotocol/sdk/client/streamableHttp.js', () => {
+  class StreamableHTTPClientTransport {
+    url: URL;
+    close = mockClose;
+    terminateSession = mockTerminateSession;
+
+    constructor(url: URL) {
+      this.url = url;
+    }
+  }
+  return { StreamableHTTPClientTransport };
+});
+
 // Mock the Display class
 jest.mock('../../client/ui/display', () => {
   return {
@@ -54,13 +74,25 @@ jest.mock('../../client/ui/display', () => {
       showExecutionStart: jest.fn(),
       showSamplingRequest: jest.fn(),
       showSamplingResponse: jest.fn(),
+      showSamplingRejected: jest.fn(),
+      showElicitationRequest: jest.fn(),
+      showElicitationResponse: jest.fn(),
       showWelcome: jest.fn(),
       showSeparator: jest.fn(),
       showProgress: jest.fn(),
+      showTimeRemaining: jest.fn(),
     }))
   };
 });
 
+// Sampling reviews are answered by each test
+const mockReviewSamplingReply = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('../../client/ui/prompt', () => ({
+  ...jest.requireActual<object>('../../client/ui/prompt'),
+  reviewSamplingReply: (...args: any[]) => mockReviewSamplingReply(...args)
+}));
+
 describe('McpNotifyClient', () => {
   let client: McpNotifyClient;
 
@@ -102,6 +134,7 @@ describe('McpNotifyClient', () => {
         request: jest.fn(),
         notification: jest.fn(),
         setRequestHandler: jest.fn(),
+        setNotificationHandler: jest.fn(),
       }));
 
       client = new McpNotifyClient(false); // Recreate with the new mock
@@ -130,8 +163,10 @@ describe('McpNotifyClient', () => {
           return Promise.reject(new Error('Unknown request'));
         }),
         notification: jest.fn(),
+        setLoggingLevel: mockSetLoggingLevel,
         fallbackNotificationHandler: null,
         setRequestHandler: jest.fn(),
+        setNotificationHandler: jest.fn(),
         onerror: null,
       }));
     });
@@ -151,6 +186,207 @@ describe('McpNotifyClient', () => {
     });
   });
 
+  describe('Reconnect', () => {
+    const policy = ReconnectPolicySchema.parse({ maxAttempts: 3, initialDelayMs: 1 });
+
+    // Connect, then have the transport close under us
+    async function loseConnection(): Promise<ConnectionStatus[]> {
+      const statuses: ConnectionStatus[] = [];
+      client.setReconnectPolicy(policy);
+      client.on('connection', status => statuses.push(status));
+      await client.connect('node', ['server.js']);
+      (client as any).client.onclose();
+      return statuses;
+    }
+
+    it('should back off exponentially up to the maximum delay', () => {
+      const backoff = ReconnectPolicySchema.parse({ initialDelayMs: 500, maxDelayMs: 3000 });
+
+      expect([1, 2, 3, 4, 5].map(attempt => reconnectDelay(backoff, attempt))).toEqual([500, 1000, 2000, 3000, 3000]);
+    });
+
+    it('should reconnect, re-list tools and replay the events of watched tasks', async () => {
+      (client as any).handleCustomNotification({
+        method: 'notifications/task_event',
+        params: { taskId: 'test-task', type: 'step', level: 'info', seq: 3, data: { message: 'Step 1' }, timestamp: '' }
+      });
+      mockConnect.mockImplementationOnce(() => Promise.resolve());
+      mockConnect.mockImplementationOnce(() => Promise.reject(new Error('spawn failed')));
+      mockRequest.mockImplementationOnce(() => Promise.resolve({ tools: [{ name: 'start_long_running_task' }] }));
+      mockRequest.mockImplementationOnce(() => Promise.resolve({
+        content: [{ type: 'text', text: '{}' }],
+        structuredContent: { taskId: 'test-task', state: 'completed', lastSeq: 4, missed: 0, events: [
+          { seq: 4, method: 'notifications/task_event', type: 'completion', level: 'info', message: 'Done', timestamp: '', data: { message: 'Done' } }
+        ] }
+      }));
+
+      const statuses = await loseConnection();
+
+      expect(await client.waitForReconnect()).toBe(true);
+      expect(statuses).toEqual([
+        { state: 'connected' },
+        { state: 'reconnecting', attempt: 1, maxAttempts: 3, delayMs: 1 },
+        { state: 'reconnecting', attempt: 2, maxAttempts: 3, delayMs: 2 },
+        { state: 'reconnected', attempt: 2 },
+      ]);
+      expect(mockConnect).toHaveBeenCalledTimes(3);
+      expect(mockRequest).toHaveBeenCalledWith({ method: 'tools/list', params: {} }, expect.anything());
+      expect(mockRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ params: { name: TOOL_NAMES.GET_TASK_EVENTS, arguments: { taskId: 'test-task', afterSeq: 3 } } }),
+        expect.anything()
+      );
+      const display = (client as any).display;
+      expect(display.showConnectionStatus).toHaveBeenCalledWith({ state: 'reconnected', attempt: 2 }, 'MCP Notify Server');
+      expect(display.showNotification).toHaveBeenCalledWith('info', 'Done', expect.objectContaining({ type: 'completion' }));
+    });
+
+    it('should not replay tasks that have ended', async () => {
+      const handleCustomNotification = (client as any).handleCustomNotification.bind(client);
+      const event = (taskId: string, type: string, seq: number) => ({
+        method: 'notifications/task_event',
+        params: { taskId, type, level: 'info', seq, data: { message: `${type} ${seq}` }, timestamp: '' }
+      });
+      handleCustomNotification(event('done-task', 'step', 1));
+      handleCustomNotification(event('done-task', 'completion', 2));
+      handleCustomNotification(event('live-task', 'step', 1));
+      mockRequest.mockImplementationOnce(() => Promise.resolve({ tools: [{ name: 'start_long_running_task' }] }));
+      mockRequest.mockImplementationOnce(() => Promise.resolve({
+        content: [{ type: 'text', text: '{}' }],
+        structuredContent: { taskId: 'live-task', state: 'running', lastSeq: 1, missed: 0, events: [] }
+      }));
+
+      await loseConnection();
+      expect(await client.waitForReconnect()).toBe(true);
+
+      const replays = mockRequest.mock.calls
+        .map(([request]) => request as { params?: { name?: string; arguments?: { taskId?: string } } })
+        .filter(request => request.params?.name === TOOL_NAMES.GET_TASK_EVENTS);
+      expect(replays.map(request => request.params!.arguments!.taskId)).toEqual(['live-task']);
+    });
+
+    it('should give up after the last attempt', async () => {
+      mockConnect.mockImplementationOnce(() => Promise.resolve());
+      for (let i = 0; i < 3; i++) {
+        mockConnect.mockImplementationOnce(() => Promise.reject(new Error('spawn failed')));
+      }
+
+      const statuses = await loseConnection();
+
+      expect(await client.waitForReconnect()).toBe(false);
+      expect(statuses.at(-1)).toEqual({ state: 'disconnected', reason: 'Gave up reconnecting after 3 attempts' });
+      expect((client as any).transport).toBeNull();
+    });
+
+    it('should not reconnect after disconnecting, or when reconnecting is off', async () => {
+      const statuses = await loseConnection();
+      await client.waitForReconnect();
+      await client.disconnect();
+      (client as any).client.onclose();
+
+      expect(statuses.at(-1)).toEqual({ state: 'disconnected' });
+
+      const offline = new McpNotifyClient(false);
+      const offlineStatuses: ConnectionStatus[] = [];
+      offline.setReconnectPolicy(ReconnectPolicySchema.parse({ maxAttempts: 0 }));
+      offline.on('connection', status => offlineStatuses.push(status));
+      await offline.connect('node', ['server.js']);
+      (offline as any).client.onclose();
+
+      expect(offlineStatuses).toEqual([{ state: 'connected' }, { state: 'disconnected', reason: 'Connection lost' }]);
+      expect(await offline.waitForReconnect()).toBe(false);
+    });
+
+    // The awaited call reports the task's first progress, then the transport dies under it
+    function loseConnectionDuringCall(target: McpNotifyClient) {
+      mockRequest.mockImplementationOnce((_request: any, _schema: any, options: any) => {
+        options.onprogress({ progress: 0, total: 3, _meta: { taskId: 'lost-task', seq: 1 } });
+        (target as any).client.onclose();
+        return Promise.reject(new McpError(ErrorCode.ConnectionClosed, 'Connection closed'));
+      });
+    }
+    const awaitParams: ExecutionParams = { steps: 3, interval: 1, delay: 100, sampling: false, verbose: false, mode: 'await' };
+
+    it('should follow an awaited task by ID when the connection drops mid-run', async () => {
+      client.setReconnectPolicy(policy);
+      await client.connect('node', ['server.js']);
+      const statuses: ConnectionStatus[] = [];
+      client.on('connection', status => statuses.push(status));
+      const status = {
+        taskId: 'lost-task',
+        totalSteps: 3,
+        elapsedMs: 320,
+        notificationsSent: 5,
+        samplingRequests: 0,
+        samplingUsage: { requests: 0, tokens: 0, skipped: 0 },
+      };
+      loseConnectionDuringCall(client);
+      mockRequest.mockImplementationOnce(() => Promise.resolve({ tools: [{ name: 'start_long_running_task' }] }));
+      mockRequest.mockImplementationOnce(() => Promise.resolve({
+        content: [{ type: 'text', text: '{}' }],
+        structuredContent: { taskId: 'lost-task', state: 'running', lastSeq: 2, missed: 0, events: [
+          { seq: 2, method: 'notifications/task_event', type: 'step', level: 'info', message: 'Step 1', timestamp: '', data: { message: 'Step 1', step: 1 } }
+        ] }
+      }));
+      // Still running when the client starts following; it completes right after
+      mockRequest.mockImplementationOnce(() => {
+        setImmediate(() => (client as any).handleCustomNotification({
+          method: 'notifications/task_event',
+          params: { taskId: 'lost-task', type: 'completion', level: 'info', seq: 3, data: { message: 'Done' }, timestamp: '' }
+        }));
+        return Promise.resolve({ content: [{ type: 'text', text: '{}' }], structuredContent: { ...status, state: 'running', currentStep: 1 } });
+      });
+      mockRequest.mockImplementationOnce(() => Promise.resolve({
+        content: [{ type: 'text', text: '{}' }],
+        structuredContent: { ...status, state: 'completed', currentStep: 3 }
+      }));
+
+      const result = await client.executeLongRunningProcess(awaitParams);
+
+      expect(statuses.map(change => change.state)).toEqual(['reconnecting', 'reconnected']);
+      expect(result.structuredContent).toEqual({
+        success: true,
+        totalSteps: 3,
+        completedSteps: 3,
+        executionTimeMs: 320,
+        notificationsSent: 5,
+        samplingRequests: 0,
+        samplingUsage: { requests: 0, tokens: 0, skipped: 0 },
+        error: undefined,
+      });
+      const display = (client as any).display;
+      expect(display.showNotification).toHaveBeenCalledWith('info', 'Step 1', expect.objectContaining({ taskId: 'lost-task' }));
+      expect(display.showNotification).toHaveBeenCalledWith('info', 'Done', expect.objectContaining({ type: 'completion' }));
+    });
+
+    it('should fail an awaited call whose connection drops when reconnecting is off', async () => {
+      client.setReconnectPolicy(ReconnectPolicySchema.parse({ maxAttempts: 0 }));
+      await client.connect('node', ['server.js']);
+      loseConnectionDuringCall(client);
+
+      await expect(client.executeLongRunningProcess(awaitParams)).rejects.toThrow('Connection closed');
+    });
+  });
+
+  describe('HTTP Connection', () => {
+    it('should connect to a server URL', async () => {
+      await client.connectUrl('http://127.0.0.1:3000/mcp');
+
+      expect(mockConnect).toHaveBeenCalled();
+      expect((client as any).transport.url).toEqual(new URL('http://127.0.0.1:3000/mcp'));
+      const display = (client as any).display;
+      expect(display.showConnectionStatus).toHaveBeenCalledWith(true, 'MCP Notify Server');
+    });
+
+    it('should terminate the HTTP session on disconnect', async () => {
+      await client.connectUrl('http://127.0.0.1:3000/mcp');
+      await client.disconnect();
+
+      expect(mockTerminateSession).toHaveBeenCalled();
+      expect(mockClose).toHaveBeenCalled();
+      expect((client as any).transport).toBeNull();
+    });
+  });
+
   describe('Tool Execution', () => {
     beforeEach(async () => {
       // Connect first for these tests
@@ -204,10 +440,65 @@ describe('McpNotifyClient', () => {
             })
           })
         }),
-        expect.anything() // This is the result schema (CallToolResultSchema)
+        expect.anything(), // This is the result schema (CallToolResultSchema)
+        { signal: expect.any(AbortSignal), onprogress: expect.any(Function) }
       );
     });
 
+    it('should keep the request open until the task finishes in await mode', async () => {
+      const params: ExecutionParams = {
+        steps: 10,
+        interval: 2,
+        delay: 500,
+        sampling: true,
+        verbose: false,
+        mode: 'await'
+      };
+
+      await client.executeLongRunningProcess(params);
+
+      expect(mockRequest).toHaveBeenCalledWith(
+        expect.objectContaining({
+          params: expect.objectContaining({
+            arguments: expect.objectContaining({ mode: 'await' })
+          })
+        }),
+        expect.anything(),
+        { timeout: DEFAULT_CONFIG.AWAIT_REQUEST_TIMEOUT_MS, signal: expect.any(AbortSignal), onprogress: expect.any(Function) }
+      );
+    });
+
+    it('should cancel the call in flight through its abort signal', async () => {
+      await client.connect('node', ['server.js']);
+      let signal: AbortSignal | undefined;
+      mockRequest.mockImplementationOnce((_request: any, _schema: any, options: any) => {
+        signal = options.signal;
+        return new Promise((_resolve, reject) => {
+          options.signal.addEventListener('abort', () => reject(options.signal.reason));
+        });
+      });
+
+      const call = client.executeLongRunningProcess({
+        steps: 10,
+        interval: 1,
+        delay: 500,
+        sampling: false,
+        verbose: false,
+        mode: 'await'
+      });
+
+      expect(client.cancel('User pressed Ctrl+C')).toBe(true);
+      await expect(call).rejects.toBe('User pressed Ctrl+C');
+      expect(signal?.aborted).toBe(true);
+
+      const display = (client as any).display;
+      expect(display.showError).not.toHaveBeenCalled();
+    });
+
+    it('should report when there is no call to cancel', () => {
+      expect(client.cancel()).toBe(false);
+    });
+
     it('should handle errors in long-running process execution', async () => {
       // Mock the request method to throw an error
       (mockRequest as any).mockRejectedValueOnce(new Error('Execution failed'));
@@ -286,6 +577,349 @@ describe('McpNotifyClient', () => {
     });
   });
 
+  describe('Progress and Task Events', () => {
+    it('should render the progress of the call in flight', async () => {
+      await client.connect('node', ['server.js']);
+      mockRequest.mockImplementationOnce((_request: any, _schema: any, options: any) => {
+        options.onprogress({ progress: 3, total: 10, message: 'Completed step 3 of 10' });
+        return Promise.resolve({ content: [{ type: 'text', text: 'Task started' }] });
+      });
+
+      await client.executeLongRunningProcess({ steps: 10, interval: 1, delay: 100, sampling: false, verbose: false });
+
+      const display = (client as any).display;
+      expect(display.showProgress).toHaveBeenCalledWith(3, 10, 'Completed step 3 of 10');
+      expect(client.getNotificationStatistics().progress).toBe(1);
+    });
+
+    it('should handle task events by their type', () => {
+      const handleCustomNotification = (client as any).handleCustomNotification.bind(client);
+
+      handleCustomNotification({
+        method: 'notifications/task_event',
+        params: {
+          taskId: 'test-task',
+          type: 'completion',
+          level: 'info',
+          data: {
+            message: 'Task completed successfully',
+            step: 10,
+            totalSteps: 10,
+            taskId: 'test-task'
+          },
+          timestamp: '2023-01-01T12:00:00.000Z'
+        }
+      });
+
+      const display = (client as any).display;
+      expect(display.showNotification).toHaveBeenCalledWith(
+        'info',
+        'Task completed successfully',
+        expect.objectContaining({ type: 'completion', taskId: 'test-task' })
+      );
+      expect(display.showProgress).not.toHaveBeenCalled();
+      expect(client.getNotificationStatistics().completion).toBe(1);
+    });
+
+    it('should count down to the deadline on step events', () => {
+      const handleCustomNotification = (client as any).handleCustomNotification.bind(client);
+      const event = (type: string) => ({
+        method: 'notifications/task_event',
+        params: {
+          taskId: 'test-task',
+          type,
+          level: 'info',
+          data: { message: type, step: 1, totalSteps: 10, deadline: '2023-01-01T12:01:00.000Z' },
+          timestamp: '2023-01-01T12:00:00.000Z'
+        }
+      });
+
+      handleCustomNotification(event('step'));
+      handleCustomNotification(event('completion'));
+
+      const display = (client as any).display;
+      expect(display.showTimeRemaining).toHaveBeenCalledTimes(1);
+      expect(display.showTimeRemaining).toHaveBeenCalledWith('2023-01-01T12:01:00.000Z');
+    });
+
+    it('should show server log messages', () => {
+      const handleLogMessage = (client as any).handleLogMessage.bind(client);
+
+      handleLogMessage({
+        method: 'notifications/message',
+        params: {
+          level: 'warning',
+          logger: 'mcp-notify-server',
+          data: {
+            message: 'Task cancelled by user request',
+            timestamp: '2023-01-01T12:00:00.000Z',
+            taskId: 'test-task'
+          }
+        }
+      });
+
+      const display = (client as any).display;
+      expect(display.showNotification).toHaveBeenCalledWith(
+        'warning',
+        'Task cancelled by user request',
+        expect.objectContaining({ type: 'log', taskId: 'test-task' })
+      );
+      expect(client.getNotificationStatistics().log).toBe(1);
+    });
+
+    it('should ask the server for log messages at a level', async () => {
+      await client.setServerLogLevel('debug');
+
+      expect(mockSetLoggingLevel).toHaveBeenCalledWith('debug');
+    });
+
+    it('should have the SDK route progress for tool calls', async () => {
+      await client.connect('node', ['server.js']);
+      await client.executeLongRunningProcess({
+        steps: 2,
+        interval: 1,
+        delay: 100,
+        sampling: false,
+        verbose: false
+      });
+
+      expect(mockRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'tools/call' }),
+        expect.anything(),
+        expect.objectContaining({ onprogress: expect.any(Function) })
+      );
+    });
+  });
+
+  describe('Event Replay', () => {
+    const stepEvent = (seq: number) => ({
+      method: 'notifications/task_event',
+      params: {
+        taskId: 'test-task',
+        type: 'step',
+        level: 'info',
+        seq,
+        data: { message: `Event ${seq}`, step: seq },
+        timestamp: '2023-01-01T12:00:00.000Z'
+      }
+    });
+
+    it('should skip task notifications it has already seen', () => {
+      const handleCustomNotification = (client as any).handleCustomNotification.bind(client);
+      const handleProgress = (client as any).handleProgress.bind(client);
+
+      handleCustomNotification(stepEvent(1));
+      handleCustomNotification(stepEvent(1));
+      handleProgress({ progress: 1, total: 2, _meta: { taskId: 'test-task', seq: 1 } });
+
+      const display = (client as any).display;
+      expect(display.showNotification).toHaveBeenCalledTimes(1);
+      expect(display.showProgress).not.toHaveBeenCalled();
+    });
+
+    it('should replay the events after the last one seen, and report the ones the server dropped', async () => {
+      const handleCustomNotification = (client as any).handleCustomNotification.bind(client);
+      handleCustomNotification(stepEvent(1));
+      mockRequest.mockImplementationOnce(() => Promise.resolve({
+        content: [{ type: 'text', text: '{}' }],
+        structuredContent: {
+          taskId: 'test-task',
+          state: 'running',
+          lastSeq: 6,
+          missed: 2,
+          events: [
+            { seq: 4, method: 'notifications/progress', type: 'progress', message: 'Completed step 4 of 10', timestamp: '', data: { progress: 4, total: 10 } },
+            { seq: 5, method: 'notifications/task_event', type: 'step', level: 'info', message: 'Event 5', timestamp: '', data: { message: 'Event 5', step: 5 } },
+          ]
+        }
+      }));
+
+      const replayed = await client.replayTaskEvents('test-task');
+      handleCustomNotification(stepEvent(6));
+
+      expect(replayed).toBe(2);
+      expect(mockRequest).toHaveBeenCalledWith(
+        { method: 'tools/call', params: { name: TOOL_NAMES.GET_TASK_EVENTS, arguments: { taskId: 'test-task', afterSeq: 1 } } },
+        expect.anything()
+      );
+      const display = (client as any).display;
+      expect(display.showNotification).toHaveBeenCalledWith('warning', '2 events of task test-task are no longer available to replay', { taskId: 'test-task' });
+      expect(display.showProgress).toHaveBeenCalledWith(4, 10, 'Completed step 4 of 10');
+      expect(display.showNotification).toHaveBeenCalledWith('info', 'Event 5', expect.objectContaining({ type: 'step' }));
+      expect(display.showNotification).not.toHaveBeenCalledWith('info', 'Event 6', expect.anything());
+    });
+
+    it('should fail when the server does not know the task', async () => {
+      mockRequest.mockImplementationOnce(() => Promise.resolve({
+        content: [{ type: 'text', text: 'Task missing not found' }],
+        isError: true
+      }));
+
+      await expect(client.replayTaskEvents('missing')).rejects.toThrow('Task missing not found');
+    });
+  });
+
+  describe('Event API', () => {
+    const taskEvent = (taskId: string, type: string, seq: number) => ({
+      method: 'notifications/task_event',
+      params: {
+        taskId,
+        type,
+        level: type === 'error' ? 'error' : 'info',
+        seq,
+        data: { message: `${type} ${seq}` },
+        timestamp: '2023-01-01T12:00:00.000Z'
+      }
+    });
+    const progress = (taskId: string, seq: number) => ({ progress: seq, total: 10, _meta: { taskId, seq } });
+    // Answer the get_task_status call taskEvents makes when it starts
+    const mockTaskState = (state: string) => mockRequest.mockImplementationOnce(() => Promise.resolve({
+      content: [{ type: 'text', text: '{}' }],
+      structuredContent: { taskId: 'a', state }
+    }));
+
+    it('should emit progress and the outcome of each task', () => {
+      const handleCustomNotification = (client as any).handleCustomNotification.bind(client);
+      const handleProgress = (client as any).handleProgress.bind(client);
+      const seen: string[] = [];
+      client.on('progress', event => seen.push(`progress ${event.taskId} ${event.progress}/${event.total}`));
+      client.on('completion', event => seen.push(`completion ${event.taskId}`));
+      client.on('error', event => seen.push(`error ${event.taskId} ${event.type}`));
+      client.on('cancelled', event => seen.push(`cancelled ${event.taskId}`));
+
+      handleProgress(progress('a', 1));
+      handleCustomNotification(taskEvent('a', 'completion', 2));
+      handleCustomNotification(taskEvent('b', 'timed_out', 1));
+      handleCustomNotification(taskEvent('c', 'error', 1));
+      handleCustomNotification(taskEvent('d', 'cancelled', 1));
+
+      expect(seen).toEqual(['progress a 1/10', 'completion a', 'error b timed_out', 'error c error', 'cancelled d']);
+    });
+
+    it('should stop calling a listener once it is removed, and keep going when one throws', () => {
+      const handleCustomNotification = (client as any).handleCustomNotification.bind(client);
+      const listener = jest.fn();
+      const stop = client.on('taskEvent', listener);
+      client.on('taskEvent', () => {
+        throw new Error('Listener bug');
+      });
+      client.once('completion', listener);
+
+      handleCustomNotification(taskEvent('a', 'completion', 1));
+      stop();
+      handleCustomNotification(taskEvent('b', 'completion', 1));
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      const display = (client as any).display;
+      expect(display.showNotification).toHaveBeenCalledWith('info', 'completion 1', expect.objectContaining({ taskId: 'b' }));
+    });
+
+    it('should emit answered and refused sampling requests', async () => {
+      const handleSamplingRequest = (client as any).handleSamplingRequest.bind(client);
+      const request = {
+        method: 'sampling/createMessage',
+        params: { messages: [{ role: 'user', content: { type: 'text', text: 'How is the progress?' } }], maxTokens: 100 }
+      };
+      const events: any[] = [];
+      client.on('sampling', event => events.push(event));
+
+      await handleSamplingRequest(request);
+      client.setSamplingApproval({ mode: 'prompt', timeoutMs: 50, fallback: 'reject' });
+      mockReviewSamplingReply.mockResolvedValueOnce({ action: 'reject' });
+      await expect(handleSamplingRequest(request)).rejects.toThrow();
+
+      expect(events).toEqual([
+        { request: request.params, result: expect.objectContaining({ role: 'assistant' }), edited: false },
+        { request: request.params, edited: false, error: expect.stringContaining('User rejected sampling request') },
+      ]);
+    });
+
+    it('should iterate over the events of one task until it ends', async () => {
+      const handleCustomNotification = (client as any).handleCustomNotification.bind(client);
+      const handleProgress = (client as any).handleProgress.bind(client);
+      mockTaskState('running');
+      const events = client.taskEvents('a');
+
+      handleCustomNotification(taskEvent('a', 'start', 1));
+      handleCustomNotification(taskEvent('b', 'start', 1));
+      handleProgress(progress('a', 2));
+      handleCustomNotification(taskEvent('a', 'completion', 3));
+      handleCustomNotification(taskEvent('a', 'step', 4));
+
+      const seen: string[] = [];
+      for await (const event of events) {
+        seen.push(`${event.type} ${event.seq}`);
+      }
+      expect(seen).toEqual(['start 1', 'progress 2', 'completion 3']);
+    });
+
+    it('should stop iterating when the signal aborts', async () => {
+      const controller = new AbortController();
+      mockTaskState('running');
+      const events = client.taskEvents('a', { signal: controller.signal });
+
+      const next = events.next();
+      controller.abort();
+
+      expect(await next).toEqual({ value: undefined, done: true });
+    });
+
+    it('should end straight away for a task that has already ended', async () => {
+      mockTaskState('completed');
+
+      expect(await client.taskEvents('a').next()).toEqual({ value: undefined, done: true });
+      expect(mockRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ params: { name: TOOL_NAMES.GET_TASK_STATUS, arguments: { taskId: 'a' } } }),
+        expect.anything()
+      );
+    });
+
+    it('should throw for a task the server does not know', async () => {
+      mockRequest.mockImplementationOnce(() => Promise.resolve({
+        content: [{ type: 'text', text: 'Task a not found' }],
+        isError: true
+      }));
+
+      await expect(client.taskEvents('a').next()).rejects.toThrow('Task a not found');
+    });
+
+    it('should throw once the connection is lost for good, and end on disconnect', async () => {
+      client.setReconnectPolicy(ReconnectPolicySchema.parse({ maxAttempts: 0 }));
+      await client.connect('node', ['server.js']);
+      mockTaskState('running');
+      mockTaskState('running');
+      const lost = client.taskEvents('a');
+      (client as any).handleCustomNotification(taskEvent('a', 'step', 1));
+
+      const next = lost.next();
+      await next;
+      const failed = lost.next();
+      (client as any).client.onclose();
+
+      await expect(failed).rejects.toThrow('Connection lost');
+      expect(await lost.next()).toEqual({ value: undefined, done: true });
+
+      await client.connect('node', ['server.js']);
+      const closed = client.taskEvents('a');
+      const ended = closed.next();
+      await client.disconnect();
+
+      expect(await ended).toEqual({ value: undefined, done: true });
+    });
+
+    it('should keep emitting events after the display is detached', () => {
+      const handleCustomNotification = (client as any).handleCustomNotification.bind(client);
+      const listener = jest.fn();
+      client.on('taskEvent', listener);
+
+      client.detachDisplay();
+      handleCustomNotification(taskEvent('a', 'start', 1));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect((client as any).display.showNotification).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Sampling Handling', () => {
     it('should handle sampling requests', async () => {
       // Get access to the private method
@@ -364,6 +998,173 @@ describe('McpNotifyClient', () => {
       expect(display.showSamplingRequest).toHaveBeenCalledTimes(2);
       expect(display.showSamplingResponse).toHaveBeenCalledTimes(2);
     });
+
+    it('should answer with the configured sampling provider', async () => {
+      const handleSamplingRequest = (client as any).handleSamplingRequest.bind(client);
+      const createMessage = jest.fn(async (_params: unknown, _signal?: AbortSignal) => ({
+        model: 'llama3.2',
+        role: 'assistant',
+        content: { type: 'text', text: '{"action":"pause"}' },
+        stopReason: 'endTurn'
+      }));
+      client.setSamplingProvider({ name: 'test', createMessage } as any);
+
+      const params = { messages: [{ role: 'user', content: { type: 'text', text: 'Steer me' } }], maxTokens: 50 };
+      const response = await handleSamplingRequest({ method: 'sampling/createMessage', params });
+
+      expect(createMessage).toHaveBeenCalledWith(params, undefined);
+      expect(response).toMatchObject({ model: 'llama3.2', content: { text: '{"action":"pause"}' } });
+      expect((client as any).samplingResponses).toEqual(['{"action":"pause"}']);
+      const display = (client as any).display;
+      expect(display.showSamplingResponse).toHaveBeenCalledWith(expect.objectContaining({ model: 'llama3.2' }));
+    });
+  });
+
+  describe('Sampling Approval', () => {
+    const request = {
+      method: 'sampling/createMessage',
+      params: { messages: [{ role: 'user', content: { type: 'text', text: 'How is the progress?' } }], maxTokens: 100 }
+    };
+
+    beforeEach(() => {
+      client.setSamplingApproval({ mode: 'prompt', timeoutMs: 50, fallback: 'reject' });
+    });
+
+    it('should send the reply the user approved or edited', async () => {
+      const handleSamplingRequest = (client as any).handleSamplingRequest.bind(client);
+      mockReviewSamplingReply.mockResolvedValueOnce({ action: 'approve', text: '{"action":"pause"}', edited: true });
+
+      const response = await handleSamplingRequest(request);
+
+      expect(mockReviewSamplingReply).toHaveBeenCalledWith(expect.stringContaining('Looking good!'), expect.anything());
+      expect(response).toMatchObject({ content: { type: 'text', text: '{"action":"pause"}' }, stopReason: 'endTurn' });
+      const display = (client as any).display;
+      expect(display.showSamplingResponse).toHaveBeenCalledWith(expect.objectContaining({ edited: true }));
+    });
+
+    it('should return an error to the server when the user rejects the reply', async () => {
+      const handleSamplingRequest = (client as any).handleSamplingRequest.bind(client);
+      mockReviewSamplingReply.mockResolvedValueOnce({ action: 'reject' });
+
+      await expect(handleSamplingRequest(request)).rejects.toMatchObject({ code: -1, message: expect.stringContaining('User rejected sampling request') });
+      expect((client as any).samplingResponses).toEqual([]);
+      const display = (client as any).display;
+      expect(display.showSamplingRejected).toHaveBeenCalledWith('User rejected sampling request');
+    });
+
+    it('should apply the fallback policy when nobody reviews the reply in time', async () => {
+      const handleSamplingRequest = (client as any).handleSamplingRequest.bind(client);
+      const waitForAbort = async (_proposal: string, options: { signal: AbortSignal }) => {
+        await new Promise(resolve => options.signal.addEventListener('abort', resolve));
+        return undefined;
+      };
+      mockReviewSamplingReply.mockImplementation(waitForAbort);
+
+      await expect(handleSamplingRequest(request)).rejects.toMatchObject({ code: -1 });
+
+      client.setSamplingApproval({ mode: 'prompt', timeoutMs: 50, fallback: 'approve' });
+      const response = await handleSamplingRequest(request);
+      expect(response.content.text).toContain('Looking good!');
+      const display = (client as any).display;
+      expect(display.showNotification).toHaveBeenCalledWith('warning', 'No review within 50ms, sending the reply');
+    });
+
+    it('should cut the review short by the time the provider took', async () => {
+      const handleSamplingRequest = (client as any).handleSamplingRequest.bind(client);
+      mockReviewSamplingReply.mockImplementation(async (_proposal: string, options: { signal: AbortSignal }) => {
+        await new Promise(resolve => options.signal.addEventListener('abort', resolve));
+        return undefined;
+      });
+      client.setSamplingApproval({ mode: 'prompt', timeoutMs: 30000, fallback: 'reject' });
+      // The provider replies 20ms before the server would stop waiting
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValueOnce(now).mockReturnValue(now + MAX_SAMPLING_ANSWER_MS - 20);
+
+      await expect(handleSamplingRequest(request)).rejects.toMatchObject({ code: -1 });
+
+      const display = (client as any).display;
+      expect(display.showNotification).toHaveBeenCalledWith('warning', 'No review within 20ms, rejecting the reply');
+    });
+  });
+
+  describe('Sampling Rate Limit', () => {
+    it('should refuse requests beyond the limit with a structured error', async () => {
+      const handleSamplingRequest = (client as any).handleSamplingRequest.bind(client);
+      client.setSamplingRateLimit({ maxRequests: 1, windowMs: 60000 });
+      const request = {
+        method: 'sampling/createMessage',
+        params: { messages: [{ role: 'user', content: { type: 'text', text: 'Feedback?' } }], maxTokens: 100 }
+      };
+
+      await handleSamplingRequest(request);
+      await expect(handleSamplingRequest(request)).rejects.toMatchObject({
+        code: -32029,
+        data: {
+          limit: 'rate',
+          retryAfterMs: expect.any(Number),
+          usage: { accepted: 1, refused: 1, tokens: 100 }
+        }
+      });
+
+      expect(client.getSamplingStatistics()).toMatchObject({ totalRequests: 2, rateLimit: { accepted: 1, refused: 1, tokens: 100 } });
+      const display = (client as any).display;
+      expect(display.showSamplingRejected).toHaveBeenCalledWith('Sampling rate limit of 1 requests per 60000ms reached');
+    });
+  });
+
+  describe('Elicitation Handling', () => {
+    const request = {
+      method: 'elicitation/create',
+      params: {
+        message: 'Continue after step 2?',
+        requestedSchema: {
+          type: 'object',
+          properties: { confirm: { type: 'boolean', default: true } },
+          required: ['confirm']
+        }
+      }
+    };
+
+    it('should accept with the form defaults under auto-accept', async () => {
+      const handleElicitationRequest = (client as any).handleElicitationRequest.bind(client);
+      client.setElicitationPolicy('auto-accept');
+
+      const result = await handleElicitationRequest(request, new AbortController().signal);
+
+      expect(result).toEqual({ action: 'accept', content: { confirm: true } });
+      expect((client as any).elicitationCount).toBe(1);
+      const display = (client as any).display;
+      expect(display.showElicitationRequest).toHaveBeenCalledWith('Continue after step 2?', 'auto-accept');
+      expect(display.showElicitationResponse).toHaveBeenCalledWith('accept', { confirm: true });
+    });
+
+    it('should decline under auto-decline', async () => {
+      const handleElicitationRequest = (client as any).handleElicitationRequest.bind(client);
+      client.setElicitationPolicy('auto-decline');
+
+      expect(await handleElicitationRequest(request, new AbortController().signal)).toEqual({ action: 'decline' });
+    });
+
+    it('should ask for a checkpoint after each --confirm-at step', async () => {
+      await client.executeLongRunningProcess({
+        steps: 5,
+        interval: 1,
+        delay: 100,
+        sampling: false,
+        verbose: false,
+        confirmAt: [2, 4]
+      });
+
+      expect(mockRequest).toHaveBeenCalledWith(
+        expect.objectContaining({
+          params: expect.objectContaining({
+            arguments: expect.objectContaining({ checkpoints: [{ afterStep: 2 }, { afterStep: 4 }] })
+          })
+        }),
+        expect.anything(),
+        expect.anything()
+      );
+    });
   });
 
   describe('Statistics Reporting', () => {
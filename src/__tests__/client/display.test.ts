@@ -35,6 +35,17 @@ describe('Display', () => {
       display.showConnectionStatus(false);
       expect(consoleLogSpy).toHaveBeenCalledWith('[DISCONNECTED]\n');
     });
+
+    it('should display the progress of a reconnect', () => {
+      display.showConnectionStatus({ state: 'reconnecting', attempt: 2, maxAttempts: 5, delayMs: 1000 });
+      expect(consoleLogSpy).toHaveBeenCalledWith('[RECONNECTING] attempt 2 of 5 in 1000ms\n');
+
+      display.showConnectionStatus({ state: 'reconnected', attempt: 2 }, 'Test Server');
+      expect(consoleLogSpy).toHaveBeenCalledWith('[RECONNECTED] to Test Server after 2 attempts\n');
+
+      display.showConnectionStatus({ state: 'disconnected', reason: 'Gave up reconnecting after 5 attempts' });
+      expect(consoleLogSpy).toHaveBeenCalledWith('[DISCONNECTED]: Gave up reconnecting after 5 attempts\n');
+    });
     
     it('should display separator line', () => {
       display.showSeparator();
@@ -152,6 +163,19 @@ describe('Display', () => {
       expect(consoleLogSpy).toHaveBeenCalledTimes(1);
     });
     
+    it('should display the time remaining until a deadline', () => {
+      display.showTimeRemaining('2024-01-01T00:00:30.000Z', Date.parse('2024-01-01T00:00:17.500Z'));
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Time remaining: 12.5s'));
+      expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('deadline 2024-01-01T00:00:30.000Z'));
+    });
+
+    it('should not show negative time once a deadline has passed', () => {
+      display.showTimeRemaining('2024-01-01T00:00:30.000Z', Date.parse('2024-01-01T00:01:00.000Z'));
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Time remaining: 0.0s'));
+    });
+    
     it('should create progress bars of different lengths', () => {
       const createProgressBar = (display as any).createProgressBar.bind(display);
       
@@ -0,0 +1,110 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { EventStream, TypedEventEmitter } from '../../client/events';
+
+interface TestEvents {
+  tick: number;
+  done: string;
+}
+
+describe('Client events', () => {
+  describe('TypedEventEmitter', () => {
+    it('should call the listeners of the emitted event only', () => {
+      const emitter = new TypedEventEmitter<TestEvents>();
+      const ticks: number[] = [];
+      const done = jest.fn();
+      emitter.on('tick', tick => ticks.push(tick));
+      emitter.on('done', done);
+
+      emitter.emit('tick', 1);
+      emitter.emit('tick', 2);
+
+      expect(ticks).toEqual([1, 2]);
+      expect(done).not.toHaveBeenCalled();
+    });
+
+    it('should call a once listener a single time, and none after off', () => {
+      const emitter = new TypedEventEmitter<TestEvents>();
+      const once = jest.fn();
+      const removed = jest.fn();
+      emitter.once('tick', once);
+      emitter.on('tick', removed);
+      emitter.off('tick', removed);
+
+      emitter.emit('tick', 1);
+      emitter.emit('tick', 2);
+
+      expect(once).toHaveBeenCalledTimes(1);
+      expect(once).toHaveBeenCalledWith(1);
+      expect(removed).not.toHaveBeenCalled();
+    });
+
+    it('should report a failing listener and still call the rest', () => {
+      const onListenerError = jest.fn();
+      const emitter = new TypedEventEmitter<TestEvents>(onListenerError);
+      const after = jest.fn();
+      emitter.on('done', () => {
+        throw new Error('Listener bug');
+      });
+      emitter.on('done', after);
+
+      emitter.emit('done', 'ok');
+
+      expect(onListenerError).toHaveBeenCalledWith('done', expect.objectContaining({ message: 'Listener bug' }));
+      expect(after).toHaveBeenCalledWith('ok');
+    });
+  });
+
+  describe('EventStream', () => {
+    it('should yield buffered values, then the ones pushed while waiting, until it ends', async () => {
+      const stream = new EventStream<number>();
+      stream.push(1);
+      stream.push(2);
+
+      const values: number[] = [];
+      const reading = (async () => {
+        for await (const value of stream) {
+          values.push(value);
+        }
+      })();
+      await new Promise(resolve => setImmediate(resolve));
+      stream.push(3);
+      stream.end();
+      stream.push(4);
+      await reading;
+
+      expect(values).toEqual([1, 2, 3]);
+    });
+
+    it('should clean up once, whether it ends or the reader stops early', async () => {
+      const cleanup = jest.fn();
+      const stream = new EventStream<number>(cleanup);
+      stream.push(1);
+      stream.push(2);
+
+      for await (const value of stream) {
+        expect(value).toBe(1);
+        break;
+      }
+      stream.end();
+
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      expect(await stream.next()).toEqual({ value: undefined, done: true });
+    });
+
+    it('should throw a failure once, after the buffered values', async () => {
+      const stream = new EventStream<number>();
+      stream.push(1);
+      stream.fail(new Error('Connection lost'));
+      stream.push(2);
+
+      expect(await stream.next()).toEqual({ value: 1, done: false });
+      await expect(stream.next()).rejects.toThrow('Connection lost');
+      expect(await stream.next()).toEqual({ value: undefined, done: true });
+
+      const waiting = new EventStream<number>();
+      const next = waiting.next();
+      waiting.fail(new Error('Gave up'));
+      await expect(next).rejects.toThrow('Gave up');
+    });
+  });
+});
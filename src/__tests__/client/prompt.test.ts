@@ -0,0 +1,126 @@
+import { describe, it, expect } from '@jest/globals';
+import { PassThrough } from 'node:stream';
+import { defaultFormContent, parseFieldAnswer, promptForInput, RequestedSchema, reviewSamplingReply } from '../../client/ui/prompt';
+
+const form: RequestedSchema = {
+  type: 'object',
+  properties: {
+    confirm: { type: 'boolean', title: 'Continue', default: true },
+    retries: { type: 'integer', minimum: 1, maximum: 5 },
+    mode: { type: 'string', enum: ['fast', 'safe'] },
+    note: { type: 'string' },
+  },
+  required: ['retries'],
+};
+
+// Answer each question as it is asked, and keep what the prompts wrote
+function terminal(answers: string[]) {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  let written = '';
+  output.on('data', chunk => {
+    written += chunk.toString();
+    if (written.endsWith(': ') && answers.length > 0) {
+      input.write(`${answers.shift()}\n`);
+    }
+  });
+  return { input, output, written: () => written };
+}
+
+describe('Elicitation prompts', () => {
+  it('should fill in defaults, first choices and minimums without asking', () => {
+    expect(defaultFormContent(form)).toEqual({ confirm: true, retries: 1, mode: 'fast', note: '' });
+  });
+
+  describe('parseFieldAnswer', () => {
+    it('should read yes/no answers for booleans', () => {
+      expect(parseFieldAnswer({ type: 'boolean' }, 'Y')).toBe(true);
+      expect(parseFieldAnswer({ type: 'boolean' }, 'no')).toBe(false);
+      expect(parseFieldAnswer({ type: 'boolean' }, 'maybe')).toBeUndefined();
+    });
+
+    it('should check numbers against their type and range', () => {
+      const field = { type: 'integer' as const, minimum: 1, maximum: 5 };
+
+      expect(parseFieldAnswer(field, '3')).toBe(3);
+      expect(parseFieldAnswer(field, '2.5')).toBeUndefined();
+      expect(parseFieldAnswer(field, '9')).toBeUndefined();
+      expect(parseFieldAnswer({ type: 'number' }, 'abc')).toBeUndefined();
+    });
+
+    it('should only accept listed choices', () => {
+      expect(parseFieldAnswer({ type: 'string', enum: ['fast', 'safe'] }, ' safe ')).toBe('safe');
+      expect(parseFieldAnswer({ type: 'string', enum: ['fast', 'safe'] }, 'slow')).toBeUndefined();
+    });
+  });
+
+  describe('promptForInput', () => {
+    it('should ask for each field and accept the answers', async () => {
+      const { input, output } = terminal(['y', '', '4', 'safe', '']);
+
+      const result = await promptForInput('Carry on?', form, { input, output });
+
+      expect(result).toEqual({ action: 'accept', content: { confirm: true, retries: 4, mode: 'safe' } });
+    });
+
+    it('should re-ask until a required field has a valid answer', async () => {
+      const { input, output, written } = terminal(['y', 'n', '', '7', '2', 'fast', 'ok']);
+
+      const result = await promptForInput('Carry on?', form, { input, output });
+
+      expect(result).toEqual({ action: 'accept', content: { confirm: false, retries: 2, mode: 'fast', note: 'ok' } });
+      expect(written()).toContain('retries is required');
+      expect(written()).toContain('Invalid value for retries');
+    });
+
+    it('should decline or cancel from the first question', async () => {
+      const declined = terminal(['n']);
+      const cancelled = terminal(['c']);
+
+      expect(await promptForInput('Carry on?', form, declined)).toEqual({ action: 'decline' });
+      expect(await promptForInput('Carry on?', form, cancelled)).toEqual({ action: 'cancel' });
+    });
+
+    it('should cancel when the request is withdrawn', async () => {
+      const { input, output } = terminal([]);
+      const controller = new AbortController();
+
+      const result = promptForInput('Carry on?', form, { input, output, signal: controller.signal });
+      controller.abort();
+
+      expect(await result).toEqual({ action: 'cancel' });
+    });
+  });
+
+  describe('reviewSamplingReply', () => {
+    it('should approve the proposal by default', async () => {
+      expect(await reviewSamplingReply('Looking good', terminal(['']))).toEqual({ action: 'approve', text: 'Looking good', edited: false });
+      expect(await reviewSamplingReply('Looking good', terminal(['a']))).toEqual({ action: 'approve', text: 'Looking good', edited: false });
+    });
+
+    it('should replace the proposal with an edit, or keep it on an empty one', async () => {
+      expect(await reviewSamplingReply('Looking good', terminal(['e', '{"action":"pause"}'])))
+        .toEqual({ action: 'approve', text: '{"action":"pause"}', edited: true });
+      expect(await reviewSamplingReply('Looking good', terminal(['e', ''])))
+        .toEqual({ action: 'approve', text: 'Looking good', edited: false });
+    });
+
+    it('should re-ask until the user writes a reply of their own', async () => {
+      const { input, output, written } = terminal(['x', 'w', ' ', 'Stop here']);
+
+      expect(await reviewSamplingReply('Looking good', { input, output })).toEqual({ action: 'approve', text: 'Stop here', edited: true });
+      expect(written()).toContain('Unknown choice: x');
+      expect(written()).toContain('The reply cannot be empty');
+    });
+
+    it('should reject, or resolve to nothing when dismissed', async () => {
+      expect(await reviewSamplingReply('Looking good', terminal(['r']))).toEqual({ action: 'reject' });
+
+      const { input, output } = terminal([]);
+      const controller = new AbortController();
+      const review = reviewSamplingReply('Looking good', { input, output, signal: controller.signal });
+      controller.abort();
+      expect(await review).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from '@jest/globals';
+import { SamplingRateLimiter } from '../../client/sampling';
+import { SamplingRateLimitSchema } from '../../shared/config';
+
+describe('SamplingRateLimiter', () => {
+  it('should allow everything without limits', () => {
+    const limiter = new SamplingRateLimiter(SamplingRateLimitSchema.parse({}));
+
+    for (let i = 0; i < 100; i++) {
+      expect(limiter.acquire(100, i)).toBeUndefined();
+    }
+    expect(limiter.usage()).toEqual({ accepted: 100, refused: 0, tokens: 10000 });
+  });
+
+  it('should refuse requests beyond the rate until the window moves on', () => {
+    const limiter = new SamplingRateLimiter(SamplingRateLimitSchema.parse({ maxRequests: 2, windowMs: 1000 }));
+
+    expect(limiter.acquire(100, 0)).toBeUndefined();
+    expect(limiter.acquire(100, 400)).toBeUndefined();
+    expect(limiter.acquire(100, 600)).toEqual({
+      limit: 'rate',
+      reason: 'Sampling rate limit of 2 requests per 1000ms reached',
+      retryAfterMs: 400,
+    });
+    expect(limiter.acquire(100, 1000)).toBeUndefined();
+    expect(limiter.usage()).toEqual({ accepted: 3, refused: 1, tokens: 300 });
+  });
+
+  it('should cap requests and tokens for the whole session', () => {
+    const requests = new SamplingRateLimiter(SamplingRateLimitSchema.parse({ maxTotalRequests: 1 }));
+    const tokens = new SamplingRateLimiter(SamplingRateLimitSchema.parse({ maxTotalTokens: 150 }));
+
+    expect(requests.acquire(100, 0)).toBeUndefined();
+    expect(requests.acquire(100, 60000)).toMatchObject({ limit: 'total_requests' });
+    expect(tokens.acquire(100, 0)).toBeUndefined();
+    expect(tokens.acquire(100, 0)).toEqual({ limit: 'total_tokens', reason: 'Sampling limit of 150 tokens per session reached' });
+    expect(tokens.acquire(50, 0)).toBeUndefined();
+  });
+});
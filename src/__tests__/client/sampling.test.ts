@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { promises as fs } from 'node:fs';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  chooseModel,
+  createSamplingProvider,
+  limitReply,
+  MOCK_MODEL,
+  MockSamplingProvider,
+  OpenAiSamplingProvider,
+  SamplingParams,
+  SCRIPTED_MODEL,
+  ScriptedSamplingProvider,
+} from '../../client/sampling';
+
+function samplingParams(text: string, params: Partial<SamplingParams> = {}): SamplingParams {
+  return {
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+    maxTokens: 100,
+    ...params,
+  };
+}
+
+describe('Sampling providers', () => {
+  describe('limitReply', () => {
+    it('should stop at the earliest stop sequence', () => {
+      expect(limitReply('one two. three END four', { maxTokens: 100, stopSequences: ['END', '.'] }))
+        .toEqual({ text: 'one two', stopReason: 'stopSequence' });
+    });
+
+    it('should cut the reply after maxTokens words', () => {
+      expect(limitReply('one two three four', { maxTokens: 2 })).toEqual({ text: 'one two', stopReason: 'maxTokens' });
+      expect(limitReply('one two', { maxTokens: 2 })).toEqual({ text: 'one two', stopReason: 'endTurn' });
+    });
+  });
+
+  it('should pick the first model hint an available model contains', () => {
+    const params = samplingParams('hi', { modelPreferences: { hints: [{ name: 'claude' }, { name: 'llama' }] } });
+
+    expect(chooseModel(params, ['llama3.2', 'qwen2.5'], 'default')).toBe('llama3.2');
+    expect(chooseModel(params, ['qwen2.5'], 'default')).toBe('default');
+  });
+
+  it('should answer with canned feedback from the mock provider', async () => {
+    const provider = new MockSamplingProvider();
+
+    const result = await provider.createMessage(samplingParams('How is the progress?'));
+
+    expect(result).toMatchObject({ model: MOCK_MODEL, role: 'assistant', stopReason: 'endTurn' });
+    expect(result.content).toMatchObject({ type: 'text', text: expect.stringContaining('Feedback #1: Looking good! Great progress so far!') });
+  });
+
+  describe('ScriptedSamplingProvider', () => {
+    it('should replay replies in order and start over at the end', async () => {
+      const provider = new ScriptedSamplingProvider(['first', { text: 'second', model: 'gpt-4o' }]);
+
+      const replies = [];
+      for (let i = 0; i < 3; i++) {
+        replies.push(await provider.createMessage(samplingParams('step')));
+      }
+
+      expect(replies.map(reply => reply.content)).toEqual([
+        { type: 'text', text: 'first' },
+        { type: 'text', text: 'second' },
+        { type: 'text', text: 'first' },
+      ]);
+      expect(replies.map(reply => reply.model)).toEqual([SCRIPTED_MODEL, 'gpt-4o', SCRIPTED_MODEL]);
+    });
+
+    it('should pass over replies whose match the request does not contain', async () => {
+      const provider = new ScriptedSamplingProvider([{ text: 'skip it', match: 'Step 3' }, 'carry on']);
+
+      expect((await provider.createMessage(samplingParams('We are at step 1'))).content).toMatchObject({ text: 'carry on' });
+      expect((await provider.createMessage(samplingParams('Done', { systemPrompt: 'We are at step 3' }))).content)
+        .toMatchObject({ text: 'skip it' });
+      await expect(new ScriptedSamplingProvider([{ text: 'never', match: 'nope' }]).createMessage(samplingParams('hi')))
+        .rejects.toThrow('No scripted reply matches the sampling request');
+    });
+
+    it('should honor maxTokens, stop sequences and model hints', async () => {
+      const provider = new ScriptedSamplingProvider(['a b c d; e']);
+
+      const result = await provider.createMessage(samplingParams('hi', {
+        maxTokens: 10,
+        stopSequences: [';'],
+        modelPreferences: { hints: [{ name: 'llama3.2' }] },
+      }));
+
+      expect(result).toMatchObject({ model: 'llama3.2', content: { text: 'a b c d' }, stopReason: 'stopSequence' });
+    });
+
+    it('should load replies from a file and reject invalid scripts', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-notify-script-'));
+      try {
+        const script = path.join(dir, 'replies.json');
+        await fs.writeFile(script, JSON.stringify(['{"action":"pause"}']));
+        const provider = await createSamplingProvider({ provider: 'scripted', scriptFile: script });
+        expect((await provider.createMessage(samplingParams('hi'))).content).toMatchObject({ text: '{"action":"pause"}' });
+
+        await fs.writeFile(script, '[]');
+        await expect(ScriptedSamplingProvider.fromFile(script)).rejects.toThrow('The script needs at least one reply');
+        await fs.writeFile(script, 'not json');
+        await expect(ScriptedSamplingProvider.fromFile(script)).rejects.toThrow('is not valid JSON');
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('OpenAiSamplingProvider', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    const requests: Array<{ url?: string; authorization?: string; body: any }> = [];
+    let reply: { status: number; body: unknown; delayMs?: number } = { status: 200, body: {} };
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          requests.push({ url: req.url, authorization: req.headers.authorization, body: JSON.parse(body) });
+          const { status, body: replyBody, delayMs = 0 } = reply;
+          setTimeout(() => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(replyBody));
+          }, delayMs);
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should send the request as a chat completion', async () => {
+      reply = { status: 200, body: { model: 'llama3.2:latest', choices: [{ message: { content: 'Fine' }, finish_reason: 'length' }] } };
+      const provider = new OpenAiSamplingProvider({ baseUrl, apiKey: 'secret', model: 'qwen2.5', models: ['qwen2.5', 'llama3.2'] });
+
+      const result = await provider.createMessage(samplingParams('How is it going?', {
+        systemPrompt: 'You monitor a task.',
+        maxTokens: 50,
+        temperature: 0.2,
+        stopSequences: ['\n'],
+        modelPreferences: { hints: [{ name: 'llama' }] },
+      }));
+
+      expect(result).toEqual({
+        model: 'llama3.2:latest',
+        role: 'assistant',
+        content: { type: 'text', text: 'Fine' },
+        stopReason: 'maxTokens',
+      });
+      expect(requests.at(-1)).toEqual({
+        url: '/v1/chat/completions',
+        authorization: 'Bearer secret',
+        body: {
+          model: 'llama3.2',
+          messages: [
+            { role: 'system', content: 'You monitor a task.' },
+            { role: 'user', content: 'How is it going?' },
+          ],
+          max_tokens: 50,
+          temperature: 0.2,
+          stop: ['\n'],
+        },
+      });
+    });
+
+    it('should pick from the configured models when created for the CLI', async () => {
+      reply = { status: 200, body: { choices: [{ message: { content: 'Fine' }, finish_reason: 'stop' }] } };
+      const provider = await createSamplingProvider({ provider: 'openai', url: baseUrl, model: 'qwen2.5', models: ['qwen2.5', 'llama3.2'] });
+
+      const result = await provider.createMessage(samplingParams('hi', { modelPreferences: { hints: [{ name: 'llama' }] } }));
+
+      expect(result.model).toBe('llama3.2');
+      expect(requests.at(-1)?.body.model).toBe('llama3.2');
+    });
+
+    it('should give up on a reply after the configured timeout', async () => {
+      reply = { status: 200, body: { choices: [{ message: { content: 'Too late' }, finish_reason: 'stop' }] }, delayMs: 500 };
+      const provider = await createSamplingProvider({ provider: 'openai', url: baseUrl, model: 'qwen2.5', timeoutMs: 50 });
+
+      await expect(provider.createMessage(samplingParams('hi'))).rejects.toThrow(/timeout/);
+    });
+
+    it('should report HTTP errors', async () => {
+      reply = { status: 401, body: { error: 'invalid key' } };
+      const provider = new OpenAiSamplingProvider({ baseUrl, model: 'qwen2.5' });
+
+      await expect(provider.createMessage(samplingParams('hi'))).rejects.toThrow('Sampling provider returned HTTP 401: {"error":"invalid key"}');
+      expect(requests.at(-1)?.authorization).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from '@jest/globals';
+import { checkpointOutcome, CheckpointSchema, CONFIRM_FORM } from '../../server/checkpoints';
+
+describe('Checkpoints', () => {
+  it('should reject forms with nested fields', () => {
+    expect(CheckpointSchema.safeParse({ afterStep: 2, requestedSchema: CONFIRM_FORM }).success).toBe(true);
+    expect(CheckpointSchema.safeParse({
+      afterStep: 2,
+      requestedSchema: { type: 'object', properties: { nested: { type: 'object' } } },
+    }).success).toBe(false);
+    expect(CheckpointSchema.safeParse({ afterStep: 0 }).success).toBe(false);
+  });
+
+  describe('checkpointOutcome', () => {
+    it('should continue once the default form is confirmed', () => {
+      expect(checkpointOutcome({ afterStep: 2 }, { action: 'accept', content: { confirm: true } })).toEqual({ proceed: true });
+    });
+
+    it('should stop when the default form is accepted without confirming', () => {
+      expect(checkpointOutcome({ afterStep: 2 }, { action: 'accept', content: { confirm: false } })).toEqual({
+        proceed: false,
+        reason: 'Not confirmed at the checkpoint after step 2',
+      });
+    });
+
+    it('should stop when the request is declined or dismissed', () => {
+      expect(checkpointOutcome({ afterStep: 3 }, { action: 'decline' })).toEqual({
+        proceed: false,
+        reason: 'Declined at the checkpoint after step 3',
+      });
+      expect(checkpointOutcome({ afterStep: 3 }, { action: 'cancel' })).toEqual({
+        proceed: false,
+        reason: 'Checkpoint after step 3 was dismissed',
+      });
+    });
+
+    it('should continue on any accepted answer to a custom form', () => {
+      const checkpoint = {
+        afterStep: 1,
+        requestedSchema: { type: 'object' as const, properties: { note: { type: 'string' as const } } },
+      };
+
+      expect(checkpointOutcome(checkpoint, { action: 'accept', content: { note: 'fine' } })).toEqual({ proceed: true });
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { loadServerConfig } from '../../server/config';
+
+describe('loadServerConfig', () => {
+  let dir: string;
+  let configFile: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'mcp-notify-config-'));
+    configFile = path.join(dir, 'server.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should fall back to the schema defaults', () => {
+    const config = loadServerConfig([], {});
+
+    expect(config).toMatchObject({
+      name: 'mcp-notify-server',
+      version: '1.0.0',
+      transport: 'stdio',
+      maxSteps: 1000,
+      maxConcurrentTasks: 10,
+    });
+  });
+
+  it('should layer file, environment and flags in increasing precedence', () => {
+    writeFileSync(configFile, JSON.stringify({ name: 'from-file', port: 4000, maxSteps: 50, maxDelayMs: 2000 }));
+
+    const config = loadServerConfig(
+      ['--config', configFile, '--max-steps', '20'],
+      { MCP_NOTIFY_PORT: '5000', MCP_NOTIFY_MAX_STEPS: '30' }
+    );
+
+    expect(config.name).toBe('from-file');
+    expect(config.maxDelayMs).toBe(2000);
+    expect(config.port).toBe(5000);
+    expect(config.maxSteps).toBe(20);
+  });
+
+  it('should read the config file path from the environment', () => {
+    writeFileSync(configFile, JSON.stringify({ transport: 'http', enableLogging: false }));
+
+    const config = loadServerConfig([], { MCP_NOTIFY_CONFIG: configFile });
+
+    expect(config.transport).toBe('http');
+    expect(config.enableLogging).toBe(false);
+  });
+
+  it('should coerce environment strings to numbers and booleans', () => {
+    const config = loadServerConfig([], {
+      MCP_NOTIFY_MAX_CONCURRENT_TASKS: '3',
+      MCP_NOTIFY_ENABLE_LOGGING: 'false',
+      MCP_NOTIFY_TASK_STORE_FILE: './tasks.jsonl',
+    });
+
+    expect(config.maxConcurrentTasks).toBe(3);
+    expect(config.enableLogging).toBe(false);
+    expect(config.taskStoreFile).toBe('./tasks.jsonl');
+  });
+
+  it('should read the logging settings', () => {
+    const config = loadServerConfig(['--log-format', 'json', '--log-file', './server.log'], { MCP_NOTIFY_LOG_LEVEL: 'debug' });
+
+    expect(config.logLevel).toBe('debug');
+    expect(config.logFormat).toBe('json');
+    expect(config.logFile).toBe('./server.log');
+    expect(() => loadServerConfig(['--log-format', 'xml'], {})).toThrow(/logFormat/);
+  });
+
+  it('should treat --http as shorthand for the HTTP transport', () => {
+    expect(loadServerConfig(['--http'], {}).transport).toBe('http');
+  });
+
+  it('should report invalid values', () => {
+    expect(() => loadServerConfig(['--port', 'abc'], {})).toThrow(/Invalid server configuration[\s\S]*port/);
+    expect(() => loadServerConfig(['--transport', 'ws'], {})).toThrow(/transport/);
+    expect(() => loadServerConfig([], { MCP_NOTIFY_MAX_QUEUED_TASKS: '-1' })).toThrow(/maxQueuedTasks/);
+  });
+
+  it('should reject unknown flags and missing values', () => {
+    expect(() => loadServerConfig(['--unknown'], {})).toThrow('Unknown option: --unknown');
+    expect(() => loadServerConfig(['--port'], {})).toThrow('Missing value for --port');
+  });
+
+  it('should report unreadable or malformed config files', () => {
+    expect(() => loadServerConfig(['--config', path.join(dir, 'missing.json')], {})).toThrow(/Cannot read config file/);
+
+    writeFileSync(configFile, '{ not json');
+    expect(() => loadServerConfig(['--config', configFile], {})).toThrow(/Invalid JSON in config file/);
+
+    writeFileSync(configFile, '[]');
+    expect(() => loadServerConfig(['--config', configFile], {})).toThrow(/must contain a JSON object/);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from '@jest/globals';
+import { faultInjectionSchema, FaultInjectionSchema, InjectedFaultError, seededRandom } from '../../server/fault-injection';
+
+describe('Fault injection', () => {
+  describe('seededRandom', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      const first = seededRandom(42);
+      const second = seededRandom(42);
+      const sequence = Array.from({ length: 5 }, () => first());
+
+      expect(Array.from({ length: 5 }, () => second())).toEqual(sequence);
+      expect(new Set(sequence).size).toBe(5);
+    });
+
+    it('should produce different sequences for different seeds', () => {
+      expect(seededRandom(1)()).not.toBe(seededRandom(2)());
+    });
+
+    it('should stay within [0, 1)', () => {
+      const random = seededRandom(7);
+      for (let i = 0; i < 1000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('schema', () => {
+    it('should accept every fault together', () => {
+      const faults = {
+        failAtStep: 3,
+        failureRate: 0.25,
+        seed: 42,
+        delayRangeMs: { min: 100, max: 500 },
+        hangAtStep: 5,
+        dropNotificationRate: 0.5,
+      };
+
+      expect(FaultInjectionSchema.parse(faults)).toEqual(faults);
+    });
+
+    it('should reject rates outside [0, 1] and inverted delay ranges', () => {
+      expect(FaultInjectionSchema.safeParse({ failureRate: 1.5 }).success).toBe(false);
+      expect(FaultInjectionSchema.safeParse({ delayRangeMs: { min: 500, max: 100 } }).success).toBe(false);
+    });
+
+    it('should bound the delay range by the server limit', () => {
+      const schema = faultInjectionSchema({ maxSteps: 10, maxDelayMs: 1000 });
+
+      expect(schema.safeParse({ delayRangeMs: { min: 0, max: 1000 } }).success).toBe(true);
+      expect(schema.safeParse({ delayRangeMs: { min: 0, max: 1001 } }).success).toBe(false);
+    });
+  });
+
+  it('should name the step an injected failure happened at', () => {
+    expect(new InjectedFaultError(4).message).toBe('Injected failure at step 4');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  CallToolResultSchema,
+  CreateMessageRequestSchema,
+  ListToolsResultSchema,
+  Notification,
+  ProgressNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ServerConfigSchema } from '../../shared/config';
+import { createLogger } from '../../shared/logger';
+import { RunningHttpServer, startHttpServer } from '../../server/http';
+import { createNotifyServer } from '../../server/server';
+import { TaskQueue } from '../../server/task-queue';
+import { TaskRegistry } from '../../server/task-registry';
+
+const config = ServerConfigSchema.parse({});
+
+describe('Streamable HTTP transport', () => {
+  let tasks: TaskRegistry;
+  let running: RunningHttpServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    tasks = new TaskRegistry();
+    running = await startHttpServer({
+      port: 0,
+      createServer: () => createNotifyServer(tasks, new TaskQueue(), config, createLogger({ name: 'http-server', enabled: false })),
+    });
+    const { port } = running.httpServer.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await running.close();
+    tasks.clear();
+  });
+
+  async function connectClient(): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: { sampling: {} } });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    await client.connect(transport);
+    return { client, transport };
+  }
+
+  it('should serve tools over a session', async () => {
+    const { client, transport } = await connectClient();
+
+    const result = await client.request({ method: 'tools/list', params: {} }, ListToolsResultSchema);
+
+    expect(transport.sessionId).toBeDefined();
+    expect(result.tools.map(tool => tool.name)).toContain('start_long_running_task');
+    await client.close();
+  });
+
+  it('should give each client its own session', async () => {
+    const first = await connectClient();
+    const second = await connectClient();
+
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+    expect(running.sessionCount()).toBe(2);
+
+    await first.transport.terminateSession();
+    await first.client.close();
+    expect(running.sessionCount()).toBe(1);
+    await second.client.close();
+  });
+
+  it('should send a task\'s notifications and sampling requests only to the session that started it', async () => {
+    const sessions = await Promise.all([connectClient(), connectClient()]);
+    const received = sessions.map(({ client }) => {
+      const seen = { notifications: [] as Notification[], sampling: 0 };
+      client.fallbackNotificationHandler = async (notification) => {
+        seen.notifications.push(notification);
+      };
+      client.setNotificationHandler(ProgressNotificationSchema, (notification) => {
+        seen.notifications.push(notification);
+      });
+      client.setRequestHandler(CreateMessageRequestSchema, async () => {
+        seen.sampling++;
+        return { model: 'test-model', role: 'assistant', content: { type: 'text', text: 'Looking good' } };
+      });
+      return seen;
+    });
+    const [starter, other] = received;
+
+    const result = await sessions[0].client.request({
+      method: 'tools/call',
+      params: {
+        name: 'start_long_running_task',
+        arguments: { steps: 2, delayMs: 100, enableSampling: true, mode: 'await' },
+        _meta: { progressToken: 'started-here' },
+      },
+    }, CallToolResultSchema);
+    const [task] = tasks.list();
+
+    // Names the task in its params or in _meta
+    const aboutTask = (notification: Notification) =>
+      JSON.stringify(notification.params ?? {}).includes(task.taskId);
+    expect(result.isError).toBeFalsy();
+    expect(new Set(starter.notifications.filter(aboutTask).map(notification => notification.method))).toEqual(
+      new Set(['notifications/progress', 'notifications/task_event'])
+    );
+    expect(starter.sampling).toBeGreaterThan(0);
+    expect(other.notifications.filter(aboutTask)).toEqual([]);
+    expect(other.sampling).toBe(0);
+
+    await Promise.all(sessions.map(({ client }) => client.close()));
+  });
+
+  it('should reject requests without a session that are not initialization', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
+    });
+
+    expect(response.status).toBe(400);
+    const body = await response.json() as { error: { message: string } };
+    expect(body.error.message).toContain('no valid session ID');
+  });
+
+  it('should return 404 outside the MCP endpoint', async () => {
+    const response = await fetch(`${baseUrl}/other`);
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  isRetryable,
+  NO_RETRY,
+  NonRetryableError,
+  RetryPolicySchema,
+  retryDelay,
+  StepFailedError,
+} from '../../server/retry-policy';
+
+describe('Retry policy', () => {
+  it('should default to a single attempt', () => {
+    expect(NO_RETRY).toMatchObject({ maxAttempts: 1, backoff: 'exponential', delayMs: 1000, jitter: true });
+    expect(RetryPolicySchema.safeParse({ maxAttempts: 0 }).success).toBe(false);
+  });
+
+  describe('retryDelay', () => {
+    it('should wait the same time between attempts with fixed backoff', () => {
+      const policy = RetryPolicySchema.parse({ backoff: 'fixed', delayMs: 200, jitter: false });
+
+      expect([1, 2, 3].map(attempt => retryDelay(policy, attempt))).toEqual([200, 200, 200]);
+    });
+
+    it('should double the wait with exponential backoff up to maxDelayMs', () => {
+      const policy = RetryPolicySchema.parse({ delayMs: 100, maxDelayMs: 500, jitter: false });
+
+      expect([1, 2, 3, 4].map(attempt => retryDelay(policy, attempt))).toEqual([100, 200, 400, 500]);
+    });
+
+    it('should scale the wait to between half and all of it with jitter', () => {
+      const policy = RetryPolicySchema.parse({ backoff: 'fixed', delayMs: 1000 });
+
+      expect(retryDelay(policy, 1, () => 0)).toBe(500);
+      expect(retryDelay(policy, 1, () => 0.5)).toBe(750);
+      expect(retryDelay(policy, 1, () => 0.999)).toBeLessThanOrEqual(1000);
+    });
+  });
+
+  describe('isRetryable', () => {
+    it('should retry every error by default', () => {
+      expect(isRetryable(NO_RETRY, new Error('boom'))).toBe(true);
+      expect(isRetryable(NO_RETRY, 'boom')).toBe(true);
+    });
+
+    it('should only retry errors matching retryOn', () => {
+      const policy = RetryPolicySchema.parse({ retryOn: ['ECONNRESET', 'timeout'] });
+
+      expect(isRetryable(policy, new Error('read ECONNRESET'))).toBe(true);
+      expect(isRetryable(policy, new Error('request timeout'))).toBe(true);
+      expect(isRetryable(policy, new Error('permission denied'))).toBe(false);
+    });
+
+    it('should never retry a NonRetryableError', () => {
+      expect(isRetryable(NO_RETRY, new NonRetryableError('exited with code 1'))).toBe(false);
+    });
+  });
+
+  describe('StepFailedError', () => {
+    it('should keep the original message for a single attempt', () => {
+      expect(new StepFailedError(2, [{ attempt: 1, error: 'boom' }]).message).toBe('boom');
+    });
+
+    it('should list every attempt', () => {
+      const error = new StepFailedError(3, [
+        { attempt: 1, error: 'first', delayMs: 100 },
+        { attempt: 2, error: 'second' },
+      ]);
+
+      expect(error.message).toBe('Step 3 failed after 2 attempts (attempt 1: first; attempt 2: second)');
+      expect(error.attempts).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { checkSamplingBudget } from '../../server/sampling-budget';
+
+const unused = { requests: 0, tokens: 0, skipped: 0 };
+
+describe('Sampling budget', () => {
+  it('should allow every request without a budget', () => {
+    expect(checkSamplingBudget(undefined, { requests: 500, tokens: 50000, skipped: 0 }, { maxTokens: 100, sinceLastRequestMs: 0 }))
+      .toEqual({ allowed: true });
+  });
+
+  it('should stop sampling once the requests are used up', () => {
+    const budget = { maxRequests: 2 };
+
+    expect(checkSamplingBudget(budget, { ...unused, requests: 1 }, { maxTokens: 100 })).toEqual({ allowed: true });
+    expect(checkSamplingBudget(budget, { ...unused, requests: 2 }, { maxTokens: 100 })).toEqual({
+      allowed: false,
+      reason: 'Sampling budget of 2 requests used up',
+      exhausted: true,
+    });
+  });
+
+  it('should refuse a request whose maxTokens would overrun the token budget', () => {
+    const budget = { maxTokens: 250 };
+
+    expect(checkSamplingBudget(budget, { ...unused, tokens: 100 }, { maxTokens: 100 })).toEqual({ allowed: true });
+    expect(checkSamplingBudget(budget, { ...unused, tokens: 200 }, { maxTokens: 100 })).toMatchObject({
+      allowed: false,
+      reason: 'Sampling budget of 250 tokens used up',
+      exhausted: true,
+    });
+  });
+
+  it('should skip requests that come too soon without exhausting the budget', () => {
+    const budget = { minIntervalMs: 1000 };
+
+    expect(checkSamplingBudget(budget, unused, { maxTokens: 100 })).toEqual({ allowed: true });
+    expect(checkSamplingBudget(budget, unused, { maxTokens: 100, sinceLastRequestMs: 400 })).toEqual({
+      allowed: false,
+      reason: 'Less than 1000ms since the last sampling request',
+      exhausted: false,
+    });
+    expect(checkSamplingBudget(budget, unused, { maxTokens: 100, sinceLastRequestMs: 1000 })).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolResult, CallToolResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createNotifyServer } from '../../server/server';
+import { ShutdownCoordinator } from '../../server/shutdown';
+import { TaskQueue } from '../../server/task-queue';
+import { TaskRegistry } from '../../server/task-registry';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('ShutdownCoordinator', () => {
+  let tasks: TaskRegistry;
+  let queue: TaskQueue;
+  let server: Server;
+  let client: Client;
+  let events: Array<{ taskId: string; type: string; data: { message: string } }>;
+  let closeTransports: jest.Mock<() => Promise<void>>;
+
+  beforeEach(async () => {
+    tasks = new TaskRegistry();
+    queue = new TaskQueue({ maxConcurrent: 1, maxQueued: 5 });
+    server = createNotifyServer(tasks, queue);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    events = [];
+    client.fallbackNotificationHandler = async (notification) => {
+      events.push(notification.params as { taskId: string; type: string; data: { message: string } });
+    };
+    closeTransports = jest.fn(async () => {});
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    tasks.interruptActive();
+    tasks.clear();
+    await client.close();
+    await server.close();
+  });
+
+  async function callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+    return client.request(
+      { method: 'tools/call', params: { name, arguments: args } },
+      CallToolResultSchema
+    );
+  }
+
+  async function startTask(steps: number, delayMs: number): Promise<string> {
+    await callTool('start_long_running_task', { steps, delayMs, enableSampling: false });
+    return tasks.list()[tasks.size - 1].taskId;
+  }
+
+  function eventTypes(taskId: string): string[] {
+    return events.filter(event => event.taskId === taskId).map(event => event.type);
+  }
+
+  it('should let running tasks reach a step boundary before closing', async () => {
+    const coordinator = new ShutdownCoordinator({ tasks, queue, gracePeriodMs: 2000, closeTransports });
+    const taskId = await startTask(10, 200);
+    await sleep(50);
+
+    await coordinator.shutdown('SIGTERM');
+    await sleep(10);
+
+    const task = tasks.get(taskId)!;
+    expect(task.state).toBe('interrupted');
+    expect(task.completedSteps).toBe(1);
+    expect(eventTypes(taskId)).toEqual(['start', 'step', 'server_shutdown']);
+    expect(closeTransports).toHaveBeenCalledTimes(1);
+  });
+
+  it('should interrupt tasks still mid-step when the grace period expires', async () => {
+    const coordinator = new ShutdownCoordinator({ tasks, queue, gracePeriodMs: 100, closeTransports });
+    const taskId = await startTask(2, 5000);
+
+    const startedAt = Date.now();
+    await coordinator.shutdown('SIGINT');
+    await sleep(10);
+
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(tasks.get(taskId)!.state).toBe('interrupted');
+    expect(eventTypes(taskId)).toEqual(['start', 'server_shutdown']);
+    expect(closeTransports).toHaveBeenCalledTimes(1);
+  });
+
+  it('should notify queued and paused tasks', async () => {
+    const coordinator = new ShutdownCoordinator({ tasks, queue, gracePeriodMs: 2000, closeTransports });
+    const running = await startTask(10, 100);
+    const queued = await startTask(10, 100);
+    await callTool('pause_task', { taskId: running });
+
+    await coordinator.shutdown('SIGTERM');
+    await sleep(10);
+
+    expect(eventTypes(running)).toContain('server_shutdown');
+    expect(eventTypes(queued)).toEqual(['queued', 'server_shutdown']);
+    expect(tasks.active()).toHaveLength(0);
+  });
+
+  it('should refuse new tasks once shutdown has started', async () => {
+    const coordinator = new ShutdownCoordinator({ tasks, queue, gracePeriodMs: 100, closeTransports });
+    await coordinator.shutdown('SIGTERM');
+
+    const result = await callTool('start_long_running_task', { steps: 1, delayMs: 100, enableSampling: false });
+
+    expect(coordinator.shuttingDown).toBe(true);
+    expect(result.isError).toBe(true);
+    expect((result.content[0] as { text: string }).text).toContain('shutting down');
+  });
+
+  it('should only shut down once', async () => {
+    const coordinator = new ShutdownCoordinator({ tasks, queue, gracePeriodMs: 100, closeTransports });
+
+    const first = coordinator.shutdown('SIGINT');
+    const second = coordinator.shutdown('transport closed');
+
+    expect(second).toBe(first);
+    await first;
+    expect(closeTransports).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseSteeringResponse } from '../../server/steering';
+
+describe('Steering', () => {
+  describe('structured replies', () => {
+    it('should read a JSON directive', () => {
+      expect(parseSteeringResponse('{"action":"skip","steps":3}', 'structured')).toEqual({
+        directive: { action: 'skip', steps: 3 },
+        source: 'structured',
+      });
+      expect(parseSteeringResponse(' {"action":"cancel","reason":"enough"} ', 'structured')?.directive).toEqual({
+        action: 'cancel',
+        reason: 'enough',
+      });
+    });
+
+    it('should read a directive from a fenced code block', () => {
+      const reply = 'Slowing down.\n```json\n{"action":"set_delay","delayMs":2000}\n```';
+
+      expect(parseSteeringResponse(reply, 'structured')?.directive).toEqual({ action: 'set_delay', delayMs: 2000 });
+    });
+
+    it('should default skip to one step', () => {
+      expect(parseSteeringResponse('{"action":"skip"}', 'structured')?.directive).toEqual({ action: 'skip', steps: 1 });
+    });
+
+    it('should ignore invalid directives and plain feedback', () => {
+      expect(parseSteeringResponse('{"action":"explode"}', 'structured')).toBeUndefined();
+      expect(parseSteeringResponse('{"action":"set_delay","delayMs":1}', 'structured')).toBeUndefined();
+      expect(parseSteeringResponse('{not json', 'structured')).toBeUndefined();
+      expect(parseSteeringResponse('Looking good, keep going!', 'structured')).toBeUndefined();
+    });
+
+    it('should hold set_delay to the configured maximum delay', () => {
+      const limits = { maxDelayMs: 60000 };
+
+      expect(parseSteeringResponse('{"action":"set_delay","delayMs":30000}', 'structured')).toBeUndefined();
+      expect(parseSteeringResponse('{"action":"set_delay","delayMs":30000}', 'structured', limits)?.directive).toEqual({ action: 'set_delay', delayMs: 30000 });
+      expect(parseSteeringResponse('delay 90000ms', 'keywords', limits)).toBeUndefined();
+    });
+  });
+
+  describe('keyword replies', () => {
+    it('should only read keywords when the mode allows them', () => {
+      expect(parseSteeringResponse('pause', 'structured')).toBeUndefined();
+      expect(parseSteeringResponse('pause', 'keywords')).toEqual({ directive: { action: 'pause' }, source: 'keyword' });
+    });
+
+    it('should recognise each action', () => {
+      const action = (reply: string) => parseSteeringResponse(reply, 'keywords')?.directive;
+
+      expect(action('Continue, all fine')).toEqual({ action: 'continue' });
+      expect(action('Stop now.')).toEqual({ action: 'cancel' });
+      expect(action('skip ahead 4 steps')).toEqual({ action: 'skip', steps: 4 });
+      expect(action('Skip')).toEqual({ action: 'skip', steps: 1 });
+      expect(action('set delay to 250ms')).toEqual({ action: 'set_delay', delayMs: 250 });
+      expect(action('delay 500 ms please')).toEqual({ action: 'set_delay', delayMs: 500 });
+    });
+
+    it('should only match keywords at the start of the reply', () => {
+      expect(parseSteeringResponse("Don't stop now, great progress!", 'keywords')).toBeUndefined();
+    });
+  });
+
+  it('should ignore every reply when steering is off', () => {
+    expect(parseSteeringResponse('{"action":"cancel"}', 'off')).toBeUndefined();
+    expect(parseSteeringResponse('cancel', 'off')).toBeUndefined();
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execFileSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ServerConfigSchema } from '../../shared/config';
+import { createLogger } from '../../shared/logger';
+import {
+  createTaskKinds,
+  demoTaskKind,
+  createHashDirectoryTaskKind,
+  shellCommandTaskKind,
+  StepResult,
+  TaskKindRegistry,
+  TaskPlan,
+} from '../../server/task-kinds';
+import { InjectedFaultError } from '../../server/fault-injection';
+
+const log = createLogger({ name: 'task-kinds', enabled: false });
+const limits = ServerConfigSchema.parse({});
+
+// Run a plan's steps until it reports done or reaches its step count
+// Whether a process is alive; a killed one may linger as a zombie until it is reaped
+function isRunning(pid: number): boolean {
+  try {
+    return !execFileSync('ps', ['-o', 'stat=', '-p', String(pid)], { encoding: 'utf8' }).trim().startsWith('Z');
+  } catch {
+    return false;
+  }
+}
+
+async function runPlan(plan: TaskPlan, signal: AbortSignal = new AbortController().signal): Promise<StepResult[]> {
+  const results: StepResult[] = [];
+  try {
+    for (let step = 1; plan.totalSteps === undefined || step <= plan.totalSteps; step++) {
+      const result = await plan.step(step, { signal, log });
+      results.push(result);
+      if (result.done) {
+        break;
+      }
+    }
+  } finally {
+    await plan.cleanup?.();
+  }
+  return results;
+}
+
+describe('Task kinds', () => {
+  describe('TaskKindRegistry', () => {
+    it('should find kinds by name and by tool', () => {
+      const kinds = new TaskKindRegistry().register(demoTaskKind);
+
+      expect(kinds.get('demo')).toBe(demoTaskKind);
+      expect(kinds.forTool('start_long_running_task')).toBe(demoTaskKind);
+      expect(kinds.forTool('get_task_status')).toBeUndefined();
+    });
+
+    it('should reject a duplicate kind or tool name', () => {
+      const kinds = new TaskKindRegistry().register(demoTaskKind);
+
+      expect(() => kinds.register(demoTaskKind)).toThrow('Task kind demo is already registered');
+      expect(() => kinds.register({ ...createHashDirectoryTaskKind(os.tmpdir()), toolName: 'start_long_running_task' }))
+        .toThrow('Tool start_long_running_task is already registered');
+    });
+
+    it('should only register the shell command and hash directory kinds when allowed', () => {
+      expect(createTaskKinds(limits).list().map(kind => kind.kind)).toEqual(['demo']);
+      expect(createTaskKinds({ ...limits, allowShellCommands: true }).get('shell_command')).toBe(shellCommandTaskKind);
+      expect(createTaskKinds({ ...limits, allowHashDirectory: true }).get('hash_directory')).toBeDefined();
+    });
+  });
+
+  describe('demo', () => {
+    const prepare = (faults: Record<string, unknown>) =>
+      demoTaskKind.prepare(demoTaskKind.schema(limits).parse({ steps: 5, delayMs: 100, faults }));
+
+    it('should fail at the given step', async () => {
+      const plan = await prepare({ failAtStep: 2, delayRangeMs: { min: 0, max: 0 } });
+
+      await expect(runPlan(plan)).rejects.toThrow(InjectedFaultError);
+      await expect(plan.step(2, { signal: new AbortController().signal, log })).rejects.toThrow('Injected failure at step 2');
+    });
+
+    it('should replay the same faults for the same seed', async () => {
+      // Which attempts of five steps fail, and which steps go unreported
+      const outcomes = async () => {
+        const plan = await prepare({ seed: 42, failureRate: 0.5, dropNotificationRate: 0.5, delayRangeMs: { min: 0, max: 10 } });
+        const results: string[] = [];
+        for (let step = 1; step <= 5; step++) {
+          const result = await plan.step(step, { signal: new AbortController().signal, log }).catch(() => undefined);
+          results.push(result === undefined ? 'failed' : result.silent ? 'silent' : 'sent');
+        }
+        return results;
+      };
+
+      const first = await outcomes();
+      expect(await outcomes()).toEqual(first);
+      expect(first).toContain('failed');
+    });
+
+    it('should hang at the given step until aborted', async () => {
+      const plan = await prepare({ hangAtStep: 1 });
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 200);
+
+      const started = Date.now();
+      await expect(plan.step(1, { signal: controller.signal, log })).rejects.toThrow();
+      expect(Date.now() - started).toBeGreaterThanOrEqual(150);
+    });
+  });
+
+  describe('hash_directory', () => {
+    // The kind's root holds the hashed tree and a link leading out of the root
+    let root: string;
+    let dir: string;
+
+    beforeAll(async () => {
+      root = await fs.mkdtemp(path.join(os.tmpdir(), 'hash-directory-'));
+      dir = path.join(root, 'tree');
+      await fs.mkdir(path.join(dir, 'nested'), { recursive: true });
+      await fs.writeFile(path.join(dir, 'b.txt'), 'bravo');
+      await fs.writeFile(path.join(dir, 'nested', 'a.txt'), 'alpha');
+      await fs.symlink(os.tmpdir(), path.join(root, 'outside'));
+    });
+
+    afterAll(async () => {
+      await fs.rm(root, { recursive: true, force: true });
+    });
+
+    const prepare = (args: Record<string, unknown>) => {
+      const kind = createHashDirectoryTaskKind(root);
+      return kind.prepare(kind.schema(limits).parse(args));
+    };
+
+    it('should list the files, then hash one file per step in path order', async () => {
+      const plan = await prepare({ path: 'tree' });
+      expect(plan.totalSteps).toBeUndefined();
+
+      const results = await runPlan(plan);
+      expect(results.map(result => result.message)).toEqual(['Found 2 files to hash', 'Hashed b.txt (5 bytes)', 'Hashed nested/a.txt (5 bytes)']);
+      expect(results[2].done).toBe(true);
+
+      const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+      const expected = sha256(`b.txt\0${sha256('bravo')}\nnested/a.txt\0${sha256('alpha')}\n`);
+      expect(plan.output!()).toEqual({ path: 'tree', algorithm: 'sha256', files: 2, bytes: 10, digest: expected });
+    });
+
+    it('should leave out the digest of an incomplete pass', async () => {
+      const plan = await prepare({ path: 'tree', algorithm: 'md5' });
+      await plan.step(1, { signal: new AbortController().signal, log });
+      await plan.step(2, { signal: new AbortController().signal, log });
+
+      expect(plan.output!()).toMatchObject({ files: 1, digest: undefined });
+    });
+
+    it('should stop listing files once the task is cancelled', async () => {
+      const plan = await prepare({ path: 'tree' });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(plan.step(1, { signal: controller.signal, log })).rejects.toThrow();
+    });
+
+    it('should reject a path that is not a directory', async () => {
+      await expect(prepare({ path: 'tree/b.txt' }))
+        .rejects.toThrow('is not a directory');
+    });
+
+    it('should refuse directories outside its root, through links too', async () => {
+      for (const outside of ['..', '/', 'tree/../..', 'outside']) {
+        await expect(prepare({ path: outside })).rejects.toThrow(`${outside} is outside the directories this server hashes`);
+      }
+    });
+  });
+
+  describe('shell_command', () => {
+    const prepare = (command: string) => shellCommandTaskKind.prepare(shellCommandTaskKind.schema(limits).parse({ command }));
+
+    it('should stream each output line as a step', async () => {
+      const plan = await prepare('echo one; echo two >&2; echo three');
+      expect(plan.totalSteps).toBeUndefined();
+
+      const results = await runPlan(plan);
+      const messages = results.map(result => result.message);
+      // stdout and stderr are separate pipes, so only each stream's own order is fixed
+      expect(messages.filter(message => !message.startsWith('stderr'))).toEqual(['one', 'three', 'Command exited with code 0']);
+      expect(messages).toContain('stderr: two');
+      expect(results[results.length - 1].done).toBe(true);
+      expect(plan.output!()).toEqual({ command: 'echo one; echo two >&2; echo three', exitCode: 0, lines: 3 });
+    });
+
+    it('should fail on a non-zero exit code', async () => {
+      const plan = await prepare('echo partial; exit 3');
+
+      await expect(runPlan(plan)).rejects.toThrow('Command exited with code 3');
+      expect(plan.output!()).toMatchObject({ exitCode: 3, lines: 1 });
+    });
+
+    it('should stop waiting when aborted and kill the command on cleanup', async () => {
+      // The shell reports the PID of the command it starts, then waits for it
+      const plan = await prepare('sleep 30 & echo $!; wait');
+      const controller = new AbortController();
+      const { message } = await plan.step(1, { signal: controller.signal, log });
+      const pid = Number(message);
+      setTimeout(() => controller.abort(), 100);
+
+      const started = Date.now();
+      await expect(plan.step(2, { signal: controller.signal, log })).rejects.toThrow();
+      expect(isRunning(pid)).toBe(true);
+      await plan.cleanup!();
+
+      expect(Date.now() - started).toBeLessThan(5000);
+      expect(isRunning(pid)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolResultSchema, CreateMessageRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { ServerConfigSchema } from '../../shared/config';
+import { createLogger } from '../../shared/logger';
+import { createNotifyServer } from '../../server/server';
+import { TaskQueue } from '../../server/task-queue';
+import { TaskRegistry } from '../../server/task-registry';
+
+describe('Task prompts', () => {
+  let tasks: TaskRegistry;
+  let server: Server;
+  let client: Client;
+
+  beforeEach(async () => {
+    tasks = new TaskRegistry();
+    server = createNotifyServer(tasks, new TaskQueue(), ServerConfigSchema.parse({}), createLogger({ name: 'test-server', enabled: false }));
+    client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: { sampling: {} } });
+    client.setRequestHandler(CreateMessageRequestSchema, async () => ({
+      model: 'test-model',
+      role: 'assistant',
+      content: { type: 'text', text: 'Looking good' },
+    }));
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    tasks.interruptActive();
+    tasks.clear();
+    await client.close();
+    await server.close();
+  });
+
+  // Run a demo task to the end and return its ID
+  async function runTask(args: Record<string, unknown> = {}): Promise<string> {
+    await client.request(
+      { method: 'tools/call', params: { name: 'start_long_running_task', arguments: { steps: 2, delayMs: 100, mode: 'await', ...args } } },
+      CallToolResultSchema
+    );
+    return tasks.list()[tasks.size - 1].taskId;
+  }
+
+  async function promptText(name: string, taskId: string): Promise<string> {
+    const result = await client.getPrompt({ name, arguments: { taskId } });
+    expect(result.messages).toHaveLength(1);
+    expect(result.messages[0].role).toBe('user');
+    return (result.messages[0].content as { text: string }).text;
+  }
+
+  it('should list the prompts with their taskId argument', async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual(['summarize_task', 'diagnose_failed_task']);
+    expect(prompts[0].arguments).toEqual([expect.objectContaining({ name: 'taskId', required: true })]);
+  });
+
+  it('should render the configuration, history and sampling exchanges of a task', async () => {
+    const taskId = await runTask();
+
+    const text = await promptText('summarize_task', taskId);
+
+    expect(text).toMatch(/^Summarize the task run below/);
+    expect(text).toContain(`# Task ${taskId}`);
+    expect(text).toContain('"steps": 2');
+    expect(text).toContain('"state": "completed"');
+    expect(text).toMatch(/- \S+ step \(info\) step 1: Completed step 1 of 2/);
+    expect(text).toContain('- Step 1, asked: Please provide feedback on progress so far. We are at step 1 of 2 (50.0% complete). How should we proceed?');
+    expect(text).toContain('  test-model replied: Looking good');
+  });
+
+  it('should only diagnose tasks that did not complete', async () => {
+    const completed = await runTask({ enableSampling: false });
+    const failed = await runTask({ enableSampling: false, faults: { failAtStep: 2 } });
+
+    const text = await promptText('diagnose_failed_task', failed);
+
+    expect(text).toMatch(/^The task run below did not complete \(state: failed\)/);
+    expect(text).toContain('Injected failure at step 2');
+    expect(text).toContain('The task made no sampling requests.');
+    await expect(client.getPrompt({ name: 'diagnose_failed_task', arguments: { taskId: completed } }))
+      .rejects.toThrow(`Task ${completed} has not failed (state: completed)`);
+  });
+
+  it('should reject unknown prompts and tasks', async () => {
+    await expect(client.getPrompt({ name: 'summarize_task', arguments: { taskId: 'missing' } }))
+      .rejects.toMatchObject({ code: -32602, message: expect.stringContaining('Task missing not found') });
+    await expect(client.getPrompt({ name: 'summarize_task' })).rejects.toThrow('Prompt summarize_task needs a taskId argument');
+    await expect(client.getPrompt({ name: 'explain', arguments: { taskId: 'missing' } })).rejects.toThrow('Unknown prompt: explain');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { TaskQueue, TaskQueueFullError } from '../../server/task-queue';
+
+describe('TaskQueue', () => {
+  it('should start tasks immediately while slots are free', () => {
+    const queue = new TaskQueue({ maxConcurrent: 2, maxQueued: 5 });
+    const start = jest.fn();
+
+    expect(queue.submit('task-1', start)).toBe(0);
+    expect(queue.submit('task-2', start)).toBe(0);
+
+    expect(start).toHaveBeenCalledTimes(2);
+    expect(queue.runningCount).toBe(2);
+    expect(queue.queuedCount).toBe(0);
+  });
+
+  it('should queue tasks in FIFO order and start them as slots free up', () => {
+    const queue = new TaskQueue({ maxConcurrent: 1, maxQueued: 5 });
+    const started: string[] = [];
+    const start = (taskId: string) => () => started.push(taskId);
+
+    queue.submit('task-1', start('task-1'));
+    expect(queue.submit('task-2', start('task-2'))).toBe(1);
+    expect(queue.submit('task-3', start('task-3'))).toBe(2);
+
+    queue.release('task-1');
+    expect(started).toEqual(['task-1', 'task-2']);
+    expect(queue.position('task-3')).toBe(1);
+
+    queue.release('task-2');
+    expect(started).toEqual(['task-1', 'task-2', 'task-3']);
+    expect(queue.position('task-3')).toBeUndefined();
+  });
+
+  it('should run higher priority tasks first', () => {
+    const queue = new TaskQueue({ maxConcurrent: 1, maxQueued: 5 });
+    queue.submit('running', jest.fn());
+
+    queue.submit('low', jest.fn(), 0);
+    queue.submit('high', jest.fn(), 5);
+    queue.submit('high-later', jest.fn(), 5);
+
+    expect(queue.position('high')).toBe(1);
+    expect(queue.position('high-later')).toBe(2);
+    expect(queue.position('low')).toBe(3);
+  });
+
+  it('should reject tasks once the queue is full', () => {
+    const queue = new TaskQueue({ maxConcurrent: 1, maxQueued: 1 });
+    queue.submit('task-1', jest.fn());
+    queue.submit('task-2', jest.fn());
+
+    const start = jest.fn();
+    let error: unknown;
+    try {
+      queue.submit('task-3', start);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(TaskQueueFullError);
+    expect(error).toMatchObject({ code: 'queue_full', running: 1, maxConcurrent: 1, queued: 1, maxQueued: 1 });
+    expect(start).not.toHaveBeenCalled();
+    expect(queue.queuedCount).toBe(1);
+  });
+
+  it('should drop a queued task without starting it when released', () => {
+    const queue = new TaskQueue({ maxConcurrent: 1, maxQueued: 5 });
+    const start = jest.fn();
+    queue.submit('task-1', jest.fn());
+    queue.submit('task-2', start);
+
+    queue.release('task-2');
+    queue.release('task-1');
+
+    expect(start).not.toHaveBeenCalled();
+    expect(queue.runningCount).toBe(0);
+  });
+});
@@ -0,0 +1,315 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { TaskInfo, TaskRegistry, toTaskStatus } from '../../server/task-registry';
+import { InMemoryTaskStore } from '../../server/task-store';
+
+const config = {
+  steps: 10,
+  notificationInterval: 1,
+  delayMs: 100,
+  enableSampling: false,
+  mode: 'background' as const,
+  priority: 0,
+  steering: 'structured' as const,
+};
+
+function createTask(taskId: string, overrides: Partial<TaskInfo> = {}): TaskInfo {
+  return {
+    taskId,
+    config,
+    cancel: jest.fn(),
+    pause: jest.fn(),
+    resume: jest.fn(),
+    interrupt: jest.fn(async () => {}),
+    currentStep: 0,
+    completedSteps: 0,
+    totalSteps: 10,
+    cancelled: false,
+    state: 'running',
+    startedAt: Date.now(),
+    pausedMs: 0,
+    notificationsSent: 0,
+    samplingRequests: 0,
+    samplingUsage: { requests: 0, tokens: 0, skipped: 0 },
+    history: [],
+    lastSeq: 0,
+    lastProgress: -1,
+    decisions: [],
+    ...overrides,
+  };
+}
+
+describe('TaskRegistry', () => {
+  let registry: TaskRegistry;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    registry = new TaskRegistry(1000);
+  });
+
+  afterEach(() => {
+    registry.clear();
+    jest.useRealTimers();
+  });
+
+  describe('Task Tracking', () => {
+    it('should register and look up tasks', () => {
+      registry.add(createTask('task-1'));
+
+      expect(registry.get('task-1')).toHaveProperty('taskId', 'task-1');
+      expect(registry.get('missing')).toBeUndefined();
+      expect(registry.size).toBe(1);
+    });
+
+    it('should list tasks filtered by state', () => {
+      registry.add(createTask('task-1'));
+      registry.add(createTask('task-2'));
+      registry.finish('task-2', 'completed');
+
+      expect(registry.list()).toHaveLength(2);
+      expect(registry.list('completed').map(task => task.taskId)).toEqual(['task-2']);
+      expect(registry.active().map(task => task.taskId)).toEqual(['task-1']);
+    });
+
+    it('should treat paused tasks as active', () => {
+      registry.add(createTask('task-1', { state: 'paused' }));
+
+      expect(registry.active().map(task => task.taskId)).toEqual(['task-1']);
+      expect(registry.list('paused')).toHaveLength(1);
+    });
+  });
+
+  describe('Change Listeners', () => {
+    it('should record notifications in the task history', () => {
+      const task = createTask('task-1');
+      registry.add(task);
+
+      registry.recordNotification(task, {
+        method: 'notifications/task_event',
+        type: 'step',
+        level: 'info',
+        message: 'Completed step 1 of 10',
+        step: 1,
+        timestamp: '2025-01-01T00:00:00.000Z',
+      });
+
+      expect(task.history).toHaveLength(1);
+      expect(task.lastNotification).toEqual({
+        method: 'notifications/task_event',
+        type: 'step',
+        message: 'Completed step 1 of 10',
+        timestamp: '2025-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should tell listeners about added, updated and expired tasks until they stop listening', () => {
+      const changes: string[] = [];
+      const stop = registry.onChange((task, change) => changes.push(`${task.taskId} ${change}`));
+
+      const task = createTask('task-1');
+      registry.add(task);
+      registry.recordNotification(task, { method: 'notifications/progress', type: 'progress', message: '', timestamp: '' });
+      registry.finish('task-1', 'completed');
+      jest.advanceTimersByTime(1000);
+      stop();
+      registry.add(createTask('task-2'));
+
+      expect(changes).toEqual(['task-1 added', 'task-1 updated', 'task-1 updated', 'task-1 removed']);
+    });
+  });
+
+  describe('Event Log', () => {
+    function record(registry: TaskRegistry, task: TaskInfo, count: number) {
+      for (let i = 1; i <= count; i++) {
+        registry.recordNotification(task, { method: 'notifications/task_event', type: 'step', message: `Step ${i}`, timestamp: '' });
+      }
+    }
+
+    it('should number notifications and keep only the latest up to the history limit', () => {
+      const limited = new TaskRegistry(1000, new InMemoryTaskStore(), undefined, 3);
+      const task = createTask('task-1');
+      limited.add(task);
+
+      record(limited, task, 5);
+
+      expect(task.lastSeq).toBe(5);
+      expect(task.history.map(entry => [entry.seq, entry.message])).toEqual([[3, 'Step 3'], [4, 'Step 4'], [5, 'Step 5']]);
+      limited.clear();
+    });
+
+    it('should return the events after a sequence number and count the ones already dropped', () => {
+      const limited = new TaskRegistry(1000, new InMemoryTaskStore(), undefined, 3);
+      const task = createTask('task-1');
+      limited.add(task);
+      record(limited, task, 5);
+
+      expect(limited.eventsAfter(task, 3)).toEqual({ events: task.history.slice(1), missed: 0 });
+      expect(limited.eventsAfter(task, 0, 1)).toEqual({ events: task.history.slice(0, 1), missed: 2 });
+      expect(limited.eventsAfter(task, 5)).toEqual({ events: [], missed: 0 });
+      limited.clear();
+    });
+  });
+
+  describe('Retention', () => {
+    it('should keep finished tasks queryable until the retention window expires', () => {
+      registry.add(createTask('task-1'));
+      registry.finish('task-1', 'cancelled');
+
+      const task = registry.get('task-1');
+      expect(task?.state).toBe('cancelled');
+      expect(task?.finishedAt).toBeDefined();
+
+      jest.advanceTimersByTime(999);
+      expect(registry.get('task-1')).toBeDefined();
+
+      jest.advanceTimersByTime(1);
+      expect(registry.get('task-1')).toBeUndefined();
+    });
+
+    it('should ignore finishing unknown tasks', () => {
+      registry.finish('missing', 'failed');
+      expect(registry.size).toBe(0);
+    });
+  });
+
+  describe('Persistence', () => {
+    it('should write task progress and state through to the store', async () => {
+      const store = new InMemoryTaskStore();
+      const durable = new TaskRegistry(1000, store);
+      const task = createTask('task-1');
+
+      durable.add(task);
+      task.completedSteps = 4;
+      durable.checkpoint(task);
+      await durable.close();
+
+      expect(await store.get('task-1')).toMatchObject({ state: 'running', completedSteps: 4, config });
+
+      durable.finish('task-1', 'completed');
+      await durable.close();
+      expect((await store.get('task-1'))?.state).toBe('completed');
+      durable.clear();
+    });
+
+    it('should record running tasks as interrupted on shutdown', async () => {
+      const store = new InMemoryTaskStore();
+      const durable = new TaskRegistry(1000, store);
+      const task = createTask('task-1');
+      durable.add(task);
+
+      const interrupted = durable.interruptActive();
+      await durable.close();
+
+      expect(interrupted).toEqual([task]);
+      expect(task.cancel).toHaveBeenCalled();
+      expect((await store.get('task-1'))?.state).toBe('interrupted');
+
+      // The runner's own cleanup must not overwrite the interrupted state
+      durable.finish('task-1', 'cancelled');
+      expect(task.state).toBe('interrupted');
+      durable.clear();
+    });
+
+    it('should recover tasks left running by a previous process as interrupted', async () => {
+      const store = new InMemoryTaskStore();
+      await store.save({
+        taskId: 'task-1',
+        config,
+        state: 'running',
+        completedSteps: 6,
+        startedAt: Date.now() - 5000,
+        updatedAt: Date.now() - 100,
+        lastSeq: 14,
+      });
+      const restarted = new TaskRegistry(1000, store);
+
+      const interrupted = await restarted.recover();
+
+      expect(interrupted.map(task => task.taskId)).toEqual(['task-1']);
+      expect(restarted.get('task-1')).toMatchObject({ state: 'interrupted', completedSteps: 6, totalSteps: 10, lastSeq: 14 });
+      expect((await store.get('task-1'))?.state).toBe('interrupted');
+      restarted.clear();
+    });
+
+    it('should drop recovered tasks whose retention window has passed', async () => {
+      const store = new InMemoryTaskStore();
+      await store.save({
+        taskId: 'task-1',
+        config,
+        state: 'completed',
+        completedSteps: 10,
+        startedAt: Date.now() - 10000,
+        updatedAt: Date.now() - 5000,
+        finishedAt: Date.now() - 5000,
+      });
+      const restarted = new TaskRegistry(1000, store);
+
+      await restarted.recover();
+
+      expect(restarted.get('task-1')).toBeUndefined();
+      expect(await store.get('task-1')).toBeUndefined();
+    });
+  });
+
+  describe('Status Snapshots', () => {
+    it('should report progress and elapsed time for running tasks', () => {
+      const task = createTask('task-1', { currentStep: 5, startedAt: 1000 });
+
+      const status = toTaskStatus(task, 3500);
+
+      expect(status).toMatchObject({
+        taskId: 'task-1',
+        state: 'running',
+        currentStep: 5,
+        totalSteps: 10,
+        percentage: 50,
+        elapsedMs: 2500,
+        startedAt: new Date(1000).toISOString(),
+      });
+      expect(status.finishedAt).toBeUndefined();
+    });
+
+    it('should freeze elapsed time once a task finishes', () => {
+      const task = createTask('task-1', { startedAt: 1000, finishedAt: 2000, state: 'completed' });
+
+      const status = toTaskStatus(task, 10000);
+
+      expect(status.elapsedMs).toBe(1000);
+      expect(status.finishedAt).toBe(new Date(2000).toISOString());
+    });
+
+    it('should exclude paused time from elapsed time', () => {
+      const task = createTask('task-1', { startedAt: 1000, pausedMs: 500, pausedAt: 3000, state: 'paused' });
+
+      const status = toTaskStatus(task, 4000);
+
+      expect(status.pausedMs).toBe(1500);
+      expect(status.elapsedMs).toBe(1500);
+    });
+
+    it('should report the deadline and time remaining until it', () => {
+      const task = createTask('task-1', { startedAt: 1000, deadlineAt: 6000 });
+
+      expect(toTaskStatus(task, 2500)).toMatchObject({
+        deadline: new Date(6000).toISOString(),
+        remainingMs: 3500,
+      });
+      expect(toTaskStatus({ ...task, state: 'timed_out', finishedAt: 6000 }, 7000).remainingMs).toBeUndefined();
+    });
+
+    it('should include notification and sampling counters', () => {
+      const lastNotification = {
+        method: 'notifications/progress',
+        type: 'progress',
+        message: 'Completed step 1 of 10',
+        timestamp: '2023-01-01T12:00:00.000Z',
+      };
+      const task = createTask('task-1', { notificationsSent: 3, samplingRequests: 1, lastNotification });
+
+      const status = toTaskStatus(task);
+
+      expect(status.notificationsSent).toBe(3);
+      expect(status.samplingRequests).toBe(1);
+      expect(status.lastNotification).toEqual(lastNotification);
+    });
+  });
+});
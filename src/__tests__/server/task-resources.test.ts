@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolResultSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ServerConfigSchema } from '../../shared/config';
+import { createLogger } from '../../shared/logger';
+import { TaskHistoryEntry, TaskStatus } from '../../shared/types';
+import { createNotifyServer } from '../../server/server';
+import { TaskQueue } from '../../server/task-queue';
+import { TaskRegistry } from '../../server/task-registry';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Task resources', () => {
+  let tasks: TaskRegistry;
+  let server: Server;
+  let client: Client;
+
+  beforeEach(async () => {
+    tasks = new TaskRegistry();
+    server = createNotifyServer(tasks, new TaskQueue(), ServerConfigSchema.parse({}), createLogger({ name: 'test-server', enabled: false }));
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    tasks.interruptActive();
+    tasks.clear();
+    await client.close();
+    await server.close();
+  });
+
+  async function startTask(args: Record<string, unknown> = {}): Promise<string> {
+    await client.request(
+      { method: 'tools/call', params: { name: 'start_long_running_task', arguments: { steps: 2, delayMs: 100, enableSampling: false, ...args } } },
+      CallToolResultSchema
+    );
+    return tasks.list()[tasks.size - 1].taskId;
+  }
+
+  async function readJson<T>(uri: string): Promise<T> {
+    const result = await client.readResource({ uri });
+    return JSON.parse(result.contents[0].text as string) as T;
+  }
+
+  it('should advertise subscribable resources', () => {
+    expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: true, listChanged: true });
+  });
+
+  it('should list a status and a log resource per task, and their templates', async () => {
+    const taskId = await startTask();
+
+    const { resources } = await client.listResources();
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resources.map(resource => resource.uri)).toEqual([`task://${taskId}`, `task://${taskId}/log`]);
+    expect(resources[0]).toMatchObject({ mimeType: 'application/json', description: expect.stringContaining('demo task') });
+    expect(resourceTemplates.map(template => template.uriTemplate)).toEqual(['task://{taskId}', 'task://{taskId}/log']);
+  });
+
+  it('should read the status and the notification history of a task', async () => {
+    const taskId = await startTask();
+    await sleep(400);
+
+    const status = await readJson<TaskStatus>(`task://${taskId}`);
+    const log = await readJson<{ taskId: string; entries: TaskHistoryEntry[] }>(`task://${taskId}/log`);
+
+    expect(status).toMatchObject({ taskId, state: 'completed', currentStep: 2 });
+    expect(log.taskId).toBe(taskId);
+    expect(log.entries.map(entry => entry.type)).toEqual(['start', 'step', 'step', 'completion']);
+    expect(log.entries[1]).toMatchObject({ method: 'notifications/task_event', level: 'info', step: 1, message: 'Completed step 1 of 2' });
+  });
+
+  it('should report unknown resources as not found', async () => {
+    await expect(client.readResource({ uri: 'task://missing' })).rejects.toMatchObject({ code: -32002 });
+    await expect(client.readResource({ uri: 'file:///etc/passwd' })).rejects.toMatchObject({ code: -32002 });
+    await expect(client.subscribeResource({ uri: 'file:///etc/passwd' })).rejects.toMatchObject({ code: -32002 });
+  });
+
+  it('should notify subscribers whenever the task changes, until they unsubscribe', async () => {
+    const updates: string[] = [];
+    let listChanges = 0;
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      updates.push(notification.params.uri);
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+      listChanges++;
+    });
+
+    const taskId = await startTask();
+    await client.subscribeResource({ uri: `task://${taskId}` });
+    await sleep(400);
+
+    const received = updates.length;
+    expect(received).toBeGreaterThanOrEqual(3);
+    expect(new Set(updates)).toEqual(new Set([`task://${taskId}`]));
+
+    // A new task changes the resource list
+    await client.unsubscribeResource({ uri: `task://${taskId}` });
+    await startTask({ steps: 1 });
+    await sleep(200);
+    expect(updates).toHaveLength(received);
+    expect(listChanges).toBe(1);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { InMemoryTaskStore, JsonlTaskStore, TaskRecord } from '../../server/task-store';
+
+function createRecord(taskId: string, overrides: Partial<TaskRecord> = {}): TaskRecord {
+  return {
+    taskId,
+    config: {
+      steps: 10,
+      notificationInterval: 1,
+      delayMs: 100,
+      enableSampling: true,
+      mode: 'background',
+      priority: 0,
+      steering: 'structured',
+    },
+    state: 'running',
+    completedSteps: 0,
+    startedAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+  };
+}
+
+describe('InMemoryTaskStore', () => {
+  it('should save, update and delete records', async () => {
+    const store = new InMemoryTaskStore();
+
+    await store.save(createRecord('task-1'));
+    await store.save(createRecord('task-1', { completedSteps: 3 }));
+
+    expect(await store.get('task-1')).toMatchObject({ completedSteps: 3 });
+    expect(await store.list()).toHaveLength(1);
+
+    await store.delete('task-1');
+    expect(await store.get('task-1')).toBeUndefined();
+  });
+});
+
+describe('JsonlTaskStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-notify-store-'));
+    filePath = path.join(dir, 'tasks.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should start empty when the file does not exist', async () => {
+    const store = new JsonlTaskStore(filePath);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should survive a restart with the latest state of each task', async () => {
+    const store = new JsonlTaskStore(filePath);
+    await store.save(createRecord('task-1'));
+    await store.save(createRecord('task-1', { completedSteps: 7 }));
+    await store.save(createRecord('task-2', { state: 'completed', completedSteps: 10 }));
+    await store.delete('task-2');
+    await store.close();
+
+    const reopened = new JsonlTaskStore(filePath);
+    const records = await reopened.list();
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ taskId: 'task-1', state: 'running', completedSteps: 7 });
+  });
+
+  it('should compact the log when it is loaded', async () => {
+    const store = new JsonlTaskStore(filePath);
+    for (let step = 1; step <= 5; step++) {
+      await store.save(createRecord('task-1', { completedSteps: step }));
+    }
+    await store.close();
+
+    await new JsonlTaskStore(filePath).list();
+
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]).record.completedSteps).toBe(5);
+  });
+
+  it('should compact the log while it is written once it grows', async () => {
+    const store = new JsonlTaskStore(filePath, { compactAfter: 4 });
+    await store.save(createRecord('task-1', { state: 'completed' }));
+    for (let step = 1; step <= 10; step++) {
+      await store.save(createRecord('task-2', { completedSteps: step }));
+    }
+    await store.close();
+
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+    // One line per task after the compaction at the 8th append, then 3 more
+    expect(lines).toHaveLength(2 + 3);
+
+    const records = await new JsonlTaskStore(filePath).list();
+    expect(records).toEqual([
+      expect.objectContaining({ taskId: 'task-1', state: 'completed' }),
+      expect.objectContaining({ taskId: 'task-2', completedSteps: 10 }),
+    ]);
+  });
+
+  it('should ignore a torn final line', async () => {
+    const record = createRecord('task-1', { completedSteps: 2 });
+    await fs.writeFile(filePath, JSON.stringify({ op: 'save', record }) + '\n{"op":"sa', 'utf8');
+
+    const store = new JsonlTaskStore(filePath);
+
+    expect(await store.get('task-1')).toMatchObject({ completedSteps: 2 });
+  });
+});
@@ -0,0 +1,967 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolResult,
+  CallToolResultSchema,
+  ClientCapabilities,
+  CreateMessageRequestSchema,
+  ElicitRequest,
+  ElicitRequestSchema,
+  ElicitResult,
+  ListToolsResultSchema,
+  LoggingMessageNotification,
+  LoggingMessageNotificationSchema,
+  ProgressNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ServerConfig, ServerConfigSchema } from '../../shared/config';
+import { createLogger } from '../../shared/logger';
+import { createNotifyServer } from '../../server/server';
+import { TaskQueue } from '../../server/task-queue';
+import { NonRetryableError } from '../../server/retry-policy';
+import { TaskOptionsSchema } from '../../server/schemas';
+import { createTaskKinds, TaskKind, TaskKindRegistry } from '../../server/task-kinds';
+import { TaskRegistry } from '../../server/task-registry';
+import { TaskEventsResult, TaskStatus, ToolExecutionResult } from '../../shared/types';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Task tools', () => {
+  let tasks: TaskRegistry;
+  let server: Server;
+  let client: Client;
+  let events: Array<{ taskId: string; type: string }>;
+
+  beforeEach(async () => {
+    tasks = new TaskRegistry();
+    // One run slot and one queue slot, so a third task is rejected
+    server = createNotifyServer(
+      tasks,
+      new TaskQueue({ maxConcurrent: 1, maxQueued: 1 }),
+      ServerConfigSchema.parse({ name: 'configured-server', version: '2.0.0', maxSteps: 20, maxDelayMs: 500, taskTimeoutMs: 60000 }),
+      createLogger({ name: 'configured-server', enabled: false })
+    );
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    client.fallbackNotificationHandler = async (notification) => {
+      events.push(notification.params as { taskId: string; type: string });
+    };
+    events = [];
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    tasks.interruptActive();
+    tasks.clear();
+    await client.close();
+    await server.close();
+  });
+
+  async function callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+    return client.request(
+      { method: 'tools/call', params: { name, arguments: args } },
+      CallToolResultSchema
+    );
+  }
+
+  async function startTask(steps: number, priority?: number): Promise<string> {
+    await callTool('start_long_running_task', { steps, delayMs: 100, enableSampling: false, priority });
+    return tasks.list()[tasks.size - 1].taskId;
+  }
+
+  // A second server and client sharing the task registry, for other configs and task kinds
+  async function connectServer(
+    config: ServerConfig,
+    taskKinds: TaskKindRegistry = createTaskKinds(config),
+    capabilities: ClientCapabilities = {}
+  ) {
+    const otherServer = createNotifyServer(tasks, new TaskQueue(), config, createLogger({ name: 'other-server', enabled: false }), taskKinds);
+    const otherClient = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([otherClient.connect(clientTransport), otherServer.connect(serverTransport)]);
+
+    return {
+      client: otherClient,
+      callTool: (name: string, args: Record<string, unknown>) => otherClient.request(
+        { method: 'tools/call', params: { name, arguments: args } },
+        CallToolResultSchema
+      ),
+      close: async () => {
+        await otherClient.close();
+        await otherServer.close();
+      },
+    };
+  }
+
+  async function getStatus(taskId: string): Promise<TaskStatus> {
+    const result = await callTool('get_task_status', { taskId });
+    return result.structuredContent as unknown as TaskStatus;
+  }
+
+  describe('Pause and Resume', () => {
+    it('should hold the step loop while paused and continue after resume', async () => {
+      const taskId = await startTask(3);
+
+      const paused = await callTool('pause_task', { taskId });
+      expect(paused.isError).toBeFalsy();
+
+      await sleep(400);
+      const whilePaused = await getStatus(taskId);
+      expect(whilePaused.state).toBe('paused');
+      expect(whilePaused.currentStep).toBeLessThanOrEqual(1);
+      expect(whilePaused.pausedMs).toBeGreaterThanOrEqual(300);
+
+      const resumed = await callTool('resume_task', { taskId });
+      expect(resumed.isError).toBeFalsy();
+
+      await sleep(400);
+      const finished = await getStatus(taskId);
+      expect(finished.state).toBe('completed');
+      expect(finished.currentStep).toBe(3);
+      // Roughly three 100ms steps; the paused stretch is excluded
+      expect(finished.elapsedMs).toBeLessThan(whilePaused.pausedMs);
+    });
+
+    it('should let a paused task be cancelled', async () => {
+      const taskId = await startTask(5);
+      await callTool('pause_task', { taskId });
+
+      const cancelled = await callTool('cancel_task', { taskId });
+      expect(cancelled.isError).toBeFalsy();
+
+      await sleep(250);
+      expect((await getStatus(taskId)).state).toBe('cancelled');
+    });
+
+    it('should reject resuming a task that is not paused', async () => {
+      const taskId = await startTask(5);
+
+      const result = await callTool('resume_task', { taskId });
+
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toContain('task is running, not paused');
+    });
+
+    it('should reject pausing a cancelled task', async () => {
+      const taskId = await startTask(5);
+      await callTool('cancel_task', { taskId });
+
+      const result = await callTool('pause_task', { taskId });
+
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toContain('task is cancelled');
+    });
+
+    it('should reject resuming a finished task', async () => {
+      const taskId = await startTask(1);
+      await sleep(250);
+
+      const result = await callTool('resume_task', { taskId });
+
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toContain('task is completed');
+    });
+
+    it('should report unknown tasks', async () => {
+      const result = await callTool('pause_task', { taskId: 'missing' });
+
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toBe('Task missing not found');
+    });
+  });
+
+  describe('Resuming Interrupted Tasks', () => {
+    it('should resume a task only once when asked twice at the same time', async () => {
+      const taskId = await startTask(3);
+      tasks.interruptActive();
+      await sleep(150);
+
+      const results = await Promise.all([
+        callTool('resume_interrupted_task', { taskId }),
+        callTool('resume_interrupted_task', { taskId }),
+      ]);
+      const refused = results.filter(result => result.isError);
+      await sleep(500);
+
+      expect(refused).toHaveLength(1);
+      expect((refused[0].content[0] as { text: string }).text).toContain('only interrupted tasks can be resumed');
+      expect((await getStatus(taskId)).state).toBe('completed');
+      expect(events.filter(event => event.taskId === taskId && event.type === 'completion')).toHaveLength(1);
+    });
+
+    it('should leave the task interrupted when it cannot be prepared again', async () => {
+      let preparable = true;
+      const fragile: TaskKind = {
+        kind: 'fragile',
+        toolName: 'start_fragile_task',
+        description: 'Cannot be prepared once its input is gone',
+        resumable: true,
+        schema: () => TaskOptionsSchema,
+        async prepare() {
+          if (!preparable) throw new Error('Input is gone');
+          return { totalSteps: 3, step: async (step) => { await sleep(100); return { message: `Finished step ${step}` }; } };
+        },
+      };
+      const config = ServerConfigSchema.parse({});
+      const other = await connectServer(config, createTaskKinds(config).register(fragile));
+
+      try {
+        await other.callTool('start_fragile_task', { enableSampling: false });
+        const [task] = tasks.list();
+        tasks.interruptActive();
+        preparable = false;
+
+        const result = await other.callTool('resume_interrupted_task', { taskId: task.taskId });
+
+        expect(result.isError).toBe(true);
+        expect(tasks.get(task.taskId)!.state).toBe('interrupted');
+      } finally {
+        await other.close();
+      }
+    });
+
+    it('should check the stored parameters against the kind\'s schema again', async () => {
+      const taskId = await startTask(3);
+      tasks.interruptActive();
+      await sleep(150);
+      // More steps than this server allows
+      tasks.get(taskId)!.config.steps = 500;
+
+      const result = await callTool('resume_interrupted_task', { taskId });
+
+      expect(result.isError).toBe(true);
+      expect(tasks.get(taskId)!.state).toBe('interrupted');
+    });
+  });
+
+  describe('Concurrency Limit and Queue', () => {
+    it('should queue tasks beyond the concurrency limit and report their position', async () => {
+      const first = await startTask(2);
+      const result = await callTool('start_long_running_task', { steps: 1, delayMs: 100, enableSampling: false });
+      const second = tasks.list()[1].taskId;
+
+      expect((result.content[0] as { text: string }).text).toContain('at position 1');
+      const status = await getStatus(second);
+      expect(status.state).toBe('queued');
+      expect(status.queuePosition).toBe(1);
+      expect(status.elapsedMs).toBe(0);
+      expect((await getStatus(first)).queuePosition).toBeUndefined();
+    });
+
+    it('should start the next queued task when a slot frees up', async () => {
+      await startTask(1);
+      const second = await startTask(1);
+
+      await sleep(400);
+
+      expect((await getStatus(second)).state).toBe('completed');
+      const types = events.filter(event => event.taskId === second).map(event => event.type);
+      expect(types.slice(0, 2)).toEqual(['queued', 'start']);
+    });
+
+    it('should return a structured error when the queue is full', async () => {
+      await startTask(5);
+      await startTask(5);
+
+      const result = await callTool('start_long_running_task', { steps: 5, delayMs: 100, enableSampling: false });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toEqual({
+        error: expect.objectContaining({ code: 'queue_full', running: 1, maxConcurrent: 1, queued: 1, maxQueued: 1 }),
+      });
+      expect(tasks.size).toBe(2);
+    });
+
+    it('should remove a cancelled task from the queue', async () => {
+      await startTask(5);
+      const queued = await startTask(5);
+
+      await callTool('cancel_task', { taskId: queued });
+      await sleep(50);
+
+      const status = await getStatus(queued);
+      expect(status.state).toBe('cancelled');
+      expect(status.queuePosition).toBeUndefined();
+      const accepted = await callTool('start_long_running_task', { steps: 1, delayMs: 100, enableSampling: false });
+      expect(accepted.isError).toBeFalsy();
+    });
+  });
+
+  describe('Request Cancellation', () => {
+    it('should cancel an awaited task when its tools/call is cancelled', async () => {
+      const controller = new AbortController();
+      const call = client.request(
+        {
+          method: 'tools/call',
+          params: { name: 'start_long_running_task', arguments: { steps: 10, delayMs: 100, enableSampling: false, mode: 'await' } },
+        },
+        CallToolResultSchema,
+        { signal: controller.signal }
+      );
+      await sleep(150);
+
+      controller.abort('User pressed Ctrl+C');
+      await expect(call).rejects.toBe('User pressed Ctrl+C');
+      await sleep(150);
+
+      const [task] = tasks.list();
+      expect(task.state).toBe('cancelled');
+      expect(task.completedSteps).toBeLessThan(10);
+      expect(events.map(event => event.type)).toContain('cancelled');
+
+      const status = await getStatus(task.taskId);
+      expect(status.state).toBe('cancelled');
+    });
+
+    it('should cancel a queued task when its tools/call is cancelled', async () => {
+      await startTask(10);
+      const controller = new AbortController();
+      const call = client.request(
+        {
+          method: 'tools/call',
+          params: { name: 'start_long_running_task', arguments: { steps: 2, delayMs: 100, enableSampling: false, mode: 'await' } },
+        },
+        CallToolResultSchema,
+        { signal: controller.signal }
+      );
+      await sleep(50);
+
+      controller.abort('No longer needed');
+      await expect(call).rejects.toBe('No longer needed');
+      await sleep(50);
+
+      const queued = tasks.list()[1];
+      expect(queued.state).toBe('cancelled');
+      expect(events.filter(event => event.taskId === queued.taskId).map(event => event.type)).toEqual(['queued', 'cancelled']);
+    });
+  });
+
+  describe('Timeouts and Deadlines', () => {
+    it('should time out a task that runs past its timeoutMs', async () => {
+      const result = await callTool('start_long_running_task', {
+        steps: 10,
+        delayMs: 100,
+        enableSampling: false,
+        mode: 'await',
+        timeoutMs: 250,
+      });
+
+      const [task] = tasks.list();
+      const types = events.map(event => event.type);
+      expect(task.state).toBe('timed_out');
+      expect(task.completedSteps).toBeLessThan(10);
+      expect(result.structuredContent).toMatchObject({ success: false, completedSteps: task.completedSteps });
+      expect((result.structuredContent as { error: string }).error).toContain('timed out after 250ms');
+      expect(types[types.length - 1]).toBe('timed_out');
+      expect(types.filter(type => type === 'step')).toHaveLength(task.completedSteps);
+    });
+
+    it('should time out a queued task at its deadline and free its place', async () => {
+      await startTask(10);
+      const deadline = new Date(Date.now() + 150).toISOString();
+      await callTool('start_long_running_task', { steps: 2, delayMs: 100, enableSampling: false, deadline });
+      await sleep(200);
+
+      const queued = tasks.list()[1];
+      expect(queued.state).toBe('timed_out');
+      expect(events.filter(event => event.taskId === queued.taskId).map(event => event.type)).toEqual(['queued', 'timed_out']);
+      expect((await callTool('list_tasks', { state: 'timed_out' })).structuredContent).toMatchObject({
+        tasks: [expect.objectContaining({ taskId: queued.taskId })],
+      });
+    });
+
+    it('should reject a deadline that has already passed', async () => {
+      const result = await callTool('start_long_running_task', {
+        steps: 2,
+        enableSampling: false,
+        deadline: new Date(Date.now() - 1000).toISOString(),
+      });
+
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toContain('already passed');
+      expect(tasks.size).toBe(0);
+    });
+
+    it('should apply the server-wide default timeout and report the time remaining', async () => {
+      const taskId = await startTask(5);
+
+      const status = await getStatus(taskId);
+      expect(tasks.get(taskId)!.config.timeoutMs).toBe(60000);
+      expect(status.remainingMs).toBeGreaterThan(59000);
+      expect(status.remainingMs).toBeLessThanOrEqual(60000);
+      expect(Date.parse(status.deadline!)).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('Logging', () => {
+    let messages: LoggingMessageNotification['params'][];
+
+    beforeEach(() => {
+      messages = [];
+      client.setNotificationHandler(LoggingMessageNotificationSchema, async (notification) => {
+        messages.push(notification.params);
+      });
+    });
+
+    function loggedEvents(): unknown[] {
+      return messages.map(message => (message.data as { event?: string }).event);
+    }
+
+    it('should advertise the logging capability', () => {
+      expect(client.getServerCapabilities()?.logging).toEqual({});
+    });
+
+    it('should not forward logs until the client sets a level', async () => {
+      await startTask(1);
+      await sleep(250);
+
+      expect(messages).toHaveLength(0);
+    });
+
+    it('should forward task logs at or above the requested level', async () => {
+      await client.setLoggingLevel('info');
+      const taskId = await startTask(2);
+      await sleep(350);
+
+      expect(loggedEvents()).toEqual(['start', 'completion']);
+      expect(messages.every(message => (message.data as { taskId?: string }).taskId === taskId)).toBe(true);
+      expect(messages[0].level).toBe('info');
+    });
+
+    it('should include per-step logs at debug', async () => {
+      await client.setLoggingLevel('debug');
+      await startTask(2);
+      await sleep(350);
+
+      expect(loggedEvents()).toEqual(
+        expect.arrayContaining(['start', 'step', 'completion'])
+      );
+    });
+  });
+
+  describe('Task Kinds', () => {
+    it('should list a tool per task kind, leaving out shell commands and directory hashing by default', async () => {
+      const { tools } = await client.request({ method: 'tools/list', params: {} }, ListToolsResultSchema);
+      const names = tools.map(tool => tool.name);
+
+      expect(names).toEqual(expect.arrayContaining(['start_long_running_task', 'get_task_status']));
+      expect(names).not.toContain('run_shell_command');
+      expect(names).not.toContain('hash_directory');
+      expect((await callTool('run_shell_command', { command: 'echo hi' })).isError).toBe(true);
+      expect((await callTool('hash_directory', { path: '.' })).isError).toBe(true);
+    });
+
+    describe('hash_directory', () => {
+      let root: string;
+      let hashing: Awaited<ReturnType<typeof connectServer>>;
+      let hashEvents: Array<{ type: string }>;
+
+      beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'task-tools-'));
+        hashing = await connectServer(ServerConfigSchema.parse({ allowHashDirectory: true, hashDirectoryRoot: root }));
+        hashEvents = [];
+        hashing.client.fallbackNotificationHandler = async (notification) => {
+          hashEvents.push(notification.params as { type: string });
+        };
+      });
+
+      afterEach(async () => {
+        await hashing.close();
+        await fs.rm(root, { recursive: true, force: true });
+      });
+
+      it('should run a hash_directory task through the task plumbing', async () => {
+        await fs.mkdir(path.join(root, 'files'));
+        await fs.writeFile(path.join(root, 'files', 'a.txt'), 'alpha');
+        await fs.writeFile(path.join(root, 'files', 'b.txt'), 'bravo');
+
+        const result = await hashing.callTool('hash_directory', { path: 'files', mode: 'await' });
+        const [task] = tasks.list();
+        const output = result.structuredContent as unknown as ToolExecutionResult;
+
+        expect(task.state).toBe('completed');
+        expect(output).toMatchObject({ success: true, totalSteps: 3, completedSteps: 3, samplingRequests: 0 });
+        expect(output.output).toMatchObject({ files: 2, bytes: 10, digest: expect.stringMatching(/^[0-9a-f]{64}$/) });
+        expect((await getStatus(task.taskId)).kind).toBe('hash_directory');
+        expect(hashEvents.map(event => event.type)).toEqual(['start', 'step', 'step', 'step', 'completion']);
+      });
+
+      it('should report a task kind that cannot be prepared', async () => {
+        const missing = await hashing.callTool('hash_directory', { path: 'does-not-exist' });
+        const outside = await hashing.callTool('hash_directory', { path: '/' });
+
+        expect(missing.isError).toBe(true);
+        expect((missing.content[0] as { text: string }).text).toContain('is not a directory');
+        expect((outside.content[0] as { text: string }).text).toContain('/ is outside the directories this server hashes');
+        expect(tasks.size).toBe(0);
+      });
+    });
+
+    it('should stream shell command output when shell commands are allowed', async () => {
+      const shell = await connectServer(ServerConfigSchema.parse({ allowShellCommands: true }));
+      const messages: string[] = [];
+      shell.client.fallbackNotificationHandler = async (notification) => {
+        const params = notification.params as { type: string; data: { message: string } };
+        if (params.type === 'step') {
+          messages.push(params.data.message);
+        }
+      };
+
+      try {
+        const result = await shell.callTool('run_shell_command', { command: 'echo one; echo two', mode: 'await' });
+
+        expect(result.structuredContent).toMatchObject({ success: true, completedSteps: 3, output: { exitCode: 0, lines: 2 } });
+        expect(messages).toEqual(['one', 'two', 'Command exited with code 0']);
+      } finally {
+        await shell.close();
+      }
+    });
+  });
+
+  describe('Retries', () => {
+    // Two steps; step 2 fails with each of the given errors in turn before succeeding
+    function flakyTaskKind(errors: Error[]): TaskKind {
+      return {
+        kind: 'flaky',
+        toolName: 'start_flaky_task',
+        description: 'Fails its second step a few times',
+        resumable: false,
+        schema: () => TaskOptionsSchema,
+        async prepare() {
+          const remaining = [...errors];
+          return {
+            totalSteps: 2,
+            async step(step) {
+              const error = step === 2 ? remaining.shift() : undefined;
+              if (error) throw error;
+              return { message: `Finished step ${step}` };
+            },
+          };
+        },
+      };
+    }
+
+    async function runFlakyTask(errors: Error[], retry?: Record<string, unknown>) {
+      const config = ServerConfigSchema.parse({});
+      const flaky = await connectServer(config, createTaskKinds(config).register(flakyTaskKind(errors)));
+      const retrying: Array<{ message: string; attempt: number; maxAttempts: number; retryDelayMs: number }> = [];
+      flaky.client.fallbackNotificationHandler = async (notification) => {
+        const params = notification.params as { type: string; data: (typeof retrying)[number] };
+        if (params.type === 'retrying') {
+          retrying.push(params.data);
+        }
+      };
+
+      try {
+        const result = await flaky.callTool('start_flaky_task', { mode: 'await', enableSampling: false, retry });
+        return { result: result.structuredContent as unknown as ToolExecutionResult, retrying };
+      } finally {
+        await flaky.close();
+      }
+    }
+
+    it('should retry a failing step and complete the task', async () => {
+      const { result, retrying } = await runFlakyTask(
+        [new Error('first'), new Error('second')],
+        { maxAttempts: 3, backoff: 'fixed', delayMs: 20, jitter: false }
+      );
+
+      expect(result).toMatchObject({ success: true, completedSteps: 2 });
+      expect(retrying).toEqual([
+        expect.objectContaining({ attempt: 1, maxAttempts: 3, retryDelayMs: 20, message: 'Step 2 failed on attempt 1 of 3, retrying in 20ms: first' }),
+        expect.objectContaining({ attempt: 2, maxAttempts: 3, retryDelayMs: 20 }),
+      ]);
+    });
+
+    it('should list every attempt once the step runs out of attempts', async () => {
+      const { result, retrying } = await runFlakyTask(
+        [new Error('first'), new Error('second'), new Error('third')],
+        { maxAttempts: 2, delayMs: 10 }
+      );
+
+      expect(result).toMatchObject({ success: false, completedSteps: 1 });
+      expect(result.error).toBe('Task failed: Step 2 failed after 2 attempts (attempt 1: first; attempt 2: second)');
+      expect(retrying).toHaveLength(1);
+    });
+
+    it('should not retry errors the policy or the task kind rules out', async () => {
+      const unmatched = await runFlakyTask([new Error('permission denied')], { maxAttempts: 3, delayMs: 10, retryOn: ['ECONNRESET'] });
+      expect(unmatched.result.error).toBe('Task failed: permission denied');
+      expect(unmatched.retrying).toHaveLength(0);
+
+      const nonRetryable = await runFlakyTask([new NonRetryableError('gone for good')], { maxAttempts: 3, delayMs: 10 });
+      expect(nonRetryable.result.error).toBe('Task failed: gone for good');
+      expect(nonRetryable.retrying).toHaveLength(0);
+    });
+
+    it('should fail straight away without a retry policy', async () => {
+      const { result, retrying } = await runFlakyTask([new Error('boom')]);
+
+      expect(result.error).toBe('Task failed: boom');
+      expect(retrying).toHaveLength(0);
+    });
+  });
+
+  describe('Fault Injection', () => {
+    function runDemoTask(faults: Record<string, unknown>, options: Record<string, unknown> = {}) {
+      return callTool('start_long_running_task', { steps: 3, delayMs: 100, enableSampling: false, mode: 'await', faults, ...options });
+    }
+
+    it('should fail the task at the given step', async () => {
+      const result = await runDemoTask({ failAtStep: 2 });
+
+      expect(result.structuredContent).toMatchObject({ success: false, completedSteps: 1, error: 'Task failed: Injected failure at step 2' });
+      expect(tasks.list()[0].state).toBe('failed');
+      expect(events.map(event => event.type)).toEqual(['start', 'step', 'error']);
+    });
+
+    it('should let a retry policy recover from random failures', async () => {
+      const result = await runDemoTask(
+        { failureRate: 0.5, seed: 42, delayRangeMs: { min: 0, max: 20 } },
+        { steps: 5, retry: { maxAttempts: 10, delayMs: 0, jitter: false } }
+      );
+
+      expect(result.structuredContent).toMatchObject({ success: true, completedSteps: 5 });
+      expect(events.some(event => event.type === 'retrying')).toBe(true);
+    });
+
+    it('should hang a step until the task times out', async () => {
+      const result = await runDemoTask({ hangAtStep: 2 }, { timeoutMs: 300 });
+
+      expect(result.structuredContent).toMatchObject({ success: false, completedSteps: 1 });
+      expect(tasks.list()[0].state).toBe('timed_out');
+    });
+
+    it('should drop step notifications without affecting the task', async () => {
+      const result = await runDemoTask({ dropNotificationRate: 1 });
+
+      expect(result.structuredContent).toMatchObject({ success: true, completedSteps: 3 });
+      expect(events.map(event => event.type)).toEqual(['start', 'completion']);
+    });
+
+    it('should reject invalid fault settings', async () => {
+      const result = await runDemoTask({ delayRangeMs: { min: 0, max: 501 } });
+
+      expect(result.isError).toBe(true);
+      expect(tasks.size).toBe(0);
+    });
+  });
+
+  describe('Steering', () => {
+    // Connect a client that answers each sampling request with the next reply
+    async function connectSteeringClient(replies: string[], config: ServerConfig = ServerConfigSchema.parse({})) {
+      const steered = await connectServer(config, createTaskKinds(config), { sampling: {} });
+      const steeredEvents: Array<{ type: string; data: { step: number; decision?: Record<string, unknown> } }> = [];
+      steered.client.setRequestHandler(CreateMessageRequestSchema, async () => ({
+        model: 'test-model',
+        role: 'assistant',
+        content: { type: 'text', text: replies.shift() ?? 'Looking good' },
+      }));
+      steered.client.fallbackNotificationHandler = async (notification) => {
+        steeredEvents.push(notification.params as (typeof steeredEvents)[number]);
+      };
+      return { ...steered, events: steeredEvents };
+    }
+
+    async function runSteeredTask(replies: string[], args: Record<string, unknown> = {}) {
+      const steered = await connectSteeringClient(replies);
+      try {
+        const result = await steered.callTool('start_long_running_task', { steps: 5, delayMs: 100, mode: 'await', ...args });
+        return { result: result.structuredContent as unknown as ToolExecutionResult, events: steered.events, task: tasks.list()[0] };
+      } finally {
+        await steered.close();
+      }
+    }
+
+    it('should skip ahead and record the decision', async () => {
+      const { result, events: taskEvents, task } = await runSteeredTask(['{"action":"skip","steps":2}']);
+
+      expect(result).toMatchObject({ success: true, completedSteps: 5 });
+      expect(taskEvents.filter(event => event.type === 'step').map(event => event.data.step)).toEqual([1, 4, 5]);
+      expect(taskEvents.find(event => event.type === 'steered')?.data.decision).toMatchObject({ action: 'skip', steps: 2, applied: true });
+      expect((await getStatus(task.taskId)).decisions).toEqual([
+        expect.objectContaining({ step: 1, action: 'skip', steps: 2, source: 'structured', applied: true }),
+      ]);
+    });
+
+    it('should change the delay of the remaining steps', async () => {
+      const { result, task } = await runSteeredTask(['{"action":"set_delay","delayMs":100}'], { steps: 3, delayMs: 400 });
+
+      expect(result.success).toBe(true);
+      // One 400ms step, then two at the new delay
+      expect(result.executionTimeMs).toBeLessThan(1000);
+      expect(task.config.delayMs).toBe(100);
+    });
+
+    it('should hold a new delay to the server\'s maxDelayMs', async () => {
+      const steered = await connectSteeringClient(['{"action":"set_delay","delayMs":5000}'], ServerConfigSchema.parse({ maxDelayMs: 1000 }));
+      try {
+        const result = await steered.callTool('start_long_running_task', { steps: 2, delayMs: 100, mode: 'await' });
+        const [task] = tasks.list();
+
+        expect((result.structuredContent as unknown as ToolExecutionResult).success).toBe(true);
+        expect(task.decisions).toEqual([]);
+        expect(task.config.delayMs).toBe(100);
+      } finally {
+        await steered.close();
+      }
+    });
+
+    it('should cancel the task on a keyword reply when keywords are enabled', async () => {
+      const { result, task } = await runSteeredTask(['Continue', 'Stop, that is enough'], { steering: 'keywords' });
+
+      expect(task.state).toBe('cancelled');
+      expect(result).toMatchObject({ success: false, completedSteps: 2 });
+      expect(result.error).toBe('Task was cancelled at step 2: Cancelled by sampling response');
+      expect(task.decisions.map(decision => decision.action)).toEqual(['continue', 'cancel']);
+    });
+
+    it('should pause the task until it is resumed', async () => {
+      const steered = await connectSteeringClient(['{"action":"pause"}']);
+      try {
+        await steered.callTool('start_long_running_task', { steps: 3, delayMs: 100 });
+        const [task] = tasks.list();
+        await sleep(300);
+        expect(task.state).toBe('paused');
+        expect(task.completedSteps).toBe(1);
+
+        await steered.callTool('resume_task', { taskId: task.taskId });
+        await sleep(400);
+        expect(task.state).toBe('completed');
+        expect(steered.events.map(event => event.type)).toEqual(expect.arrayContaining(['steered', 'paused', 'resumed']));
+      } finally {
+        await steered.close();
+      }
+    });
+
+    it('should record directives the task cannot act on', async () => {
+      const { result, events: taskEvents, task } = await runSteeredTask(['Looking good', '{"action":"skip"}'], { steps: 2 });
+
+      expect(result.success).toBe(true);
+      expect(task.decisions).toEqual([expect.objectContaining({ action: 'skip', applied: false, note: 'no steps are left' })]);
+      expect(taskEvents.find(event => event.type === 'steered')).toMatchObject({ level: 'warning' });
+    });
+
+    it('should treat replies as plain feedback when steering is off', async () => {
+      const { result, task } = await runSteeredTask(['{"action":"cancel"}'], { steps: 2, steering: 'off' });
+
+      expect(result.success).toBe(true);
+      expect(task.decisions).toEqual([]);
+    });
+  });
+
+  describe('Sampling Budgets', () => {
+    async function runBudgetedTask(args: Record<string, unknown>) {
+      const config = ServerConfigSchema.parse({});
+      const sampled = await connectServer(config, createTaskKinds(config), { sampling: {} });
+      const budgetEvents: Array<{ type: string; level: string; data: { step: number; samplingUsage?: Record<string, unknown> } }> = [];
+      sampled.client.setRequestHandler(CreateMessageRequestSchema, async () => ({
+        model: 'test-model',
+        role: 'assistant',
+        content: { type: 'text', text: 'Looking good' },
+      }));
+      sampled.client.fallbackNotificationHandler = async (notification) => {
+        const event = notification.params as (typeof budgetEvents)[number];
+        if (event.type === 'sampling_budget_exhausted') budgetEvents.push(event);
+      };
+      try {
+        const result = await sampled.callTool('start_long_running_task', { steps: 5, delayMs: 100, mode: 'await', ...args });
+        return { result: result.structuredContent as unknown as ToolExecutionResult, events: budgetEvents, task: tasks.list()[0] };
+      } finally {
+        await sampled.close();
+      }
+    }
+
+    it('should stop sampling once the request budget is used up', async () => {
+      const { result, events: budgetEvents, task } = await runBudgetedTask({ samplingBudget: { maxRequests: 2 } });
+
+      expect(result).toMatchObject({ success: true, completedSteps: 5, samplingRequests: 2 });
+      expect(result.samplingUsage).toEqual({ requests: 2, tokens: 200, skipped: 3, exhausted: 'Sampling budget of 2 requests used up' });
+      expect(budgetEvents).toEqual([
+        expect.objectContaining({ level: 'warning', data: expect.objectContaining({ step: 3, samplingUsage: expect.objectContaining({ requests: 2 }) }) }),
+      ]);
+      expect((await getStatus(task.taskId)).samplingUsage).toMatchObject({ requests: 2, skipped: 3 });
+    });
+
+    it('should count each request as its maxTokens against the token budget', async () => {
+      const { result } = await runBudgetedTask({ samplingBudget: { maxTokens: 350 } });
+
+      expect(result.samplingUsage).toMatchObject({ requests: 3, tokens: 300, skipped: 2, exhausted: 'Sampling budget of 350 tokens used up' });
+    });
+
+    it('should skip sampling points that come sooner than the minimum interval', async () => {
+      const { result, events: budgetEvents } = await runBudgetedTask({ steps: 4, samplingBudget: { minIntervalMs: 250 } });
+
+      expect(result.samplingUsage).toEqual({ requests: 2, tokens: 200, skipped: 2 });
+      expect(budgetEvents).toEqual([]);
+    });
+  });
+
+  describe('Progress', () => {
+    it('should only report progress while the call that started the task is open', async () => {
+      const errors: Error[] = [];
+      client.onerror = error => errors.push(error);
+      const background: number[] = [];
+      const awaited: number[] = [];
+
+      await client.request(
+        { method: 'tools/call', params: { name: 'start_long_running_task', arguments: { steps: 2, delayMs: 100, enableSampling: false } } },
+        CallToolResultSchema,
+        { onprogress: ({ progress }) => background.push(progress) }
+      );
+      await client.request(
+        { method: 'tools/call', params: { name: 'start_long_running_task', arguments: { steps: 2, delayMs: 100, enableSampling: false, mode: 'await' } } },
+        CallToolResultSchema,
+        { onprogress: ({ progress }) => awaited.push(progress) }
+      );
+      await sleep(100);
+
+      // The background task reports its steps through task events only
+      expect(background).toEqual([0]);
+      expect(awaited).toEqual([0, 1, 2]);
+      expect(events.filter(event => event.type === 'step')).toHaveLength(4);
+      expect(errors).toEqual([]);
+    });
+  });
+
+  describe('Event Replay', () => {
+    it('should number every notification of a task and replay those after a sequence number', async () => {
+      const progress: Array<{ progress: number; _meta?: Record<string, unknown> }> = [];
+      client.setNotificationHandler(ProgressNotificationSchema, async (notification) => {
+        progress.push(notification.params);
+      });
+
+      await client.request({
+        method: 'tools/call',
+        params: {
+          name: 'start_long_running_task',
+          arguments: { steps: 2, delayMs: 100, enableSampling: false, mode: 'await' },
+          _meta: { progressToken: 'replay' },
+        },
+      }, CallToolResultSchema);
+      const [task] = tasks.list();
+
+      // progress 0, start, progress 1, step 1, progress 2, step 2, completion
+      expect(events.map(event => (event as { seq?: number }).seq)).toEqual([2, 4, 6, 7]);
+      expect(progress.map(params => params._meta?.seq)).toEqual([1, 3, 5]);
+      expect(progress[0]._meta).toEqual({ taskId: task.taskId, seq: 1 });
+
+      const replay = (await callTool('get_task_events', { taskId: task.taskId, afterSeq: 4 })).structuredContent as unknown as TaskEventsResult;
+      expect(replay).toMatchObject({ taskId: task.taskId, state: 'completed', lastSeq: 7, missed: 0 });
+      expect(replay.events.map(event => [event.seq, event.type])).toEqual([[5, 'progress'], [6, 'step'], [7, 'completion']]);
+      expect(replay.events[0]).toMatchObject({ method: 'notifications/progress', data: { progress: 2, total: 2 } });
+    });
+
+    it('should report events dropped beyond the history limit, and unknown tasks', async () => {
+      const limited = new TaskRegistry(1000, undefined, undefined, 2);
+      const limitedServer = createNotifyServer(limited, new TaskQueue(), ServerConfigSchema.parse({}), createLogger({ name: 'limited-server', enabled: false }));
+      const limitedClient = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([limitedClient.connect(clientTransport), limitedServer.connect(serverTransport)]);
+      const callLimited = (name: string, args: Record<string, unknown>) => limitedClient.request(
+        { method: 'tools/call', params: { name, arguments: args } },
+        CallToolResultSchema
+      );
+
+      try {
+        await callLimited('start_long_running_task', { steps: 2, delayMs: 100, enableSampling: false, mode: 'await' });
+        const [task] = limited.list();
+
+        const replay = await callLimited('get_task_events', { taskId: task.taskId, afterSeq: 1 });
+        expect(replay.structuredContent).toMatchObject({ lastSeq: 4, missed: 1, events: [{ seq: 3 }, { seq: 4 }] });
+        expect((await callTool('get_task_events', { taskId: 'missing' })).isError).toBe(true);
+      } finally {
+        limited.clear();
+        await limitedClient.close();
+        await limitedServer.close();
+      }
+    });
+  });
+
+  describe('Checkpoints', () => {
+    // Connect a client that answers each elicitation request with the next answer
+    async function runCheckpointedTask(answers: ElicitResult[], args: Record<string, unknown>) {
+      const config = ServerConfigSchema.parse({});
+      const confirming = await connectServer(config, createTaskKinds(config), { elicitation: {} });
+      const requests: ElicitRequest['params'][] = [];
+      const inputEvents: Array<{ type: string; data: { checkpoint?: Record<string, unknown> } }> = [];
+      confirming.client.setRequestHandler(ElicitRequestSchema, async (request) => {
+        requests.push(request.params);
+        return answers.shift() ?? { action: 'accept', content: { confirm: true } };
+      });
+      confirming.client.fallbackNotificationHandler = async (notification) => {
+        const event = notification.params as (typeof inputEvents)[number];
+        if (event.type.startsWith('input_')) inputEvents.push(event);
+      };
+      try {
+        const result = await confirming.callTool('start_long_running_task', { steps: 3, delayMs: 100, mode: 'await', ...args });
+        return { result, requests, events: inputEvents, task: tasks.list()[0] };
+      } finally {
+        await confirming.close();
+      }
+    }
+
+    it('should continue once the user confirms', async () => {
+      const { result, requests, events: inputEvents } = await runCheckpointedTask([], { checkpoints: [{ afterStep: 1 }, { afterStep: 2 }] });
+
+      expect(result.structuredContent).toMatchObject({ success: true, completedSteps: 3 });
+      expect(requests).toHaveLength(2);
+      expect(requests[0].message).toContain('has completed step 1 of 3');
+      expect(inputEvents.map(event => event.type)).toEqual(['input_requested', 'input_received', 'input_requested', 'input_received']);
+      expect(inputEvents[1].data.checkpoint).toMatchObject({ afterStep: 1, action: 'accept' });
+    });
+
+    it('should cancel the task when the user declines', async () => {
+      const { result, task } = await runCheckpointedTask([{ action: 'decline' }], { checkpoints: [{ afterStep: 2, message: 'Deploy?' }] });
+
+      expect(task.state).toBe('cancelled');
+      expect(result.structuredContent).toMatchObject({ success: false, completedSteps: 2 });
+      expect((result.structuredContent as unknown as ToolExecutionResult).error).toContain('Declined at the checkpoint after step 2');
+    });
+
+    it('should fail the task when the answer does not fit the form', async () => {
+      const { result, task } = await runCheckpointedTask([{ action: 'accept', content: { approver: 42 } }], {
+        checkpoints: [{
+          afterStep: 1,
+          requestedSchema: { type: 'object', properties: { approver: { type: 'string' } }, required: ['approver'] },
+        }],
+      });
+
+      expect(task.state).toBe('failed');
+      expect((result.structuredContent as unknown as ToolExecutionResult).error).toContain('Checkpoint after step 1 failed');
+    });
+
+    it('should refuse checkpoints from a client without elicitation', async () => {
+      const result = await callTool('start_long_running_task', { steps: 3, delayMs: 100, checkpoints: [{ afterStep: 1 }] });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]).toMatchObject({ text: 'Checkpoints need a client that supports elicitation' });
+      expect(tasks.list()).toHaveLength(0);
+    });
+  });
+
+  describe('Server Config', () => {
+    it('should report the configured name and version', () => {
+      expect(client.getServerVersion()).toEqual({ name: 'configured-server', version: '2.0.0' });
+    });
+
+    it('should advertise and enforce the configured step and delay limits', async () => {
+      const { tools } = await client.request({ method: 'tools/list', params: {} }, ListToolsResultSchema);
+      const startTool = tools.find(tool => tool.name === 'start_long_running_task')!;
+      const properties = startTool.inputSchema.properties as Record<string, { maximum?: number; default?: number }>;
+
+      expect(properties.steps.maximum).toBe(20);
+      expect(properties.delayMs.maximum).toBe(500);
+      expect(properties.delayMs.default).toBe(500);
+
+      const result = await callTool('start_long_running_task', { steps: 21, delayMs: 100, enableSampling: false });
+      expect(result.isError).toBe(true);
+      expect(tasks.size).toBe(0);
+    });
+  });
+});
@@ -3,7 +3,9 @@ import {
   ServerConfigSchema,
   ClientConfigSchema,
   CliArgsSchema,
-  ExecutionParamsSchema
+  ExecutionParamsSchema,
+  MAX_SAMPLING_ANSWER_MS,
+  SamplingApprovalSchema
 } from '../../shared/config';
 
 describe('Configuration Schemas', () => {
@@ -19,7 +21,7 @@ describe('Configuration Schemas', () => {
       const result = ServerConfigSchema.safeParse(validConfig);
       expect(result.success).toBe(true);
       if (result.success) {
-        expect(result.data).toEqual(validConfig);
+        expect(result.data).toMatchObject(validConfig);
       }
     });
     
@@ -33,8 +35,20 @@ describe('Configuration Schemas', () => {
         expect(result.data.version).toBe('1.0.0');
         expect(result.data.enableLogging).toBe(true);
         expect(result.data.logLevel).toBe('info');
+        expect(result.data.transport).toBe('stdio');
+        expect(result.data.port).toBe(3000);
+        expect(result.data.maxSteps).toBe(1000);
+        expect(result.data.maxDelayMs).toBe(10000);
+        expect(result.data.maxConcurrentTasks).toBe(10);
+        expect(result.data.taskStoreFile).toBeUndefined();
       }
     });
+
+    it('should reject limits outside their bounds', () => {
+      expect(ServerConfigSchema.safeParse({ maxConcurrentTasks: 0 }).success).toBe(false);
+      expect(ServerConfigSchema.safeParse({ maxDelayMs: 50 }).success).toBe(false);
+      expect(ServerConfigSchema.safeParse({ port: 70000 }).success).toBe(false);
+    });
     
     it('should reject invalid log levels', () => {
       const invalidConfig = {
@@ -162,6 +176,15 @@ describe('Configuration Schemas', () => {
       const result = CliArgsSchema.safeParse(invalidArgs);
       expect(result.success).toBe(false);
     });
+
+    it('should keep sampling timeouts below the server\'s sampling request timeout', () => {
+      const args = { serverPath: 'src/server/index.ts', toolName: 'start_long_running_task' };
+
+      expect(CliArgsSchema.safeParse({ ...args, samplingApprovalTimeout: MAX_SAMPLING_ANSWER_MS }).success).toBe(true);
+      expect(CliArgsSchema.safeParse({ ...args, samplingApprovalTimeout: MAX_SAMPLING_ANSWER_MS + 1 }).success).toBe(false);
+      expect(CliArgsSchema.safeParse({ ...args, samplingTimeout: 60000 }).success).toBe(false);
+      expect(SamplingApprovalSchema.safeParse({ timeoutMs: 60000 }).success).toBe(false);
+    });
   });
   
   describe('ExecutionParamsSchema', () => {
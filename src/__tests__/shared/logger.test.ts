@@ -0,0 +1,161 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  createLogger,
+  createOutputSink,
+  formatJson,
+  formatPretty,
+  isLevelEnabled,
+  Logger,
+  LogRecord,
+  toMcpLogLevel
+} from '../../shared/logger';
+
+const record: LogRecord = {
+  timestamp: '2024-01-01T00:00:00.000Z',
+  level: 'warn',
+  logger: 'test',
+  message: 'Step failed',
+  context: { taskId: 'task-1', step: 3 }
+};
+
+describe('Logger', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Levels', () => {
+    it('should compare levels by severity', () => {
+      expect(isLevelEnabled('error', 'warn')).toBe(true);
+      expect(isLevelEnabled('warn', 'warn')).toBe(true);
+      expect(isLevelEnabled('info', 'warn')).toBe(false);
+    });
+
+    it('should map to MCP logging levels', () => {
+      expect(toMcpLogLevel('warn')).toBe('warning');
+      expect(toMcpLogLevel('debug')).toBe('debug');
+    });
+  });
+
+  describe('Formatting', () => {
+    it('should render JSON lines with context at the top level', () => {
+      expect(JSON.parse(formatJson(record))).toEqual({
+        timestamp: '2024-01-01T00:00:00.000Z',
+        level: 'warn',
+        logger: 'test',
+        message: 'Step failed',
+        taskId: 'task-1',
+        step: 3
+      });
+    });
+
+    it('should render pretty lines with key=value context', () => {
+      expect(formatPretty(record)).toBe('2024-01-01T00:00:00.000Z WARN  [test] Step failed taskId=task-1 step=3');
+    });
+
+    it('should serialize errors', () => {
+      const withError = { ...record, context: { error: new Error('boom') } };
+
+      expect(formatPretty(withError)).toContain('error=boom');
+      expect(JSON.parse(formatJson(withError)).error).toMatchObject({ name: 'Error', message: 'boom' });
+    });
+  });
+
+  describe('Sinks', () => {
+    it('should write records at or above the level to stderr', () => {
+      const write = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+      const logger = createLogger({ name: 'test', level: 'info', format: 'json' });
+
+      logger.debug('hidden');
+      logger.info('shown', { taskId: 'task-1' });
+
+      expect(write).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(String(write.mock.calls[0][0]))).toMatchObject({ level: 'info', message: 'shown', taskId: 'task-1' });
+    });
+
+    it('should append to a file when one is configured', async () => {
+      const dir = mkdtempSync(path.join(tmpdir(), 'mcp-notify-logger-'));
+      const file = path.join(dir, 'server.log');
+      try {
+        const sink = createOutputSink({ level: 'debug', format: 'pretty', file });
+        sink.write(record);
+        sink.write({ ...record, message: 'Second line' });
+        await sink.close!();
+
+        const lines = readFileSync(file, 'utf8').trim().split('\n');
+        expect(lines).toHaveLength(2);
+        expect(lines[1]).toContain('Second line');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should fall back to stderr when the file cannot be opened', async () => {
+      const write = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+      const file = path.join(tmpdir(), 'mcp-notify-missing-dir', 'server.log');
+
+      const sink = createOutputSink({ level: 'debug', format: 'pretty', file });
+      sink.write(record);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      sink.write({ ...record, message: 'Second line' });
+      await sink.close!();
+
+      expect(write.mock.calls.map(call => String(call[0]))).toEqual([
+        expect.stringMatching(/^Cannot write log file .*server\.log: ENOENT.*logging to stderr instead/),
+        expect.stringContaining('Step failed'),
+        expect.stringContaining('Second line'),
+      ]);
+    });
+
+    it('should not write anything when disabled', () => {
+      const write = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+      createLogger({ name: 'test', enabled: false }).error('dropped');
+
+      expect(write).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Child loggers', () => {
+    it('should merge context and propagate records to the parent', () => {
+      const root = new Logger('test');
+      const rootRecords: LogRecord[] = [];
+      root.addSink({ write: r => rootRecords.push(r) });
+
+      const child = root.child({ taskId: 'task-1' });
+      const childRecords: LogRecord[] = [];
+      child.addSink({ write: r => childRecords.push(r) });
+
+      child.info('Task started', { step: 0 });
+      root.info('Server started');
+
+      expect(rootRecords.map(r => r.message)).toEqual(['Task started', 'Server started']);
+      expect(rootRecords[0].context).toEqual({ taskId: 'task-1', step: 0 });
+      expect(childRecords.map(r => r.message)).toEqual(['Task started']);
+    });
+
+    it('should stop writing to a removed sink', () => {
+      const logger = new Logger('test');
+      const records: LogRecord[] = [];
+      const remove = logger.addSink({ write: r => records.push(r) });
+
+      logger.info('first');
+      remove();
+      logger.info('second');
+
+      expect(records).toHaveLength(1);
+    });
+
+    it('should keep logging when a sink throws', () => {
+      const logger = new Logger('test');
+      const records: LogRecord[] = [];
+      logger.addSink({ write: () => { throw new Error('broken'); } });
+      logger.addSink({ write: r => records.push(r) });
+
+      expect(() => logger.error('still logged')).not.toThrow();
+      expect(records).toHaveLength(1);
+    });
+  });
+});
@@ -5,29 +5,103 @@
 
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequest,
+  CallToolResult,
   CallToolResultSchema,
   ListToolsRequest,
   ListToolsResultSchema,
+  CreateMessageRequest,
   CreateMessageRequestSchema,
+  CreateMessageResult,
+  ElicitRequest,
+  ElicitRequestSchema,
+  ElicitResult,
+  ErrorCode,
+  LoggingLevel,
+  McpError,
+  LoggingMessageNotification,
+  LoggingMessageNotificationSchema,
+  Progress,
 } from '@modelcontextprotocol/sdk/types.js';
-import { ExecutionParams } from '../shared/config';
-import { CLIENT_INFO, TOOL_NAMES } from '../shared/constants';
+import { setTimeout as sleep } from 'node:timers/promises';
+import {
+  ElicitationPolicy,
+  ExecutionParams,
+  MAX_SAMPLING_ANSWER_MS,
+  ReconnectPolicy,
+  ReconnectPolicySchema,
+  SamplingApproval,
+  SamplingApprovalSchema,
+  SamplingRateLimit,
+  SamplingRateLimitSchema,
+} from '../shared/config';
+import {
+  CLIENT_INFO,
+  DEFAULT_CONFIG,
+  NOTIFICATION_METHODS,
+  SAMPLING_RATE_LIMITED_ERROR,
+  SAMPLING_REJECTED_ERROR,
+  TOOL_NAMES,
+} from '../shared/constants';
+import { createLogger, Logger } from '../shared/logger';
+import { TaskEventParams, TaskEventParamsSchema, TaskEventsResult, TaskHistoryEntry, TaskStatus, ToolExecutionResult } from '../shared/types';
+import {
+  EventStream,
+  FINAL_TASK_EVENTS,
+  FINAL_TASK_STATES,
+  Listener,
+  McpNotifyClientEvents,
+  ProgressEvent,
+  TaskNotificationEvent,
+  TypedEventEmitter,
+} from './events';
+import { reconnectDelay } from './reconnect';
+import { MockSamplingProvider, RateLimitUsage, SamplingProvider, SamplingRateLimiter } from './sampling';
 import { Display } from './ui/display';
+import { subscribeDisplay } from './ui/display-subscriber';
+import { defaultFormContent, promptForInput, reviewSamplingReply, SamplingReview } from './ui/prompt';
 
 export class McpNotifyClient {
   private client: Client;
-  private transport: StdioClientTransport | null = null;
+  private transport: Transport | null = null;
+  // Creates a fresh transport to the server, for reconnecting
+  private createTransport: (() => Transport) | null = null;
+  private reconnectPolicy: ReconnectPolicy = ReconnectPolicySchema.parse({});
+  private reconnecting: Promise<boolean> | null = null;
+  // Aborts the wait before the next reconnect attempt
+  private reconnectAbort: AbortController | null = null;
+  private disconnecting = false;
+  private serverLogLevel: LoggingLevel | undefined;
   private display: Display;
+  private events: TypedEventEmitter<McpNotifyClientEvents>;
+  // Stops the display from rendering events
+  private stopDisplay: (() => void) | null;
   private notificationCount: Record<string, number> = {};
   private samplingCount = 0;
+  private elicitationCount = 0;
   private samplingResponses: string[] = [];
+  private elicitationPolicy: ElicitationPolicy = 'prompt';
+  private samplingProvider: SamplingProvider = new MockSamplingProvider();
+  private samplingApproval: SamplingApproval = SamplingApprovalSchema.parse({});
+  private samplingLimiter = new SamplingRateLimiter(SamplingRateLimitSchema.parse({}));
+  // Sequence number of the last notification seen for each task
+  private lastSeqs = new Map<string, number>();
+  // Aborts the tool call in flight, if any
+  private activeCall: AbortController | null = null;
+  private log: Logger;
 
-  constructor(enableColors = true) {
+  constructor(enableColors = true, logger: Logger = createLogger({ name: CLIENT_INFO.NAME, level: 'warn' })) {
     this.display = new Display(enableColors);
+    this.log = logger;
+    this.events = new TypedEventEmitter<McpNotifyClientEvents>((event, error) => {
+      this.log.warn(`Listener for ${String(event)} events failed`, { error });
+    });
+    this.stopDisplay = subscribeDisplay(this.display, this.events);
 
-    // Initialize MCP client with sampling capability - following SDK patterns
+    // Initialize MCP client with sampling and elicitation capabilities - following SDK patterns
     this.client = new Client(
       {
         name: CLIENT_INFO.NAME,
@@ -36,6 +110,7 @@ export class McpNotifyClient {
       {
         capabilities: {
           sampling: {}, // Enable sampling capability
+          elicitation: {}, // Answer checkpoint confirmations
         },
       }
     );
@@ -47,6 +122,11 @@ export class McpNotifyClient {
    * Set up client event handlers following SDK patterns
    */
   private setupEventHandlers(): void {
+    // Server log lines, sent once we ask for them with setServerLogLevel
+    this.client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      this.handleLogMessage(notification);
+    });
+
     // Handle custom notifications through fallback handler
     this.client.fallbackNotificationHandler = async (notification) => {
       // Handle our custom notifications
@@ -54,137 +134,523 @@ export class McpNotifyClient {
         this.handleCustomNotification(notification);
       } else {
         // Log unhandled notifications for debugging (but don't show as errors)
-        console.log(`[DEBUG] Unhandled notification method: ${notification.method}`);
+        this.log.debug(`Unhandled notification method: ${notification.method}`);
       }
     };
 
     // Handle sampling requests from server - proper MCP sampling pattern
-    this.client.setRequestHandler(CreateMessageRequestSchema, async (request) => {
-      return await this.handleSamplingRequest(request);
+    this.client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+      return await this.handleSamplingRequest(request, extra.signal);
+    });
+
+    // Handle elicitation requests (checkpoint confirmations) from server
+    this.client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
+      return await this.handleElicitationRequest(request, extra.signal);
     });
 
-    // Handle client errors with proper filtering
+    // Handle client errors
     this.client.onerror = (error) => {
-      // Filter out schema validation errors for our custom notifications
-      const errorMessage = error.message || String(error);
-      if (errorMessage.includes('progressToken') || errorMessage.includes('progress') || errorMessage.includes('notification handler')) {
-        // These are schema validation errors we can safely ignore
-        // Our fallback handler will handle these notifications anyway
-        return;
-      }
-      
       this.display.showError('MCP Client Error', error);
     };
+
+    // The transport closed without us asking: the server exited or the connection dropped
+    this.client.onclose = () => {
+      this.handleConnectionLost();
+    };
+  }
+
+  /**
+   * Handle notifications/progress for the tool call in flight, routed to us by the SDK
+   */
+  private handleProgress({ progress, total, message, _meta }: Progress): void {
+    const sequence = _meta as { taskId?: string; seq?: number } | undefined;
+    if (this.acceptSequence(sequence?.taskId, sequence?.seq)) {
+      this.emitProgress({ type: 'progress', taskId: sequence?.taskId, progress, total, message, seq: sequence?.seq });
+    }
+  }
+
+  /**
+   * Count and emit a task's progress, live or replayed
+   */
+  private emitProgress(event: ProgressEvent): void {
+    this.notificationCount.progress = (this.notificationCount.progress || 0) + 1;
+    this.events.emit('progress', event);
+  }
+
+  /**
+   * Handle a notifications/message log line forwarded by the server
+   */
+  private handleLogMessage(notification: LoggingMessageNotification): void {
+    this.notificationCount.log = (this.notificationCount.log || 0) + 1;
+    this.events.emit('log', notification.params);
+  }
+
+  /**
+   * Handle a validated task event (start, step, completion, sampling results, etc.)
+   */
+  private handleTaskEvent(event: TaskEventParams): void {
+    if (this.acceptSequence(event.taskId, event.seq)) {
+      this.emitTaskEvent(event);
+    }
   }
 
   /**
-   * Handle custom notifications from server (progress, status, etc.)
+   * Count and emit a task event, live or replayed, and the outcome event of
+   * one that ends the task
+   */
+  private emitTaskEvent(event: TaskEventParams): void {
+    this.notificationCount[event.type] = (this.notificationCount[event.type] || 0) + 1;
+    // A task that has ended sends nothing more, so there is nothing to replay for it
+    if (FINAL_TASK_EVENTS.has(event.type)) {
+      this.lastSeqs.delete(event.taskId);
+    }
+    this.events.emit('taskEvent', event);
+
+    switch (event.type) {
+      case 'completion':
+        this.events.emit('completion', event);
+        break;
+      case 'cancelled':
+        this.events.emit('cancelled', event);
+        break;
+      case 'error':
+      case 'timed_out':
+        this.events.emit('error', event);
+        break;
+    }
+  }
+
+  /**
+   * Note the sequence number of a task's notification. Returns false for one
+   * already seen, which a replay can deliver a second time.
+   */
+  private acceptSequence(taskId: string | undefined, seq: number | undefined): boolean {
+    if (taskId === undefined || seq === undefined) {
+      return true;
+    }
+    if (seq <= (this.lastSeqs.get(taskId) ?? 0)) {
+      return false;
+    }
+    this.lastSeqs.set(taskId, seq);
+    return true;
+  }
+
+  /**
+   * Handle custom notifications from server (task events, status, etc.)
    */
   private handleCustomNotification(notification: any): void {
+    if (notification.method === NOTIFICATION_METHODS.TASK_EVENT) {
+      const parsed = TaskEventParamsSchema.safeParse(notification.params);
+      if (parsed.success) {
+        this.handleTaskEvent(parsed.data);
+        return;
+      }
+    }
+
     const type = notification.method.replace('notifications/', '');
     this.notificationCount[type] = (this.notificationCount[type] || 0) + 1;
-    
-    const params = notification.params || {};
-    const timestamp = params.timestamp || new Date().toISOString();
-    
-    // Extract message from different possible locations
-    let message = 'No message';
-    let level = 'info';
-    let taskId = undefined;
-    let progressInfo: { current: number; total: number; percentage: number } | undefined = undefined;
-    
-    if (params.data) {
-      // Server sends structured data in params.data
-      message = params.data.message || message;
-      taskId = params.data.taskId;
-      level = params.level || 'info';
-      
-      // Extract progress information if available
-      if (params.data.step !== undefined && params.data.totalSteps !== undefined) {
-        progressInfo = {
-          current: params.data.step,
-          total: params.data.totalSteps,
-          percentage: Math.round((params.data.step / params.data.totalSteps) * 100)
-        };
+    this.events.emit('notification', { method: notification.method, params: notification.params || {} });
+  }
+
+  /**
+   * Listen for an event. Returns a function that stops listening.
+   */
+  on<K extends keyof McpNotifyClientEvents>(event: K, listener: Listener<McpNotifyClientEvents[K]>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Listen for the next occurrence of an event only
+   */
+  once<K extends keyof McpNotifyClientEvents>(event: K, listener: Listener<McpNotifyClientEvents[K]>): () => void {
+    return this.events.once(event, listener);
+  }
+
+  off<K extends keyof McpNotifyClientEvents>(event: K, listener: Listener<McpNotifyClientEvents[K]>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Iterate over a task's progress and task events as they arrive, replayed ones
+   * included. Iteration ends after the event that ends the task, straight away if
+   * the task has already ended, when the signal aborts, when the client
+   * disconnects, or when the caller stops early. It throws if the task cannot be
+   * looked up or the connection is lost for good.
+   */
+  taskEvents(taskId: string, options: { signal?: AbortSignal } = {}): AsyncIterableIterator<TaskNotificationEvent> {
+    const stops: Array<() => void> = [];
+    const stream = new EventStream<TaskNotificationEvent>(() => stops.forEach(stop => stop()));
+
+    stops.push(
+      this.events.on('progress', (event) => {
+        if (event.taskId === taskId) {
+          stream.push(event);
+        }
+      }),
+      this.events.on('taskEvent', (event) => {
+        if (event.taskId !== taskId) {
+          return;
+        }
+        stream.push(event);
+        if (FINAL_TASK_EVENTS.has(event.type)) {
+          stream.end();
+        }
+      }),
+      // Reconnecting keeps the stream open; giving up ends it
+      this.events.on('connection', (status) => {
+        if (status.state !== 'disconnected') {
+          return;
+        }
+        if (this.disconnecting) {
+          stream.end();
+        } else {
+          stream.fail(new Error(status.reason ?? 'Disconnected from the server'));
+        }
+      })
+    );
+
+    // The events of a task that has already ended were sent before we listened
+    this.getTaskStatus(taskId).then(
+      (status) => {
+        if (FINAL_TASK_STATES.has(status.state)) {
+          stream.end();
+        }
+      },
+      (error) => {
+        // A connection lost meanwhile is followed by connection events instead
+        if (!this.reconnecting) {
+          stream.fail(error);
+        }
+      }
+    );
+
+    const { signal } = options;
+    if (signal) {
+      const onAbort = () => stream.end();
+      signal.addEventListener('abort', onAbort, { once: true });
+      stops.push(() => signal.removeEventListener('abort', onAbort));
+      if (signal.aborted) {
+        stream.end();
       }
-    } else {
-      // Fallback to direct params
-      message = params.message || message;
-      level = params.level || params.type || 'info';
-      taskId = params.taskId;
     }
-    
-    this.display.showNotification(level, message, { type, timestamp, taskId });
-    
-    // Show progress information if available
-    if (progressInfo) {
-      this.display.showProgress(progressInfo.current, progressInfo.total, message);
+    return stream;
+  }
+
+  /**
+   * Stop printing notifications and connection changes, e.g. when embedding the
+   * client; events still reach other listeners
+   */
+  detachDisplay(): void {
+    this.stopDisplay?.();
+    this.stopDisplay = null;
+  }
+
+  /**
+   * Handle sampling requests from server - following MCP sampling specification.
+   * Every request is emitted as a sampling event, answered or not.
+   */
+  private async handleSamplingRequest(request: CreateMessageRequest, signal?: AbortSignal): Promise<CreateMessageResult> {
+    try {
+      const { result, edited } = await this.answerSamplingRequest(request, signal);
+      this.events.emit('sampling', { request: request.params, result, edited });
+      return result;
+    } catch (error) {
+      this.events.emit('sampling', { request: request.params, edited: false, error: error instanceof Error ? error.message : String(error) });
+      throw error;
     }
   }
 
   /**
-   * Handle sampling requests from server - following MCP sampling specification
+   * Answer a sampling request through the provider, within the rate limit and
+   * subject to the user's review
    */
-  private async handleSamplingRequest(request: any): Promise<any> {
+  private async answerSamplingRequest(request: CreateMessageRequest, signal?: AbortSignal): Promise<{ result: CreateMessageResult; edited: boolean }> {
     this.samplingCount++;
-    
-    const messages = request.params.messages || [];
-    const maxTokens = request.params.maxTokens || 100;
-    const systemPrompt = request.params.systemPrompt || '';
-    
-    // Extract the content from the messages
-    let content = 'No content to process';
-    if (messages.length > 0 && messages[0].content) {
-      if (typeof messages[0].content === 'string') {
-        content = messages[0].content;
-      } else if (messages[0].content.text) {
-        content = messages[0].content.text;
-      }
-    }
-    
+    const { messages, maxTokens, systemPrompt } = request.params;
+    // The server stops waiting for the reply after its request timeout
+    const answerBy = Date.now() + MAX_SAMPLING_ANSWER_MS;
+
     // Show sampling request in UI
     this.display.showSamplingRequest({ messages, maxTokens, systemPrompt });
-    
-    // Simple echo response - in a real implementation, this would call an LLM
-    const response = `✨ Feedback #${this.samplingCount}: Looking good! ${content.includes('progress') ? 'Great progress so far!' : 'Keep up the excellent work!'} 🚀`;
+
+    // Refuse requests beyond the rate limit before they reach the provider
+    const refusal = this.samplingLimiter.acquire(maxTokens ?? 0);
+    if (refusal) {
+      this.display.showSamplingRejected(refusal.reason);
+      throw new McpError(SAMPLING_RATE_LIMITED_ERROR.CODE, refusal.reason, { ...refusal, usage: this.samplingLimiter.usage() });
+    }
+
+    // The provider's errors go back to the server as the request's error
+    const proposal = await this.samplingProvider.createMessage(request.params, signal);
+    const proposedText = proposal.content.type === 'text' ? proposal.content.text : `[${proposal.content.type}]`;
+
+    let result = proposal;
+    let edited = false;
+    if (this.samplingApproval.mode === 'prompt') {
+      const review = await this.reviewSamplingReply(proposedText, answerBy, signal);
+      if (review.action === 'reject') {
+        this.display.showSamplingRejected(SAMPLING_REJECTED_ERROR.MESSAGE);
+        throw new McpError(SAMPLING_REJECTED_ERROR.CODE, SAMPLING_REJECTED_ERROR.MESSAGE);
+      }
+      if (review.edited) {
+        result = { ...proposal, content: { type: 'text', text: review.text }, stopReason: 'endTurn' };
+        edited = true;
+      }
+    }
+
+    const response = result.content.type === 'text' ? result.content.text : `[${result.content.type}]`;
     this.samplingResponses.push(response);
-    
+
     // Show sampling response in UI
-    this.display.showSamplingResponse({ 
-      message: { role: 'assistant', content: response }, 
-      stopReason: 'complete' 
+    this.display.showSamplingResponse({
+      message: { role: result.role, content: response },
+      model: result.model,
+      stopReason: result.stopReason,
+      edited
     });
-    
-    // Return proper MCP sampling response format
-    return {
-      model: 'mcp-notify-client-mock', // Required field
-      role: 'assistant',
-      content: {
-        type: 'text',
-        text: response,
-      },
-      stopReason: 'end_turn', // Optional but good practice
-    };
+
+    return { result, edited };
+  }
+
+  /**
+   * Have the user review a proposed sampling reply. A reply nobody reviews in
+   * time, or before the server would stop waiting, gets the fallback policy; one
+   * the user dismisses is rejected.
+   */
+  private async reviewSamplingReply(proposal: string, answerBy: number, signal?: AbortSignal): Promise<SamplingReview> {
+    const { fallback } = this.samplingApproval;
+    const timeoutMs = Math.max(0, Math.min(this.samplingApproval.timeoutMs, answerBy - Date.now()));
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const review = await reviewSamplingReply(proposal, { signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+    if (review) {
+      return review;
+    }
+
+    // The server withdrew the request; nothing will read our answer
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    if (timeout.aborted) {
+      this.display.showNotification('warning', `No review within ${timeoutMs}ms, ${fallback === 'approve' ? 'sending' : 'rejecting'} the reply`);
+      return fallback === 'approve' ? { action: 'approve', text: proposal, edited: false } : { action: 'reject' };
+    }
+    return { action: 'reject' };
+  }
+
+  /**
+   * Limit how many sampling requests the client answers; this starts counting afresh
+   */
+  setSamplingRateLimit(limit: SamplingRateLimit): void {
+    this.samplingLimiter = new SamplingRateLimiter(limit);
+  }
+
+  /**
+   * Choose whether the user reviews sampling replies before they are sent
+   */
+  setSamplingApproval(approval: SamplingApproval): void {
+    this.samplingApproval = approval;
+  }
+
+  /**
+   * Choose what answers sampling requests; the mock provider by default
+   */
+  setSamplingProvider(provider: SamplingProvider): void {
+    this.samplingProvider = provider;
+  }
+
+  /**
+   * Handle an elicitation request: ask on the terminal, or answer straight away
+   * under an auto-accept or auto-decline policy
+   */
+  private async handleElicitationRequest(request: ElicitRequest, signal: AbortSignal): Promise<ElicitResult> {
+    this.elicitationCount++;
+    const { message, requestedSchema } = request.params;
+    this.display.showElicitationRequest(message, this.elicitationPolicy);
+
+    let result: ElicitResult;
+    switch (this.elicitationPolicy) {
+      case 'auto-accept':
+        result = { action: 'accept', content: defaultFormContent(requestedSchema) };
+        break;
+      case 'auto-decline':
+        result = { action: 'decline' };
+        break;
+      default:
+        result = await promptForInput(message, requestedSchema, { signal });
+    }
+
+    this.display.showElicitationResponse(result.action, result.content);
+    return result;
+  }
+
+  /**
+   * Choose how elicitation requests are answered
+   */
+  setElicitationPolicy(policy: ElicitationPolicy): void {
+    this.elicitationPolicy = policy;
   }
 
   /**
-   * Connect to the MCP server
+   * Connect to the MCP server by spawning it over stdio. A server that exits is
+   * spawned again under the reconnect policy.
    */
   async connect(serverCommand: string, serverArgs: string[] = []): Promise<void> {
-    try {
-      this.transport = new StdioClientTransport({
-        command: serverCommand,
-        args: serverArgs,
-      });
+    await this.connectWith(() => new StdioClientTransport({
+      command: serverCommand,
+      args: serverArgs,
+    }));
+  }
+
+  /**
+   * Connect to an MCP server running in Streamable HTTP mode
+   */
+  async connectUrl(url: string | URL): Promise<void> {
+    await this.connectWith(() => new StreamableHTTPClientTransport(new URL(url)));
+  }
+
+  /**
+   * Connect over a transport from the factory, which also supplies the
+   * transports for reconnecting
+   */
+  private async connectWith(createTransport: () => Transport): Promise<void> {
+    this.disconnecting = false;
+    await this.connectTransport(createTransport());
+    // Only a connection that came up is worth restoring
+    this.createTransport = createTransport;
+  }
 
+  /**
+   * Connect the client over the given transport
+   */
+  private async connectTransport(transport: Transport): Promise<void> {
+    try {
+      this.transport = transport;
       await this.client.connect(this.transport);
-      this.display.showConnectionStatus(true, 'MCP Notify Server');
+      this.events.emit('connection', { state: 'connected' });
     } catch (error) {
-      this.display.showConnectionStatus(false);
+      this.transport = null;
+      this.events.emit('connection', { state: 'disconnected' });
       throw error;
     }
   }
 
+  /**
+   * Choose how the client reconnects after losing the server; 5 attempts with
+   * exponential backoff by default
+   */
+  setReconnectPolicy(policy: ReconnectPolicy): void {
+    this.reconnectPolicy = policy;
+  }
+
+  /**
+   * Resolves once a reconnect in progress ends: true if the client is connected
+   * again, false if it gave up or was disconnected. Resolves straight away when
+   * no reconnect is in progress, with whether the client is connected.
+   */
+  async waitForReconnect(): Promise<boolean> {
+    return this.reconnecting ?? this.transport !== null;
+  }
+
+  /**
+   * Start reconnecting when the connection drops, unless we closed it ourselves
+   */
+  private handleConnectionLost(): void {
+    if (this.disconnecting || this.reconnecting || !this.createTransport) {
+      return;
+    }
+
+    this.transport = null;
+    if (this.reconnectPolicy.maxAttempts === 0) {
+      this.events.emit('connection', { state: 'disconnected', reason: 'Connection lost' });
+      return;
+    }
+
+    this.reconnecting = this.reconnect().finally(() => {
+      this.reconnecting = null;
+    });
+  }
+
+  /**
+   * Connect again with exponential backoff, then restore the session: the SDK
+   * re-runs initialization, and we re-list tools, restore the server log level
+   * and replay what the tasks we were watching sent in the meantime
+   */
+  private async reconnect(): Promise<boolean> {
+    const { maxAttempts } = this.reconnectPolicy;
+    const abort = new AbortController();
+    this.reconnectAbort = abort;
+
+    try {
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const delayMs = reconnectDelay(this.reconnectPolicy, attempt);
+        this.events.emit('connection', { state: 'reconnecting', attempt, maxAttempts, delayMs });
+
+        try {
+          await sleep(delayMs, undefined, { signal: abort.signal });
+        } catch {
+          return false;
+        }
+
+        const transport = this.createTransport!();
+        try {
+          this.transport = transport;
+          await this.client.connect(transport);
+        } catch (error) {
+          this.transport = null;
+          this.log.debug('Reconnect attempt failed', { attempt, error });
+          await transport.close().catch(() => undefined);
+          continue;
+        }
+
+        this.events.emit('connection', { state: 'reconnected', attempt });
+        await this.restoreSession();
+        return true;
+      }
+
+      const reason = `Gave up reconnecting after ${maxAttempts} attempts`;
+      this.events.emit('connection', { state: 'disconnected', reason });
+      return false;
+    } finally {
+      if (this.reconnectAbort === abort) {
+        this.reconnectAbort = null;
+      }
+    }
+  }
+
+  /**
+   * Bring a new connection up to where the old one was. Failures are reported
+   * but do not undo the reconnect.
+   */
+  private async restoreSession(): Promise<void> {
+    try {
+      const tools = await this.listTools();
+      this.log.debug(`Server offers ${tools.length} tools after reconnecting`);
+      if (this.serverLogLevel) {
+        await this.setServerLogLevel(this.serverLogLevel);
+      }
+    } catch (error) {
+      this.log.warn('Failed to restore the session after reconnecting', { error });
+    }
+
+    for (const taskId of this.lastSeqs.keys()) {
+      try {
+        const replayed = await this.replayTaskEvents(taskId);
+        this.log.debug(`Replayed ${replayed} events of task ${taskId}`);
+      } catch (error) {
+        this.display.showNotification('warning', `Stopped watching task ${taskId}: ${error instanceof Error ? error.message : String(error)}`, { taskId });
+        this.lastSeqs.delete(taskId);
+      }
+    }
+  }
+
+  /**
+   * Ask the server to forward its log lines at or above the given level
+   */
+  async setServerLogLevel(level: LoggingLevel): Promise<void> {
+    await this.client.setLoggingLevel(level);
+    this.serverLogLevel = level;
+  }
+
   /**
    * List available tools from the server
    */
@@ -204,9 +670,13 @@ export class McpNotifyClient {
   }
 
   /**
-   * Execute the long-running process
+   * Execute the long-running process. In "await" mode the call resolves once the
+   * task finishes, with a ToolExecutionResult as structured content.
    */
   async executeLongRunningProcess(args: ExecutionParams): Promise<any> {
+    const call = new AbortController();
+    this.activeCall = call;
+
     try {
       this.display.showExecutionParams(args);
       this.display.showExecutionStart();
@@ -220,26 +690,198 @@ export class McpNotifyClient {
             notificationInterval: args.interval,
             delayMs: args.delay,
             enableSampling: args.sampling,
+            mode: args.mode ?? 'background',
+            timeoutMs: args.timeoutMs,
+            faults: args.faults,
+            checkpoints: args.confirmAt?.map(afterStep => ({ afterStep })),
           },
         },
       };
 
-      const response = await this.client.request(request, CallToolResultSchema);
-      return response;
+      // An awaited task keeps the request open for its whole run. Time spent queued,
+      // paused, retrying or waiting on the user cannot be known up front, so the
+      // request is not timed out: a timeout would cancel a healthy task
+      // The SDK sends a progressToken with the call and routes its progress here
+      // for as long as the call is open. Progress names the task it belongs to.
+      let taskId: string | undefined;
+      const onprogress = (progress: Progress) => {
+        taskId ??= (progress._meta as { taskId?: string } | undefined)?.taskId;
+        this.handleProgress(progress);
+      };
+      if (args.mode !== 'await') {
+        return await this.client.request(request, CallToolResultSchema, { signal: call.signal, onprogress });
+      }
+
+      try {
+        return await this.client.request(request, CallToolResultSchema, {
+          timeout: DEFAULT_CONFIG.AWAIT_REQUEST_TIMEOUT_MS,
+          signal: call.signal,
+          onprogress,
+        });
+      } catch (error) {
+        // The task outlives the connection its call was made on: once reconnected,
+        // follow it by ID instead
+        const connectionClosed = error instanceof McpError && error.code === ErrorCode.ConnectionClosed;
+        if (!taskId || !connectionClosed || !(await this.waitForReconnect())) {
+          throw error;
+        }
+        return await this.followTask(taskId, call.signal);
+      }
     } catch (error) {
-      this.display.showError('Failed to execute long-running process', error instanceof Error ? error : undefined);
+      // A cancelled call rejects with the cancellation reason; that is not a failure
+      if (!call.signal.aborted) {
+        this.display.showError('Failed to execute long-running process', error instanceof Error ? error : undefined);
+      }
       throw error;
+    } finally {
+      if (this.activeCall === call) {
+        this.activeCall = null;
+      }
     }
   }
 
+  /**
+   * Wait for a task whose call was lost with the connection to end, rendering its
+   * events meanwhile, and return its outcome as the call would have. Aborting the
+   * signal cancels the task by ID.
+   */
+  private async followTask(taskId: string, signal: AbortSignal): Promise<CallToolResult> {
+    this.display.showNotification('info', `Following task ${taskId} after reconnecting`, { taskId });
+    const events = this.taskEvents(taskId, { signal });
+    while (!(await events.next()).done) {
+      // The display renders each event
+    }
+
+    if (signal.aborted) {
+      await this.client.request({
+        method: 'tools/call',
+        params: { name: TOOL_NAMES.CANCEL_TASK, arguments: { taskId } },
+      }, CallToolResultSchema).catch(error => this.log.warn('Failed to cancel the followed task', { taskId, error }));
+      throw signal.reason;
+    }
+
+    const status = await this.getTaskStatus(taskId);
+    const success = status.state === 'completed';
+    const result: ToolExecutionResult = {
+      success,
+      totalSteps: status.totalSteps,
+      completedSteps: status.currentStep,
+      executionTimeMs: status.elapsedMs,
+      notificationsSent: status.notificationsSent,
+      samplingRequests: status.samplingRequests,
+      samplingUsage: status.samplingUsage,
+      error: success ? undefined : status.lastNotification?.message,
+    };
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as unknown as Record<string, unknown>,
+    };
+  }
+
+  /**
+   * Ask the server where a task stands
+   */
+  async getTaskStatus(taskId: string): Promise<TaskStatus> {
+    const response = await this.client.request({
+      method: 'tools/call',
+      params: { name: TOOL_NAMES.GET_TASK_STATUS, arguments: { taskId } },
+    }, CallToolResultSchema);
+    if (response.isError) {
+      const text = response.content[0]?.type === 'text' ? response.content[0].text : `Cannot get the status of task ${taskId}`;
+      throw new Error(text);
+    }
+    return response.structuredContent as unknown as TaskStatus;
+  }
+
+  /**
+   * Fetch and show the notifications sent for a task since the last one this
+   * client saw, e.g. after reconnecting. Events seen already are skipped, and
+   * events the server no longer keeps are reported. Returns how many were replayed.
+   */
+  async replayTaskEvents(taskId: string): Promise<number> {
+    const response = await this.client.request({
+      method: 'tools/call',
+      params: {
+        name: TOOL_NAMES.GET_TASK_EVENTS,
+        arguments: { taskId, afterSeq: this.lastSeqs.get(taskId) ?? 0 },
+      },
+    }, CallToolResultSchema);
+    if (response.isError) {
+      const text = response.content[0]?.type === 'text' ? response.content[0].text : `Cannot replay events of task ${taskId}`;
+      throw new Error(text);
+    }
+
+    const { state, lastSeq, missed, events } = response.structuredContent as unknown as TaskEventsResult;
+    if (missed > 0) {
+      this.display.showNotification('warning', `${missed} events of task ${taskId} are no longer available to replay`, { taskId });
+    }
+
+    let replayed = 0;
+    for (const event of events) {
+      if (this.replayEvent(taskId, event)) {
+        replayed++;
+      }
+    }
+    // Skip past events the server dropped, so they are not asked for again, and
+    // stop watching a task that has ended even if its final event was dropped
+    if (FINAL_TASK_STATES.has(state)) {
+      this.lastSeqs.delete(taskId);
+    } else if (lastSeq > (this.lastSeqs.get(taskId) ?? 0)) {
+      this.lastSeqs.set(taskId, lastSeq);
+    }
+    return replayed;
+  }
+
+  /**
+   * Show a notification from a task's history as if it had just arrived
+   */
+  private replayEvent(taskId: string, event: TaskHistoryEntry): boolean {
+    if (!this.acceptSequence(taskId, event.seq)) {
+      return false;
+    }
+
+    if (event.method === NOTIFICATION_METHODS.PROGRESS_UPDATE) {
+      const { progress, total } = (event.data ?? {}) as { progress?: number; total?: number };
+      this.emitProgress({ type: 'progress', taskId, progress: progress ?? 0, total, message: event.message, seq: event.seq });
+      return true;
+    }
+
+    const parsed = TaskEventParamsSchema.safeParse({ taskId, ...event });
+    if (parsed.success) {
+      this.emitTaskEvent(parsed.data);
+    }
+    return parsed.success;
+  }
+
+  /**
+   * Cancel the tool call in flight. The SDK sends notifications/cancelled for the
+   * request, which the server maps to cancelling the task it started. Returns
+   * false if no call is in flight.
+   */
+  cancel(reason = 'Cancelled by the client'): boolean {
+    if (!this.activeCall) {
+      return false;
+    }
+
+    this.activeCall.abort(reason);
+    this.activeCall = null;
+    return true;
+  }
+
   /**
    * Disconnect from the server
    */
   async disconnect(): Promise<void> {
+    this.disconnecting = true;
+    this.reconnectAbort?.abort();
     if (this.transport) {
+      // Let the server release the session before closing the HTTP streams
+      if (this.transport instanceof StreamableHTTPClientTransport) {
+        await this.transport.terminateSession().catch(() => undefined);
+      }
       await this.transport.close();
       this.transport = null;
-      this.display.showConnectionStatus(false);
+      this.events.emit('connection', { state: 'disconnected' });
     }
   }
 
@@ -253,7 +895,7 @@ export class McpNotifyClient {
   /**
    * Get sampling statistics
    */
-  getSamplingStatistics(): { totalRequests: number; averageResponseLength: number } {
+  getSamplingStatistics(): { totalRequests: number; averageResponseLength: number; rateLimit: RateLimitUsage } {
     const averageLength = this.samplingResponses.length > 0 
       ? this.samplingResponses.reduce((sum, resp) => sum + resp.length, 0) / this.samplingResponses.length
       : 0;
@@ -261,6 +903,7 @@ export class McpNotifyClient {
     return {
       totalRequests: this.samplingCount,
       averageResponseLength: Math.round(averageLength),
+      rateLimit: this.samplingLimiter.usage(),
     };
   }
 
@@ -283,6 +926,13 @@ export class McpNotifyClient {
     if (samplingStats.totalRequests > 0) {
       console.log(`  Sampling requests handled: ${samplingStats.totalRequests}`);
       console.log(`  Average response length: ${samplingStats.averageResponseLength} characters`);
+      console.log(`  Sampling tokens requested: ${samplingStats.rateLimit.tokens}`);
+      if (samplingStats.rateLimit.refused > 0) {
+        console.log(`  Sampling requests refused by the rate limit: ${samplingStats.rateLimit.refused}`);
+      }
+    }
+    if (this.elicitationCount > 0) {
+      console.log(`  Elicitation requests handled: ${this.elicitationCount}`);
     }
 
     this.display.showSeparator();
@@ -0,0 +1,198 @@
+/**
+ * Events of the MCP notification client
+ *
+ * Everything the client receives is emitted as a typed event, so code that
+ * embeds the client can react to it; the console display is one subscriber.
+ * Task notifications can also be consumed per task as an async iterator.
+ */
+
+import { CreateMessageResult, LoggingMessageNotification } from '@modelcontextprotocol/sdk/types.js';
+import { TaskEventParams, TaskState } from '../shared/types';
+import { ConnectionStatus } from './reconnect';
+import { SamplingParams } from './sampling';
+
+// A notifications/progress for a task. taskId is known when the server sends it
+// in _meta, as this project's server does.
+export interface ProgressEvent {
+  type: 'progress';
+  taskId?: string;
+  progress: number;
+  total?: number;
+  message?: string;
+  seq?: number;
+}
+
+// A sampling request the client answered, or refused with an error
+export interface SamplingEvent {
+  request: SamplingParams;
+  result?: CreateMessageResult;
+  // Whether the user edited the reply before it was sent
+  edited: boolean;
+  error?: string;
+}
+
+// A custom notification other than a task event
+export interface CustomNotificationEvent {
+  method: string;
+  params: Record<string, any>;
+}
+
+export interface McpNotifyClientEvents {
+  // Every task event: start, step, completion, sampling results and so on
+  taskEvent: TaskEventParams;
+  progress: ProgressEvent;
+  // Task events that end a task, by outcome; error covers timed_out events too
+  completion: TaskEventParams;
+  cancelled: TaskEventParams;
+  error: TaskEventParams;
+  sampling: SamplingEvent;
+  log: LoggingMessageNotification['params'];
+  notification: CustomNotificationEvent;
+  connection: ConnectionStatus;
+}
+
+// What the per-task iterator yields
+export type TaskNotificationEvent = ProgressEvent | TaskEventParams;
+
+// Task event types after which a task sends nothing more
+export const FINAL_TASK_EVENTS: ReadonlySet<string> = new Set(['completion', 'cancelled', 'error', 'timed_out', 'server_shutdown']);
+
+// Task states reached through those events
+export const FINAL_TASK_STATES: ReadonlySet<TaskState> = new Set<TaskState>(['completed', 'cancelled', 'failed', 'timed_out', 'interrupted']);
+
+export type Listener<T> = (payload: T) => void;
+
+/**
+ * Event emitter whose event names and payloads are checked against an event map.
+ * A listener that throws is reported to onListenerError and does not stop the others.
+ */
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<Listener<any>>>();
+
+  constructor(private onListenerError: (event: keyof Events, error: unknown) => void = () => {}) {}
+
+  /**
+   * Call the listener on every emit of the event. Returns a function that stops listening.
+   */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Call the listener on the next emit of the event only
+   */
+  once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const stop = this.on(event, (payload) => {
+      stop();
+      listener(payload);
+    });
+    return stop;
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    for (const listener of [...(this.listeners.get(event) ?? [])]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.onListenerError(event, error);
+      }
+    }
+  }
+}
+
+/**
+ * Async iterator over values pushed to it. Values are buffered until read; once
+ * ended, the buffer drains and iteration stops, or throws if the stream failed.
+ * Stopping early (break, return) runs the cleanup straight away.
+ */
+export class EventStream<T> implements AsyncIterableIterator<T> {
+  private buffer: T[] = [];
+  private waiting: { resolve: (result: IteratorResult<T>) => void; reject: (error: unknown) => void } | null = null;
+  private ended = false;
+  // Thrown by the read after the buffer drains, once
+  private failure: { error: unknown } | null = null;
+
+  constructor(private cleanup: () => void = () => {}) {}
+
+  push(value: T): void {
+    if (this.ended) {
+      return;
+    }
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve({ value, done: false });
+    } else {
+      this.buffer.push(value);
+    }
+  }
+
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.cleanup();
+    if (this.waiting) {
+      const { resolve, reject } = this.waiting;
+      this.waiting = null;
+      const failure = this.takeFailure();
+      if (failure) {
+        reject(failure.error);
+      } else {
+        resolve({ value: undefined, done: true });
+      }
+    }
+  }
+
+  /**
+   * End the stream with an error, which the reader gets once the buffer drains
+   */
+  fail(error: unknown): void {
+    if (this.ended) {
+      return;
+    }
+    this.failure = { error };
+    this.end();
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      return Promise.resolve({ value: this.buffer.shift()!, done: false });
+    }
+    if (this.ended) {
+      const failure = this.takeFailure();
+      return failure ? Promise.reject(failure.error) : Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  return(): Promise<IteratorResult<T>> {
+    this.buffer = [];
+    this.failure = null;
+    this.end();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  private takeFailure(): { error: unknown } | null {
+    const failure = this.failure;
+    this.failure = null;
+    return failure;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+}
@@ -2,26 +2,51 @@
 
 import { spawn } from 'child_process';
 import { McpNotifyClient } from './client';
-import { CliArgsSchema } from '../shared/config';
+import { CliArgs, CliArgsSchema, ReconnectPolicySchema, SamplingApprovalSchema, SamplingRateLimitSchema } from '../shared/config';
+import { CLIENT_INFO } from '../shared/constants';
+import { createLogger, Logger, toMcpLogLevel } from '../shared/logger';
+import { createSamplingProvider } from './sampling';
 import { Display } from './ui/display';
 
 // Create display instance
 const display = new Display();
 
+// Client diagnostics go to stderr; --verbose lowers the level to debug
+let log: Logger = createLogger({ name: CLIENT_INFO.NAME, level: 'warn' });
+
 /**
  * Parse command line arguments and validate them
  */
-function parseCliArgs(): { serverPath: string; toolName: string; steps?: number; delay?: number; interval?: number; sampling?: boolean; verbose?: boolean } {
+function parseCliArgs(): { serverPath: string; url?: string; toolName: string; steps?: number; delay?: number; interval?: number; sampling?: boolean; verbose?: boolean; logLevel?: CliArgs['logLevel']; timeout?: number; confirmAt?: number[]; elicitation?: CliArgs['elicitation']; samplingProvider?: CliArgs['samplingProvider']; samplingUrl?: string; samplingModel?: string; samplingModels?: string[]; samplingTimeout?: number; samplingScript?: string; samplingApproval?: CliArgs['samplingApproval']; samplingApprovalTimeout?: number; samplingApprovalFallback?: CliArgs['samplingApprovalFallback']; samplingRateLimit?: number; samplingMaxRequests?: number; samplingMaxTokens?: number; reconnectAttempts?: number; reconnectDelay?: number } {
   const args = process.argv.slice(2);
   
   // Default values
   let serverPath = 'src/server/index.ts';
+  let url: string | undefined;
   let toolName = 'start_long_running_task';
   let steps: number | undefined;
   let delay: number | undefined;
   let interval: number | undefined;
   let sampling: boolean | undefined;
   let verbose: boolean | undefined;
+  let logLevel: string | undefined;
+  let timeout: number | undefined;
+  let confirmAt: number[] | undefined;
+  let elicitation: string | undefined;
+  let samplingProvider: string | undefined;
+  let samplingUrl: string | undefined;
+  let samplingModel: string | undefined;
+  let samplingModels: string[] | undefined;
+  let samplingTimeout: number | undefined;
+  let samplingScript: string | undefined;
+  let samplingApproval: string | undefined;
+  let samplingApprovalTimeout: number | undefined;
+  let samplingApprovalFallback: string | undefined;
+  let samplingRateLimit: number | undefined;
+  let samplingMaxRequests: number | undefined;
+  let samplingMaxTokens: number | undefined;
+  let reconnectAttempts: number | undefined;
+  let reconnectDelay: number | undefined;
   
   // Parse arguments
   for (let i = 0; i < args.length; i++) {
@@ -32,6 +57,9 @@ function parseCliArgs(): { serverPath: string; toolName: string; steps?: number;
       case '-s':
         serverPath = args[++i];
         break;
+      case '--url':
+        url = args[++i];
+        break;
       case '--tool':
       case '-t':
         toolName = args[++i];
@@ -51,6 +79,60 @@ function parseCliArgs(): { serverPath: string; toolName: string; steps?: number;
       case '--verbose':
         verbose = true;
         break;
+      case '--log-level':
+        logLevel = args[++i];
+        break;
+      case '--timeout':
+        timeout = parseInt(args[++i], 10);
+        break;
+      case '--confirm-at':
+        confirmAt = args[++i].split(',').map(step => parseInt(step, 10));
+        break;
+      case '--elicitation':
+        elicitation = args[++i];
+        break;
+      case '--sampling-provider':
+        samplingProvider = args[++i];
+        break;
+      case '--sampling-url':
+        samplingUrl = args[++i];
+        break;
+      case '--sampling-model':
+        samplingModel = args[++i];
+        break;
+      case '--sampling-models':
+        samplingModels = args[++i].split(',').map(model => model.trim());
+        break;
+      case '--sampling-timeout':
+        samplingTimeout = parseInt(args[++i], 10);
+        break;
+      case '--sampling-script':
+        samplingScript = args[++i];
+        break;
+      case '--sampling-approval':
+        samplingApproval = args[++i];
+        break;
+      case '--sampling-approval-timeout':
+        samplingApprovalTimeout = parseInt(args[++i], 10);
+        break;
+      case '--sampling-approval-fallback':
+        samplingApprovalFallback = args[++i];
+        break;
+      case '--sampling-rate-limit':
+        samplingRateLimit = parseInt(args[++i], 10);
+        break;
+      case '--sampling-max-requests':
+        samplingMaxRequests = parseInt(args[++i], 10);
+        break;
+      case '--sampling-max-tokens':
+        samplingMaxTokens = parseInt(args[++i], 10);
+        break;
+      case '--reconnect-attempts':
+        reconnectAttempts = parseInt(args[++i], 10);
+        break;
+      case '--reconnect-delay':
+        reconnectDelay = parseInt(args[++i], 10);
+        break;
       case '--help':
       case '-h':
         showHelp();
@@ -66,21 +148,59 @@ function parseCliArgs(): { serverPath: string; toolName: string; steps?: number;
   try {
     const parsed = CliArgsSchema.parse({
       serverPath,
+      url,
       toolName,
       steps,
       delay,
       interval,
       sampling: sampling ?? true,
-      verbose: verbose ?? false
+      verbose: verbose ?? false,
+      logLevel,
+      timeout,
+      confirmAt,
+      elicitation,
+      samplingProvider,
+      samplingUrl,
+      samplingModel,
+      samplingModels,
+      samplingTimeout,
+      samplingScript,
+      samplingApproval,
+      samplingApprovalTimeout,
+      samplingApprovalFallback,
+      samplingRateLimit,
+      samplingMaxRequests,
+      samplingMaxTokens,
+      reconnectAttempts,
+      reconnectDelay
     });
     return {
       serverPath: parsed.serverPath,
+      url: parsed.url,
       toolName: parsed.toolName,
       steps: parsed.steps,
       delay: parsed.delay,
       interval: parsed.interval,
       sampling: parsed.sampling,
-      verbose: parsed.verbose
+      verbose: parsed.verbose,
+      logLevel: parsed.logLevel,
+      timeout: parsed.timeout,
+      confirmAt: parsed.confirmAt,
+      elicitation: parsed.elicitation,
+      samplingProvider: parsed.samplingProvider,
+      samplingUrl: parsed.samplingUrl,
+      samplingModel: parsed.samplingModel,
+      samplingModels: parsed.samplingModels,
+      samplingTimeout: parsed.samplingTimeout,
+      samplingScript: parsed.samplingScript,
+      samplingApproval: parsed.samplingApproval,
+      samplingApprovalTimeout: parsed.samplingApprovalTimeout,
+      samplingApprovalFallback: parsed.samplingApprovalFallback,
+      samplingRateLimit: parsed.samplingRateLimit,
+      samplingMaxRequests: parsed.samplingMaxRequests,
+      samplingMaxTokens: parsed.samplingMaxTokens,
+      reconnectAttempts: parsed.reconnectAttempts,
+      reconnectDelay: parsed.reconnectDelay
     };
   } catch (error) {
     console.error('Invalid arguments:');
@@ -113,13 +233,13 @@ function startServer(serverPath: string): Promise<{ process: any; serverTranspor
     });
     
     serverProcess.on('error', (error) => {
-      console.error(`Failed to start server: ${error.message}`);
+      log.error('Failed to start server', { serverPath, error });
       reject(error);
     });
     
     serverProcess.on('exit', (code) => {
       if (code !== 0) {
-        console.error(`Server exited with code ${code}`);
+        log.warn(`Server exited with code ${code}`, { serverPath });
       }
     });
     
@@ -141,35 +261,88 @@ function startServer(serverPath: string): Promise<{ process: any; serverTranspor
 async function main(): Promise<void> {
   try {
     const args = parseCliArgs();
+    if (args.verbose) {
+      log = createLogger({ name: CLIENT_INFO.NAME, level: 'debug' });
+    }
     
     display.showWelcome();
     console.log('Configuration:');
-    console.log(`  Server: ${args.serverPath}`);
+    console.log(`  Server: ${args.url ?? args.serverPath}`);
     console.log(`  Tool: ${args.toolName}`);
     if (args.steps) console.log(`  Steps: ${args.steps}`);
     if (args.delay) console.log(`  Delay: ${args.delay}ms`);
     if (args.interval) console.log(`  Interval: ${args.interval}ms`);
+    if (args.timeout) console.log(`  Timeout: ${args.timeout}ms`);
+    if (args.confirmAt) console.log(`  Confirm after steps: ${args.confirmAt.join(', ')} (${args.elicitation ?? 'prompt'})`);
+    if (args.samplingProvider) console.log(`  Sampling provider: ${args.samplingProvider}`);
+    const samplingApproval = SamplingApprovalSchema.parse({
+      mode: args.samplingApproval,
+      timeoutMs: args.samplingApprovalTimeout,
+      fallback: args.samplingApprovalFallback
+    });
+    if (samplingApproval.mode === 'prompt') console.log(`  Sampling replies: reviewed (${samplingApproval.fallback} after ${samplingApproval.timeoutMs}ms)`);
     display.showSeparator();
     
-    // Start the server
-    const { process: serverProcess } = await startServer(args.serverPath);
+    // Load the sampling provider first, so a bad script fails before the server starts
+    const samplingProvider = await createSamplingProvider({
+      provider: args.samplingProvider ?? 'mock',
+      url: args.samplingUrl,
+      apiKey: process.env.OPENAI_API_KEY,
+      model: args.samplingModel,
+      models: args.samplingModels,
+      timeoutMs: args.samplingTimeout,
+      scriptFile: args.samplingScript
+    });
+    
+    // Start the server unless connecting to one already running in HTTP mode
+    const serverProcess = args.url ? null : (await startServer(args.serverPath)).process;
     
     // Create and start the client
-    const client = new McpNotifyClient();
+    const client = new McpNotifyClient(true, log);
+    if (args.elicitation) client.setElicitationPolicy(args.elicitation);
+    client.setSamplingProvider(samplingProvider);
+    client.setSamplingApproval(samplingApproval);
+    client.setSamplingRateLimit(SamplingRateLimitSchema.parse({
+      maxRequests: args.samplingRateLimit,
+      maxTotalRequests: args.samplingMaxRequests,
+      maxTotalTokens: args.samplingMaxTokens
+    }));
+    client.setReconnectPolicy(ReconnectPolicySchema.parse({
+      maxAttempts: args.reconnectAttempts,
+      initialDelayMs: args.reconnectDelay
+    }));
     
     // Set up graceful shutdown
     const cleanup = async (): Promise<void> => {
       console.log('Shutting down...');
       await client.disconnect();
-      serverProcess.kill('SIGTERM');
+      serverProcess?.kill('SIGTERM');
       process.exit(0);
     };
     
-    process.on('SIGINT', cleanup);
+    // The first Ctrl+C cancels the remote task; a second one exits right away
+    let cancelled = false;
+    process.on('SIGINT', () => {
+      if (!cancelled && client.cancel('Interrupted from the command line')) {
+        cancelled = true;
+        console.log('\nCancelling task... (press Ctrl+C again to exit)');
+        return;
+      }
+      void cleanup();
+    });
     process.on('SIGTERM', cleanup);
     
-    // Connect to the server using the command
-    await client.connect('npx', ['ts-node', args.serverPath]);
+    // Connect to the server over HTTP, or by spawning it over stdio
+    if (args.url) {
+      await client.connectUrl(args.url);
+    } else {
+      await client.connect('npx', ['ts-node', args.serverPath]);
+    }
+
+    // Have the server forward its logs as notifications/message
+    if (args.logLevel) {
+      await client.setServerLogLevel(toMcpLogLevel(args.logLevel));
+    }
     
     // Create ExecutionParams object for execution
     const executionParams = {
@@ -177,24 +350,40 @@ async function main(): Promise<void> {
       interval: args.interval ?? 1,
       delay: args.delay ?? 1000,
       sampling: args.sampling ?? true,
-      verbose: args.verbose ?? false
+      verbose: args.verbose ?? false,
+      timeoutMs: args.timeout,
+      confirmAt: args.confirmAt
     };
     
     console.log(`Executing tool: ${args.toolName}`);
     display.showSeparator();
     
-    const result = await client.executeLongRunningProcess(executionParams);
-    
-    // Wait for notifications to be received (give the server time to send them)
-    console.log('Waiting for notifications...');
-    const waitTime = (executionParams.steps * executionParams.delay) + 2000; // Total execution time + buffer
-    await new Promise(resolve => setTimeout(resolve, waitTime));
+    // Await mode keeps the call open until the task finishes, streaming progress meanwhile.
+    // If the connection drops, the client reconnects and follows the task by ID instead
+    let result;
+    try {
+      result = await client.executeLongRunningProcess({ ...executionParams, mode: 'await' });
+    } catch (error) {
+      if (!cancelled) {
+        throw error;
+      }
+
+      display.showSeparator();
+      console.log('Tool execution cancelled');
+      client.showSummary();
+      await cleanup();
+      return;
+    }
     
     display.showSeparator();
     console.log('Tool execution completed');
     client.showSummary();
-    console.log('Final result:');
-    console.log(JSON.stringify(result, null, 2));
+    if (result.structuredContent) {
+      display.showExecutionResults(result.structuredContent);
+    } else {
+      console.log('Final result:');
+      console.log(JSON.stringify(result, null, 2));
+    }
     
     // Clean shutdown
     await cleanup();
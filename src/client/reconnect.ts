@@ -0,0 +1,29 @@
+/**
+ * Reconnecting to a lost server
+ *
+ * When the connection drops, the client connects again over a fresh transport,
+ * waiting longer before each attempt, and reports its progress as connection
+ * state changes.
+ */
+
+import { ReconnectPolicy } from '../shared/config';
+
+export type ConnectionState = 'connected' | 'reconnecting' | 'reconnected' | 'disconnected';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  // Reconnecting: the attempt about to be made (1-based), out of maxAttempts
+  attempt?: number;
+  maxAttempts?: number;
+  // Reconnecting: the wait before the attempt
+  delayMs?: number;
+  // Disconnected: why the client stopped trying
+  reason?: string;
+}
+
+/**
+ * Wait in milliseconds before the given reconnect attempt (1-based)
+ */
+export function reconnectDelay(policy: ReconnectPolicy, attempt: number): number {
+  return Math.min(policy.initialDelayMs * policy.multiplier ** (attempt - 1), policy.maxDelayMs);
+}
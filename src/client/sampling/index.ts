@@ -0,0 +1,53 @@
+/**
+ * Built-in sampling providers
+ */
+
+import { DEFAULT_CONFIG } from '../../shared/constants';
+import { MockSamplingProvider } from './mock';
+import { OpenAiSamplingProvider } from './openai';
+import { SamplingProvider } from './sampling-provider';
+import { ScriptedSamplingProvider } from './scripted';
+
+export { MOCK_MODEL, MockSamplingProvider } from './mock';
+export { OPENAI_BASE_URL, OpenAiProviderOptions, OpenAiSamplingProvider } from './openai';
+export { RateLimitKind, RateLimitRefusal, RateLimitUsage, SamplingRateLimiter } from './rate-limiter';
+export { chooseModel, limitReply, messageText, SamplingParams, SamplingProvider } from './sampling-provider';
+export { SCRIPTED_MODEL, ScriptedReply, ScriptedSamplingProvider } from './scripted';
+
+export interface SamplingProviderOptions {
+  provider: 'mock' | 'openai' | 'scripted';
+  // OpenAI-compatible API root
+  url?: string;
+  apiKey?: string;
+  model?: string;
+  // Models a request's modelPreferences hints may pick instead of `model`
+  models?: string[];
+  timeoutMs?: number;
+  // Replies for the scripted provider
+  scriptFile?: string;
+}
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+/**
+ * Create the sampling provider the client was configured with
+ */
+export async function createSamplingProvider(options: SamplingProviderOptions): Promise<SamplingProvider> {
+  switch (options.provider) {
+    case 'openai':
+      return new OpenAiSamplingProvider({
+        baseUrl: options.url,
+        apiKey: options.apiKey,
+        model: options.model ?? DEFAULT_OPENAI_MODEL,
+        models: options.models,
+        timeoutMs: options.timeoutMs ?? DEFAULT_CONFIG.SAMPLING_PROVIDER_TIMEOUT_MS,
+      });
+    case 'scripted':
+      if (!options.scriptFile) {
+        throw new Error('The scripted sampling provider needs a script file');
+      }
+      return ScriptedSamplingProvider.fromFile(options.scriptFile);
+    default:
+      return new MockSamplingProvider();
+  }
+}
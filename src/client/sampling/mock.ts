@@ -0,0 +1,27 @@
+/**
+ * Mock sampling provider: canned encouragement, no model involved
+ */
+
+import { CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
+import { limitReply, messageText, SamplingParams, SamplingProvider } from './sampling-provider';
+
+export const MOCK_MODEL = 'mcp-notify-client-mock';
+
+export class MockSamplingProvider implements SamplingProvider {
+  readonly name = 'mock';
+  private replyCount = 0;
+
+  async createMessage(params: SamplingParams): Promise<CreateMessageResult> {
+    this.replyCount++;
+    const content = params.messages.length > 0 ? messageText(params.messages[0].content) : '';
+    const reply = `✨ Feedback #${this.replyCount}: Looking good! ${content.includes('progress') ? 'Great progress so far!' : 'Keep up the excellent work!'} 🚀`;
+    const { text, stopReason } = limitReply(reply, params);
+
+    return {
+      model: MOCK_MODEL,
+      role: 'assistant',
+      content: { type: 'text', text },
+      stopReason,
+    };
+  }
+}
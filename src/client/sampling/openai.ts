@@ -0,0 +1,113 @@
+/**
+ * OpenAI-compatible sampling provider
+ *
+ * Sends each sampling request to a chat completions endpoint: OpenAI itself or
+ * any local server that speaks the same API (llama.cpp, Ollama, vLLM, LM Studio).
+ */
+
+import { CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { chooseModel, SamplingParams, SamplingProvider } from './sampling-provider';
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export interface OpenAiProviderOptions {
+  // API root, up to but not including /chat/completions
+  baseUrl?: string;
+  // Sent as a bearer token; local servers usually need none
+  apiKey?: string;
+  // Model used unless a model hint matches one of `models`
+  model: string;
+  // Models the server may pick from by hint
+  models?: string[];
+  timeoutMs?: number;
+}
+
+// The parts of a chat completion response we use
+const ChatCompletionSchema = z.object({
+  model: z.string().optional(),
+  choices: z.array(z.object({
+    message: z.object({ content: z.string().nullable() }),
+    finish_reason: z.string().nullable().optional(),
+  })).min(1),
+});
+
+type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }>;
+};
+
+function toChatMessage(message: SamplingParams['messages'][number]): ChatMessage {
+  const { role, content } = message;
+  switch (content.type) {
+    case 'text':
+      return { role, content: content.text };
+    case 'image':
+      return { role, content: [{ type: 'image_url', image_url: { url: `data:${content.mimeType};base64,${content.data}` } }] };
+    default:
+      throw new Error(`The OpenAI sampling provider cannot send ${content.type} content`);
+  }
+}
+
+function toStopReason(finishReason: string | null | undefined): CreateMessageResult['stopReason'] {
+  switch (finishReason) {
+    case 'length':
+      return 'maxTokens';
+    // The API reports the model finishing and hitting a stop sequence alike
+    case 'stop':
+    case null:
+    case undefined:
+      return 'endTurn';
+    default:
+      return finishReason;
+  }
+}
+
+export class OpenAiSamplingProvider implements SamplingProvider {
+  readonly name = 'openai';
+  private baseUrl: string;
+
+  constructor(private options: OpenAiProviderOptions) {
+    this.baseUrl = (options.baseUrl ?? OPENAI_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async createMessage(params: SamplingParams, signal?: AbortSignal): Promise<CreateMessageResult> {
+    const model = chooseModel(params, this.options.models ?? [], this.options.model);
+    const messages: ChatMessage[] = params.messages.map(toChatMessage);
+    if (params.systemPrompt) {
+      messages.unshift({ role: 'system', content: params.systemPrompt });
+    }
+
+    const signals = [signal, this.options.timeoutMs ? AbortSignal.timeout(this.options.timeoutMs) : undefined]
+      .filter((s): s is AbortSignal => s !== undefined);
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        max_tokens: params.maxTokens,
+        ...(params.temperature !== undefined ? { temperature: params.temperature } : {}),
+        ...(params.stopSequences?.length ? { stop: params.stopSequences } : {}),
+      }),
+      signal: signals.length > 0 ? AbortSignal.any(signals) : undefined,
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Sampling provider returned HTTP ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`);
+    }
+
+    const completion = ChatCompletionSchema.parse(await response.json());
+    const [choice] = completion.choices;
+    return {
+      model: completion.model ?? model,
+      role: 'assistant',
+      content: { type: 'text', text: choice.message.content ?? '' },
+      stopReason: toStopReason(choice.finish_reason),
+    };
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Rate limiting for sampling requests
+ *
+ * Protects whatever answers sampling requests, usually a paid model, from a
+ * server that asks too often: at most maxRequests per sliding window, plus caps
+ * on requests and tokens for the whole session.
+ */
+
+import { SamplingRateLimit } from '../../shared/config';
+
+export type RateLimitKind = 'rate' | 'total_requests' | 'total_tokens';
+
+// Why a request was refused, sent back to the server as the error's data
+export interface RateLimitRefusal {
+  limit: RateLimitKind;
+  reason: string;
+  // When a request would next be allowed, for the per-window rate
+  retryAfterMs?: number;
+}
+
+export interface RateLimitUsage {
+  accepted: number;
+  refused: number;
+  // Tokens asked for by accepted requests, counted as each request's maxTokens
+  tokens: number;
+}
+
+export class SamplingRateLimiter {
+  // Times of the accepted requests still inside the window
+  private recent: number[] = [];
+  private accepted = 0;
+  private refused = 0;
+  private tokens = 0;
+
+  constructor(private limit: SamplingRateLimit) {}
+
+  /**
+   * Count a request asking for maxTokens against the limits. Returns why it was
+   * refused, or undefined when it may go ahead.
+   */
+  acquire(maxTokens: number, now: number = Date.now()): RateLimitRefusal | undefined {
+    const refusal = this.check(maxTokens, now);
+    if (refusal) {
+      this.refused++;
+      return refusal;
+    }
+
+    this.recent.push(now);
+    this.accepted++;
+    this.tokens += maxTokens;
+    return undefined;
+  }
+
+  usage(): RateLimitUsage {
+    return { accepted: this.accepted, refused: this.refused, tokens: this.tokens };
+  }
+
+  private check(maxTokens: number, now: number): RateLimitRefusal | undefined {
+    const { maxRequests, windowMs, maxTotalRequests, maxTotalTokens } = this.limit;
+
+    if (maxTotalRequests !== undefined && this.accepted >= maxTotalRequests) {
+      return { limit: 'total_requests', reason: `Sampling limit of ${maxTotalRequests} requests per session reached` };
+    }
+    if (maxTotalTokens !== undefined && this.tokens + maxTokens > maxTotalTokens) {
+      return { limit: 'total_tokens', reason: `Sampling limit of ${maxTotalTokens} tokens per session reached` };
+    }
+
+    this.recent = this.recent.filter(time => now - time < windowMs);
+    if (maxRequests !== undefined && this.recent.length >= maxRequests) {
+      return {
+        limit: 'rate',
+        reason: `Sampling rate limit of ${maxRequests} requests per ${windowMs}ms reached`,
+        retryAfterMs: this.recent[0] + windowMs - now,
+      };
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Sampling providers for the MCP notification client
+ *
+ * A sampling provider answers the server's sampling/createMessage requests. The
+ * client hands it each request's parameters and returns its result unchanged,
+ * so the provider decides the model, the reply and why the reply stopped.
+ */
+
+import { CreateMessageRequest, CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
+
+export type SamplingParams = CreateMessageRequest['params'];
+
+export interface SamplingProvider {
+  // Shown in the client's configuration summary
+  name: string;
+  // Answer one sampling request. The signal aborts when the server cancels it.
+  createMessage(params: SamplingParams, signal?: AbortSignal): Promise<CreateMessageResult>;
+}
+
+/**
+ * Text of a sampling message; servers may send plain strings as well as text content
+ */
+export function messageText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  const text = (content as { text?: unknown } | undefined)?.text;
+  return typeof text === 'string' ? text : '';
+}
+
+/**
+ * Pick the model to report or call: the first model hint one of the available
+ * models contains, else the default. Hints are matched as substrings, as the
+ * MCP specification suggests.
+ */
+export function chooseModel(params: SamplingParams, available: string[], fallback: string): string {
+  for (const hint of params.modelPreferences?.hints ?? []) {
+    const match = hint.name && available.find(model => model.includes(hint.name!));
+    if (match) {
+      return match;
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Cut a locally generated reply the way a model would: at the first stop
+ * sequence, or after maxTokens tokens (counted as whitespace-separated words)
+ */
+export function limitReply(text: string, params: Pick<SamplingParams, 'maxTokens' | 'stopSequences'>): {
+  text: string;
+  stopReason: CreateMessageResult['stopReason'];
+} {
+  let stopAt = -1;
+  for (const sequence of params.stopSequences ?? []) {
+    const index = sequence ? text.indexOf(sequence) : -1;
+    if (index !== -1 && (stopAt === -1 || index < stopAt)) {
+      stopAt = index;
+    }
+  }
+  const stopped = stopAt === -1 ? text : text.slice(0, stopAt);
+
+  const words = stopped.match(/\S+\s*/g) ?? [];
+  if (words.length > params.maxTokens) {
+    return { text: words.slice(0, params.maxTokens).join('').trimEnd(), stopReason: 'maxTokens' };
+  }
+  return { text: stopped.trimEnd(), stopReason: stopAt === -1 ? 'endTurn' : 'stopSequence' };
+}
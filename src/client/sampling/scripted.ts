@@ -0,0 +1,93 @@
+/**
+ * Scripted sampling provider: replays replies from a file
+ *
+ * Makes sampling-driven runs, such as steering a task, repeatable without a
+ * model. The file is a JSON array of replies, used in order and replayed from
+ * the start once all have been used. A reply is a string or an object:
+ *
+ *   [
+ *     "Looking good",
+ *     { "text": "{\"action\":\"skip\",\"steps\":2}", "match": "step 3 of" },
+ *     { "text": "stop", "model": "gpt-4o" }
+ *   ]
+ *
+ * A reply with `match` is only used for a request whose system prompt or
+ * messages contain that text (ignoring case); replies that do not fit are
+ * passed over for that request.
+ */
+
+import { promises as fs } from 'node:fs';
+import { CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { limitReply, messageText, SamplingParams, SamplingProvider } from './sampling-provider';
+
+export const SCRIPTED_MODEL = 'mcp-notify-client-scripted';
+
+export const ScriptedReplySchema = z.union([
+  z.string(),
+  z.object({
+    text: z.string(),
+    // Only use this reply for requests containing this text
+    match: z.string().optional(),
+    // Model to report; by default the first model hint, if any
+    model: z.string().optional(),
+  }),
+]);
+
+export type ScriptedReply = z.infer<typeof ScriptedReplySchema>;
+
+export const ScriptSchema = z.array(ScriptedReplySchema).min(1, 'The script needs at least one reply');
+
+export class ScriptedSamplingProvider implements SamplingProvider {
+  readonly name = 'scripted';
+  private replies: Array<Exclude<ScriptedReply, string>>;
+  // Index of the next reply to consider
+  private next = 0;
+
+  constructor(replies: ScriptedReply[]) {
+    this.replies = ScriptSchema.parse(replies).map(reply => typeof reply === 'string' ? { text: reply } : reply);
+  }
+
+  /**
+   * Load a script file
+   */
+  static async fromFile(file: string): Promise<ScriptedSamplingProvider> {
+    const text = await fs.readFile(file, 'utf8');
+    let replies: unknown;
+    try {
+      replies = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Sampling script ${file} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const parsed = ScriptSchema.safeParse(replies);
+    if (!parsed.success) {
+      throw new Error(`Invalid sampling script ${file}: ${parsed.error.issues.map(issue => issue.message).join('; ')}`);
+    }
+    return new ScriptedSamplingProvider(parsed.data);
+  }
+
+  async createMessage(params: SamplingParams): Promise<CreateMessageResult> {
+    const prompt = [params.systemPrompt ?? '', ...params.messages.map(message => messageText(message.content))]
+      .join('\n')
+      .toLowerCase();
+
+    for (let offset = 0; offset < this.replies.length; offset++) {
+      const index = (this.next + offset) % this.replies.length;
+      const reply = this.replies[index];
+      if (reply.match !== undefined && !prompt.includes(reply.match.toLowerCase())) {
+        continue;
+      }
+
+      this.next = (index + 1) % this.replies.length;
+      const { text, stopReason } = limitReply(reply.text, params);
+      return {
+        model: reply.model ?? params.modelPreferences?.hints?.find(hint => hint.name)?.name ?? SCRIPTED_MODEL,
+        role: 'assistant',
+        content: { type: 'text', text },
+        stopReason,
+      };
+    }
+    throw new Error('No scripted reply matches the sampling request');
+  }
+}
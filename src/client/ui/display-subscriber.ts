@@ -0,0 +1,117 @@
+/**
+ * Console rendering of the client's events
+ *
+ * The display is one subscriber to the client's events among any others: it
+ * prints progress, task events, server log lines, other custom notifications
+ * and connection changes.
+ */
+
+import { CustomNotificationEvent, McpNotifyClientEvents, TypedEventEmitter } from '../events';
+import { Display } from './display';
+
+const SERVER_NAME = 'MCP Notify Server';
+
+/**
+ * Render the client's events on the display. Returns a function that stops.
+ */
+export function subscribeDisplay(display: Display, events: TypedEventEmitter<McpNotifyClientEvents>): () => void {
+  const stops = [
+    events.on('progress', ({ progress, total, message }) => {
+      if (total !== undefined) {
+        display.showProgress(progress, total, message);
+      } else {
+        display.showNotification('info', message || `Progress: ${progress}`, { type: 'progress' });
+      }
+    }),
+
+    events.on('taskEvent', (event) => {
+      display.showNotification(event.level, event.data.message, {
+        type: event.type,
+        timestamp: event.timestamp,
+        taskId: event.taskId,
+      });
+
+      // Count down against the deadline while the task makes progress
+      if (event.data.deadline && (event.type === 'start' || event.type === 'step')) {
+        display.showTimeRemaining(event.data.deadline);
+      }
+    }),
+
+    events.on('log', ({ level, data }) => {
+      const fields = (typeof data === 'object' && data !== null ? data : {}) as {
+        message?: string;
+        timestamp?: string;
+        taskId?: string;
+      };
+
+      display.showNotification(level, fields.message ?? JSON.stringify(data), {
+        type: 'log',
+        timestamp: fields.timestamp,
+        taskId: fields.taskId,
+      });
+    }),
+
+    events.on('notification', (notification) => showCustomNotification(display, notification)),
+
+    events.on('connection', (status) => {
+      switch (status.state) {
+        case 'connected':
+          display.showConnectionStatus(true, SERVER_NAME);
+          break;
+        case 'reconnected':
+          display.showConnectionStatus(status, SERVER_NAME);
+          break;
+        case 'disconnected':
+          display.showConnectionStatus(status.reason ? status : false);
+          break;
+        default:
+          display.showConnectionStatus(status);
+      }
+    }),
+  ];
+
+  return () => stops.forEach(stop => stop());
+}
+
+/**
+ * Show a custom notification other than a task event, wherever its message is
+ */
+function showCustomNotification(display: Display, notification: CustomNotificationEvent): void {
+  const type = notification.method.replace('notifications/', '');
+  const params = notification.params;
+  const timestamp = params.timestamp || new Date().toISOString();
+
+  // Extract message from different possible locations
+  let message = 'No message';
+  let level = 'info';
+  let taskId = undefined;
+  let progressInfo: { current: number; total: number; percentage: number } | undefined = undefined;
+
+  if (params.data) {
+    // Server sends structured data in params.data
+    message = params.data.message || message;
+    taskId = params.data.taskId;
+    level = params.level || 'info';
+
+    // Extract progress information if available
+    if (params.data.step !== undefined && params.data.totalSteps !== undefined) {
+      progressInfo = {
+        current: params.data.step,
+        total: params.data.totalSteps,
+        percentage: Math.round((params.data.step / params.data.totalSteps) * 100)
+      };
+    }
+  } else {
+    // Fallback to direct params
+    message = params.message || message;
+    level = params.level || params.type || 'info';
+    taskId = params.taskId;
+  }
+
+  display.showNotification(level, message, { type, timestamp, taskId });
+
+  // Show progress information if available
+  if (progressInfo) {
+    display.showProgress(progressInfo.current, progressInfo.total, message);
+  }
+}
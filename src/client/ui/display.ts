@@ -3,6 +3,7 @@
  */
 
 import { ExecutionParams } from '../../shared/config';
+import { ConnectionStatus } from '../reconnect';
 
 export class Display {
   private enableColors: boolean;
@@ -24,18 +25,30 @@ export class Display {
   }
 
   /**
-   * Display connection status
+   * Display connection status: connected or not, or a reconnect's progress
    */
-  showConnectionStatus(connected: boolean, serverName?: string): void {
-    const color = connected 
-      ? (this.enableColors ? '\x1b[32m' : '') // Green
-      : (this.enableColors ? '\x1b[31m' : ''); // Red
+  showConnectionStatus(connection: boolean | ConnectionStatus, serverName?: string): void {
+    const state = typeof connection === 'boolean' ? (connection ? 'connected' : 'disconnected') : connection.state;
+    const color = !this.enableColors ? ''
+      : state === 'connected' || state === 'reconnected' ? '\x1b[32m' // Green
+      : state === 'reconnecting' ? '\x1b[33m' // Yellow
+      : '\x1b[31m'; // Red
     const reset = this.enableColors ? '\x1b[0m' : '';
     
-    const status = connected ? 'CONNECTED' : 'DISCONNECTED';
+    const status = state.toUpperCase();
     const serverInfo = serverName ? ` to ${serverName}` : '';
+    let details = '';
+    if (typeof connection !== 'boolean') {
+      if (connection.state === 'reconnecting') {
+        details = ` attempt ${connection.attempt} of ${connection.maxAttempts} in ${connection.delayMs}ms`;
+      } else if (connection.state === 'reconnected') {
+        details = ` after ${connection.attempt} ${connection.attempt === 1 ? 'attempt' : 'attempts'}`;
+      } else if (connection.reason) {
+        details = `: ${connection.reason}`;
+      }
+    }
     
-    console.log(`${color}[${status}]${reset}${serverInfo}\n`);
+    console.log(`${color}[${status}]${reset}${serverInfo}${details}\n`);
   }
 
   /**
@@ -50,6 +63,9 @@ export class Display {
     console.log(`  Notification Interval: ${args.interval}`);
     console.log(`  Delay per Step: ${args.delay}ms`);
     console.log(`  Sampling Enabled: ${args.sampling ? 'Yes' : 'No'}`);
+    if (args.timeoutMs !== undefined) {
+      console.log(`  Timeout: ${args.timeoutMs}ms`);
+    }
     console.log('');
   }
 
@@ -113,6 +129,16 @@ export class Display {
     if (result.samplingRequests !== undefined) {
       console.log(`  ${color}Sampling Requests:${reset} ${result.samplingRequests}`);
     }
+    if (result.samplingUsage && (result.samplingUsage.skipped > 0 || result.samplingUsage.exhausted)) {
+      const { requests, tokens, skipped, exhausted } = result.samplingUsage;
+      console.log(`  ${color}Sampling Budget:${reset} ${requests} requests, ${tokens} tokens, ${skipped} skipped${exhausted ? ` (${exhausted})` : ''}`);
+    }
+    if (result.output && typeof result.output === 'object') {
+      console.log(`  ${color}Output:${reset}`);
+      for (const [key, value] of Object.entries(result.output)) {
+        console.log(`    ${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`);
+      }
+    }
     if (result.error) {
       const errorColor = this.enableColors ? '\x1b[31m' : ''; // Red
       console.log(`  ${errorColor}Error:${reset} ${result.error}`);
@@ -148,11 +174,34 @@ export class Display {
     console.log('  --delay <number>     Delay between steps in ms (default: 1000)');
     console.log('  --sampling <boolean> Enable sampling requests (default: true)');
     console.log('  --verbose <boolean>  Enable verbose output (default: false)');
+    console.log('  --url <url>          Connect to a server in HTTP mode instead of spawning one');
+    console.log('  --log-level <level>  Show server log messages at or above this level (debug|info|warn|error)');
+    console.log('  --timeout <ms>       Time out the task after this many milliseconds of running');
+    console.log('  --confirm-at <steps> Ask for confirmation after these steps, e.g. 2,4');
+    console.log('  --elicitation <policy> Answer confirmations: prompt, auto-accept or auto-decline (default: prompt)');
+    console.log('  --sampling-provider <name> Answer sampling requests with mock, openai or scripted (default: mock)');
+    console.log('  --sampling-url <url>   OpenAI-compatible API root (default: https://api.openai.com/v1); key from OPENAI_API_KEY');
+    console.log('  --sampling-model <name> Model for the openai provider (default: gpt-4o-mini)');
+    console.log('  --sampling-models <list> Comma-separated models the server may pick by hint');
+    console.log('  --sampling-timeout <ms> How long the openai provider waits for a reply (default: 20000, max: 55000)');
+    console.log('  --sampling-script <file> JSON file of replies for the scripted provider');
+    console.log('  --sampling-approval <mode> Review sampling replies before sending them: auto or prompt (default: auto)');
+    console.log('  --sampling-approval-timeout <ms> Time to review a reply (default: 30000, max: 55000, less the time the provider took)');
+    console.log('  --sampling-approval-fallback <policy> Unreviewed replies: approve or reject (default: reject)');
+    console.log('  --sampling-rate-limit <n> Answer at most n sampling requests per minute');
+    console.log('  --sampling-max-requests <n> Answer at most n sampling requests in the session');
+    console.log('  --sampling-max-tokens <n> Answer sampling requests asking for at most n tokens in the session');
+    console.log('  --reconnect-attempts <n> Reconnect attempts after losing the server, 0 to exit (default: 5)');
+    console.log('  --reconnect-delay <ms> Wait before the first attempt, doubled for each one after (default: 500)');
     console.log('  --help               Show this help message\n');
     
     console.log(`${color}Examples:${reset}`);
     console.log('  npm run client -- --steps 20 --interval 2');
     console.log('  npm run client -- --steps 10 --delay 500 --sampling false');
+    console.log('  npm run client -- --url http://127.0.0.1:3000/mcp --steps 5');
+    console.log('  npm run client -- --steps 5 --confirm-at 2 --elicitation auto-accept');
+    console.log('  npm run client -- --steps 5 --sampling-provider openai --sampling-url http://localhost:11434/v1 --sampling-model llama3.2');
+    console.log('  npm run client -- --steps 5 --sampling-approval prompt --sampling-approval-fallback approve');
     console.log('  npm run client -- --help\n');
   }
 
@@ -201,6 +250,18 @@ export class Display {
     }
   }
 
+  /**
+   * Display the time left before a task's deadline
+   */
+  showTimeRemaining(deadline: string, now: number = Date.now()): void {
+    const remainingMs = Math.max(0, Date.parse(deadline) - now);
+    // Yellow, turning red in the last ten seconds
+    const color = this.enableColors ? (remainingMs < 10000 ? '\x1b[31m' : '\x1b[33m') : '';
+    const reset = this.enableColors ? '\x1b[0m' : '';
+
+    console.log(`${color}  Time remaining: ${(remainingMs / 1000).toFixed(1)}s (deadline ${deadline})${reset}`);
+  }
+
   /**
    * Display sampling request information
    */
@@ -238,11 +299,51 @@ export class Display {
       console.log(`${roleColor}  Response (${response.message.role}):${reset} ${response.message.content?.text || response.message.content}`);
     }
     
+    if (response.model) {
+      console.log(`${color}  Model: ${response.model}${response.edited ? ' (edited by the user)' : ''}${reset}`);
+    }
+
     if (response.stopReason) {
       console.log(`${color}  Stop Reason: ${response.stopReason}${reset}`);
     }
   }
 
+  /**
+   * Display a sampling reply that was not sent
+   */
+  showSamplingRejected(reason: string): void {
+    const timestamp = new Date().toISOString().slice(11, 23);
+    const color = this.enableColors ? '\x1b[35m' : ''; // Magenta
+    const reset = this.enableColors ? '\x1b[0m' : '';
+
+    console.log(`${color}[${timestamp}] [SAMPLING REJECTED]${reset} ${reason}`);
+  }
+
+  /**
+   * Display an elicitation request and how it will be answered
+   */
+  showElicitationRequest(message: string, policy: string): void {
+    const timestamp = new Date().toISOString().slice(11, 23);
+    const color = this.enableColors ? '\x1b[35m' : ''; // Magenta
+    const reset = this.enableColors ? '\x1b[0m' : '';
+
+    console.log(`${color}[${timestamp}] [INPUT REQUESTED]${reset} ${message}`);
+    if (policy !== 'prompt') {
+      console.log(`${color}  Answering automatically (${policy})${reset}`);
+    }
+  }
+
+  /**
+   * Display the answer sent for an elicitation request
+   */
+  showElicitationResponse(action: string, content?: Record<string, unknown>): void {
+    const timestamp = new Date().toISOString().slice(11, 23);
+    const color = this.enableColors ? '\x1b[35m' : ''; // Magenta
+    const reset = this.enableColors ? '\x1b[0m' : '';
+
+    console.log(`${color}[${timestamp}] [INPUT ${action.toUpperCase()}]${reset}${content ? ` ${JSON.stringify(content)}` : ''}`);
+  }
+
   /**
    * Get color for log level
    */
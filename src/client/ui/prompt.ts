@@ -0,0 +1,224 @@
+/**
+ * Terminal prompts for elicitation and sampling requests
+ *
+ * For elicitation, asks the user to accept, decline or dismiss a server's
+ * request, then asks for each form field in turn, re-asking until the answer
+ * fits the field. For sampling, asks the user to review the reply before it is
+ * sent.
+ */
+
+import { createInterface } from 'node:readline/promises';
+import { ElicitRequest, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+
+export type RequestedSchema = ElicitRequest['params']['requestedSchema'];
+
+type FieldValue = string | number | boolean;
+
+// The parts of a primitive field definition the prompts use
+export interface FieldSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+export interface PromptOptions {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  // Aborted when the server withdraws the request
+  signal?: AbortSignal;
+}
+
+function fields(schema: RequestedSchema): Array<[string, FieldSchema]> {
+  return Object.entries(schema.properties) as Array<[string, FieldSchema]>;
+}
+
+/**
+ * Fill in a form without asking: each field's default, or else the first
+ * choice, true, the minimum or an empty string
+ */
+export function defaultFormContent(schema: RequestedSchema): Record<string, FieldValue> {
+  const content: Record<string, FieldValue> = {};
+  for (const [name, field] of fields(schema)) {
+    if (field.default !== undefined) {
+      content[name] = field.default as FieldValue;
+    } else if (field.enum) {
+      content[name] = field.enum[0];
+    } else if (field.type === 'boolean') {
+      content[name] = true;
+    } else if (field.type === 'number' || field.type === 'integer') {
+      content[name] = field.minimum ?? 0;
+    } else {
+      content[name] = '';
+    }
+  }
+  return content;
+}
+
+/**
+ * Read a typed answer as a field value; undefined when it does not fit the field
+ */
+export function parseFieldAnswer(field: FieldSchema, answer: string): FieldValue | undefined {
+  const text = answer.trim();
+
+  if (field.enum) {
+    return field.enum.includes(text) ? text : undefined;
+  }
+  switch (field.type) {
+    case 'boolean':
+      if (/^(y|yes|true)$/i.test(text)) return true;
+      if (/^(n|no|false)$/i.test(text)) return false;
+      return undefined;
+    case 'number':
+    case 'integer': {
+      const value = Number(text);
+      if (text === '' || Number.isNaN(value) || (field.type === 'integer' && !Number.isInteger(value))) return undefined;
+      if (field.minimum !== undefined && value < field.minimum) return undefined;
+      if (field.maximum !== undefined && value > field.maximum) return undefined;
+      return value;
+    }
+    default:
+      if (field.minLength !== undefined && text.length < field.minLength) return undefined;
+      if (field.maxLength !== undefined && text.length > field.maxLength) return undefined;
+      return text;
+  }
+}
+
+function describeField(name: string, field: FieldSchema, required: boolean): string {
+  const hint = field.enum
+    ? field.enum.join('/')
+    : field.type === 'boolean' ? 'y/n' : field.type;
+  const defaultText = field.default !== undefined ? `, default ${String(field.default)}` : required ? '' : ', optional';
+  const description = field.description ? ` - ${field.description}` : '';
+  return `${field.title ?? name}${description} (${hint}${defaultText}): `;
+}
+
+/**
+ * Ask for an elicitation response on the terminal. Ctrl+C, the end of input or
+ * the server withdrawing the request dismisses it.
+ */
+export async function promptForInput(message: string, schema: RequestedSchema, options: PromptOptions = {}): Promise<ElicitResult> {
+  const output = options.output ?? process.stdout;
+  const rl = createInterface({ input: options.input ?? process.stdin, output });
+  const dismissed = new Promise<undefined>(resolve => {
+    rl.once('SIGINT', () => resolve(undefined));
+    rl.once('close', () => resolve(undefined));
+    options.signal?.addEventListener('abort', () => resolve(undefined), { once: true });
+  });
+  const ask = (question: string) => Promise.race([rl.question(question), dismissed]);
+
+  try {
+    if (options.signal?.aborted) {
+      return { action: 'cancel' };
+    }
+    output.write(`${message}\n`);
+    const choice = await ask('Respond? [Y]es / [n]o (decline) / [c]ancel: ');
+    if (choice === undefined || /^c/i.test(choice.trim())) {
+      return { action: 'cancel' };
+    }
+    if (/^n/i.test(choice.trim())) {
+      return { action: 'decline' };
+    }
+
+    const required = new Set(schema.required ?? []);
+    const content: Record<string, FieldValue> = {};
+    for (const [name, field] of fields(schema)) {
+      for (;;) {
+        const answer = await ask(describeField(name, field, required.has(name)));
+        if (answer === undefined) {
+          return { action: 'cancel' };
+        }
+
+        // An empty answer takes the default, or leaves an optional field out
+        if (answer.trim() === '') {
+          if (field.default !== undefined) {
+            content[name] = field.default as FieldValue;
+            break;
+          }
+          if (!required.has(name)) break;
+          output.write(`${field.title ?? name} is required\n`);
+          continue;
+        }
+
+        const value = parseFieldAnswer(field, answer);
+        if (value !== undefined) {
+          content[name] = value;
+          break;
+        }
+        output.write(`Invalid value for ${field.title ?? name}\n`);
+      }
+    }
+    return { action: 'accept', content };
+  } finally {
+    rl.close();
+  }
+}
+
+// What the user made of a proposed sampling reply
+export type SamplingReview =
+  | { action: 'approve'; text: string; edited: boolean }
+  | { action: 'reject' };
+
+/**
+ * Ask the user to approve, edit or reject a proposed sampling reply, or to write
+ * their own. Resolves to undefined when Ctrl+C, the end of input or the signal
+ * dismisses the question, so the caller can tell that from a rejection.
+ */
+export async function reviewSamplingReply(proposal: string, options: PromptOptions = {}): Promise<SamplingReview | undefined> {
+  const output = options.output ?? process.stdout;
+  const rl = createInterface({ input: options.input ?? process.stdin, output });
+  const dismissed = new Promise<undefined>(resolve => {
+    rl.once('SIGINT', () => resolve(undefined));
+    rl.once('close', () => resolve(undefined));
+    options.signal?.addEventListener('abort', () => resolve(undefined), { once: true });
+  });
+  const ask = (question: string) => Promise.race([rl.question(question), dismissed]);
+
+  try {
+    if (options.signal?.aborted) {
+      return undefined;
+    }
+    output.write(`Proposed reply: ${proposal}\n`);
+    for (;;) {
+      const choice = await ask('Send it? [A]pprove / [e]dit / [w]rite your own / [r]eject: ');
+      if (choice === undefined) {
+        return undefined;
+      }
+
+      const answer = choice.trim().toLowerCase();
+      if (answer === '' || answer.startsWith('a')) {
+        return { action: 'approve', text: proposal, edited: false };
+      }
+      if (answer.startsWith('r')) {
+        return { action: 'reject' };
+      }
+      if (answer.startsWith('e')) {
+        // On a terminal the proposal is put on the line to edit; elsewhere the
+        // answer replaces it
+        const edit = ask('Reply (empty keeps it): ');
+        if (rl.terminal) rl.write(proposal);
+        const text = await edit;
+        if (text === undefined) return undefined;
+        return text.trim() === ''
+          ? { action: 'approve', text: proposal, edited: false }
+          : { action: 'approve', text: text.trim(), edited: text.trim() !== proposal };
+      }
+      if (answer.startsWith('w')) {
+        for (;;) {
+          const text = await ask('Your reply: ');
+          if (text === undefined) return undefined;
+          if (text.trim() !== '') return { action: 'approve', text: text.trim(), edited: true };
+          output.write('The reply cannot be empty\n');
+        }
+      }
+      output.write(`Unknown choice: ${choice.trim()}\n`);
+    }
+  } finally {
+    rl.close();
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Human-in-the-loop checkpoints
+ *
+ * A checkpoint pauses a task after a given step and asks the user, through MCP
+ * elicitation (elicitation/create), whether to carry on. The form defaults to a
+ * single confirmation; a checkpoint can ask for its own fields instead, and the
+ * SDK validates the user's answer against them.
+ */
+
+import { ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+// The flat object of primitive fields elicitation allows
+export const RequestedSchemaSchema = z.object({
+  type: z.literal("object"),
+  properties: z.record(z.string(), z.looseObject({
+    type: z.enum(["string", "number", "integer", "boolean"]),
+    title: z.string().optional(),
+    description: z.string().optional(),
+  })),
+  required: z.array(z.string()).optional(),
+});
+
+export type RequestedSchema = z.infer<typeof RequestedSchemaSchema>;
+
+export const CheckpointSchema = z.object({
+  afterStep: z.number().int().min(1).describe("Ask once this step completes, before the task continues"),
+  message: z.string().optional().describe("Question shown to the user"),
+  requestedSchema: RequestedSchemaSchema.optional().describe("Form fields to ask for; by default a single \"confirm\" checkbox"),
+});
+
+export type Checkpoint = z.infer<typeof CheckpointSchema>;
+
+// Form used by checkpoints without their own fields
+export const CONFIRM_FORM: RequestedSchema = {
+  type: "object",
+  properties: {
+    confirm: { type: "boolean", title: "Continue", description: "Let the task continue", default: true },
+  },
+  required: ["confirm"],
+};
+
+/**
+ * Whether the task may continue after the user's answer, and why not
+ */
+export function checkpointOutcome(checkpoint: Checkpoint, result: ElicitResult): { proceed: boolean; reason?: string } {
+  if (result.action === "decline") {
+    return { proceed: false, reason: `Declined at the checkpoint after step ${checkpoint.afterStep}` };
+  }
+  if (result.action === "cancel") {
+    return { proceed: false, reason: `Checkpoint after step ${checkpoint.afterStep} was dismissed` };
+  }
+  // With the default form, accepting but leaving "confirm" unticked still means stop
+  if (!checkpoint.requestedSchema && result.content?.confirm !== true) {
+    return { proceed: false, reason: `Not confirmed at the checkpoint after step ${checkpoint.afterStep}` };
+  }
+  return { proceed: true };
+}
@@ -0,0 +1,162 @@
+/**
+ * Server configuration loading
+ *
+ * Settings are resolved from, in increasing order of precedence: the schema
+ * defaults, a JSON config file (--config or MCP_NOTIFY_CONFIG), environment
+ * variables, and CLI flags. The merged result is validated with ServerConfigSchema.
+ */
+
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { ServerConfig, ServerConfigSchema } from "../shared/config";
+import { createLogger, Logger } from "../shared/logger";
+
+type ConfigValueType = "string" | "number" | "boolean";
+
+interface ConfigOption {
+  key: keyof ServerConfig;
+  env: string;
+  flag?: string;
+  type: ConfigValueType;
+}
+
+// Environment variable and CLI flag for each setting
+const CONFIG_OPTIONS: ConfigOption[] = [
+  { key: "name", env: "MCP_NOTIFY_NAME", type: "string" },
+  { key: "version", env: "MCP_NOTIFY_VERSION", type: "string" },
+  { key: "enableLogging", env: "MCP_NOTIFY_ENABLE_LOGGING", type: "boolean" },
+  { key: "logLevel", env: "MCP_NOTIFY_LOG_LEVEL", flag: "--log-level", type: "string" },
+  { key: "logFormat", env: "MCP_NOTIFY_LOG_FORMAT", flag: "--log-format", type: "string" },
+  { key: "logFile", env: "MCP_NOTIFY_LOG_FILE", flag: "--log-file", type: "string" },
+  { key: "transport", env: "MCP_NOTIFY_TRANSPORT", flag: "--transport", type: "string" },
+  { key: "host", env: "MCP_NOTIFY_HOST", flag: "--host", type: "string" },
+  { key: "port", env: "MCP_NOTIFY_PORT", flag: "--port", type: "number" },
+  { key: "taskStoreFile", env: "MCP_NOTIFY_TASK_STORE_FILE", flag: "--task-store-file", type: "string" },
+  { key: "maxSteps", env: "MCP_NOTIFY_MAX_STEPS", flag: "--max-steps", type: "number" },
+  { key: "maxDelayMs", env: "MCP_NOTIFY_MAX_DELAY_MS", flag: "--max-delay-ms", type: "number" },
+  { key: "maxConcurrentTasks", env: "MCP_NOTIFY_MAX_CONCURRENT_TASKS", flag: "--max-concurrent-tasks", type: "number" },
+  { key: "maxQueuedTasks", env: "MCP_NOTIFY_MAX_QUEUED_TASKS", flag: "--max-queued-tasks", type: "number" },
+  { key: "taskRetentionMs", env: "MCP_NOTIFY_TASK_RETENTION_MS", flag: "--task-retention-ms", type: "number" },
+  { key: "taskHistoryLimit", env: "MCP_NOTIFY_TASK_HISTORY_LIMIT", flag: "--task-history-limit", type: "number" },
+  { key: "shutdownGraceMs", env: "MCP_NOTIFY_SHUTDOWN_GRACE_MS", flag: "--shutdown-grace-ms", type: "number" },
+  { key: "taskTimeoutMs", env: "MCP_NOTIFY_TASK_TIMEOUT_MS", flag: "--task-timeout-ms", type: "number" },
+  { key: "allowShellCommands", env: "MCP_NOTIFY_ALLOW_SHELL_COMMANDS", type: "boolean" },
+  { key: "allowHashDirectory", env: "MCP_NOTIFY_ALLOW_HASH_DIRECTORY", type: "boolean" },
+  { key: "hashDirectoryRoot", env: "MCP_NOTIFY_HASH_DIRECTORY_ROOT", flag: "--hash-directory-root", type: "string" },
+];
+
+const CONFIG_FILE_FLAG = "--config";
+const CONFIG_FILE_ENV = "MCP_NOTIFY_CONFIG";
+
+/**
+ * Convert a string from the environment or command line to the setting's type.
+ * Unparseable values are passed through so schema validation reports them.
+ */
+function coerce(value: string, type: ConfigValueType): unknown {
+  switch (type) {
+    case "number":
+      return value.trim() !== "" && !Number.isNaN(Number(value)) ? Number(value) : value;
+    case "boolean":
+      if (value === "true" || value === "1") return true;
+      if (value === "false" || value === "0") return false;
+      return value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Read settings from a JSON config file
+ */
+function readConfigFile(filePath: string): Record<string, unknown> {
+  let contents: string;
+  try {
+    contents = readFileSync(filePath, "utf8");
+  } catch (error) {
+    throw new Error(`Cannot read config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`Invalid JSON in config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Config file ${filePath} must contain a JSON object`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Collect settings from CLI flags, plus the config file path if one was given
+ */
+function parseFlags(argv: string[]): { settings: Record<string, unknown>; configFile?: string } {
+  const settings: Record<string, unknown> = {};
+  let configFile: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === "--http") {
+      settings.transport = "http";
+      continue;
+    }
+
+    const option = CONFIG_OPTIONS.find(candidate => candidate.flag === arg);
+    if (arg !== CONFIG_FILE_FLAG && !option) {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+
+    const value = argv[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+
+    if (option) {
+      settings[option.key] = coerce(value, option.type);
+    } else {
+      configFile = value;
+    }
+  }
+
+  return { settings, configFile };
+}
+
+/**
+ * Resolve and validate the server configuration
+ */
+export function loadServerConfig(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const flags = parseFlags(argv);
+
+  const configFile = flags.configFile ?? env[CONFIG_FILE_ENV];
+  const fromFile = configFile ? readConfigFile(configFile) : {};
+
+  const fromEnv: Record<string, unknown> = {};
+  for (const option of CONFIG_OPTIONS) {
+    const value = env[option.env];
+    if (value !== undefined && value !== "") {
+      fromEnv[option.key] = coerce(value, option.type);
+    }
+  }
+
+  const result = ServerConfigSchema.safeParse({ ...fromFile, ...fromEnv, ...flags.settings });
+  if (!result.success) {
+    throw new Error(`Invalid server configuration:\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Create the server's root logger from its logging settings
+ */
+export function createServerLogger(config: ServerConfig): Logger {
+  return createLogger({
+    name: config.name,
+    level: config.logLevel,
+    format: config.logFormat,
+    file: config.logFile,
+    enabled: config.enableLogging,
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * Fault injection for the demo task
+ *
+ * Lets hosts reproduce failure, timeout and lost-notification paths against a
+ * real server. Every random choice comes from a generator seeded per task, so a
+ * given seed replays the same faults at the same steps and attempts.
+ */
+
+import { z } from "zod";
+import { DEFAULT_CONFIG } from "../shared/constants";
+import { TaskLimits } from "./schemas";
+
+export function faultInjectionSchema(limits: TaskLimits) {
+  return z.object({
+    failAtStep: z.number().int().min(1).optional().describe("Fail every attempt at this step"),
+    failureRate: z.number().min(0).max(1).optional().describe("Probability that any step attempt fails"),
+    seed: z.number().int().optional().describe("Seed for the random choices; without one they differ on every run"),
+    delayRangeMs: z.object({
+      min: z.number().int().min(0).max(limits.maxDelayMs),
+      max: z.number().int().min(0).max(limits.maxDelayMs),
+    }).refine(range => range.min <= range.max, "min must not exceed max").optional().describe("Pick each step's delay at random from this range instead of using delayMs"),
+    hangAtStep: z.number().int().min(1).optional().describe("Never finish this step; only cancellation or a timeout ends the task"),
+    dropNotificationRate: z.number().min(0).max(1).optional().describe("Probability that a completed step sends no progress or step notification"),
+  });
+}
+
+export const FaultInjectionSchema = faultInjectionSchema({
+  maxSteps: DEFAULT_CONFIG.MAX_STEPS,
+  maxDelayMs: DEFAULT_CONFIG.MAX_DELAY_MS,
+});
+
+export type FaultInjection = z.infer<typeof FaultInjectionSchema>;
+
+/**
+ * Thrown by a step the fault injection fails
+ */
+export class InjectedFaultError extends Error {
+  constructor(readonly step: number) {
+    super(`Injected failure at step ${step}`);
+    this.name = "InjectedFaultError";
+  }
+}
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) (mulberry32)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
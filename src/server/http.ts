@@ -0,0 +1,150 @@
+/**
+ * Streamable HTTP transport for the MCP notification server
+ *
+ * Each client session gets its own transport and Server instance, so task
+ * notifications and sampling requests only reach the client that started the task.
+ */
+
+import { randomUUID } from "node:crypto";
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from "node:http";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { HTTP_TRANSPORT, SERVER_INFO } from "../shared/constants";
+import { createLogger, Logger } from "../shared/logger";
+
+export interface HttpServerOptions {
+  port: number;
+  host?: string;
+  createServer: () => Server;
+  logger?: Logger;
+}
+
+export interface RunningHttpServer {
+  httpServer: HttpServer;
+  sessionCount: () => number;
+  close: () => Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw.length > 0 ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Send a JSON-RPC error response outside of any transport
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+/**
+ * Start an HTTP server exposing the MCP endpoint with per-client sessions
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<RunningHttpServer> {
+  const sessions = new Map<string, Session>();
+  const log = options.logger ?? createLogger({ name: SERVER_INFO.NAME });
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+    if (url.pathname !== HTTP_TRANSPORT.PATH) {
+      sendJsonRpcError(res, 404, -32000, `Not found: ${url.pathname}`);
+      return;
+    }
+
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (req.method === "POST") {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch {
+        sendJsonRpcError(res, 400, -32700, "Parse error: invalid JSON");
+        return;
+      }
+
+      if (session) {
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (!sessionId && isInitializeRequest(body)) {
+        const server = options.createServer();
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            sessions.set(id, { transport, server });
+            log.debug("HTTP session opened", { sessionId: id });
+          },
+        });
+
+        transport.onclose = () => {
+          if (transport.sessionId) {
+            sessions.delete(transport.sessionId);
+            log.debug("HTTP session closed", { sessionId: transport.sessionId });
+          }
+        };
+
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+
+      sendJsonRpcError(res, 400, -32000, "Bad Request: no valid session ID provided");
+      return;
+    }
+
+    // GET opens the server-to-client SSE stream, DELETE terminates the session
+    if (!session) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: invalid or missing session ID");
+      return;
+    }
+
+    await session.transport.handleRequest(req, res);
+  };
+
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      log.error("Error handling HTTP request", { method: req.method, url: req.url, error });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host ?? HTTP_TRANSPORT.DEFAULT_HOST, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  return {
+    httpServer,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      for (const { server } of Array.from(sessions.values())) {
+        await server.close();
+      }
+      sessions.clear();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
@@ -2,369 +2,114 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from "@modelcontextprotocol/sdk/types.js";
-import { z } from "zod";
+import { HTTP_TRANSPORT } from "../shared/constants";
+import { Logger } from "../shared/logger";
+import { createServerLogger, loadServerConfig } from "./config";
+import { RunningHttpServer, startHttpServer } from "./http";
+import { createNotifyServer } from "./server";
+import { createTaskKinds } from "./task-kinds";
+import { ShutdownCoordinator } from "./shutdown";
+import { TaskQueue } from "./task-queue";
+import { TaskRegistry } from "./task-registry";
+import { InMemoryTaskStore, JsonlTaskStore, TaskStore } from "./task-store";
+
+// Drains tasks and closes the transports on a signal or transport close
+let coordinator: ShutdownCoordinator | null = null;
+let logger: Logger | null = null;
+
+// Stdio serves a single client; HTTP creates one server per session
+let stdioServer: Server | null = null;
+let httpServer: RunningHttpServer | null = null;
 
-// Tool schemas - following official patterns
-const LongRunningTaskSchema = z.object({
-  steps: z.number().min(1).max(1000).describe("Number of steps to execute"),
-  notificationInterval: z.number().min(1).default(1).describe("Send notification every N steps"),
-  delayMs: z.number().min(100).max(10000).default(1000).describe("Delay between steps in milliseconds"),
-  enableSampling: z.boolean().default(true).describe("Enable sampling requests to client"),
-});
-
-const CancelTaskSchema = z.object({
-  taskId: z.string().describe("ID of the task to cancel"),
-});
-
-// Task management
-interface TaskInfo {
-  cancel: () => void;
-  currentStep: number;
-  totalSteps: number;
-  cancelled: boolean;
-}
-
-const runningTasks = new Map<string, TaskInfo>();
-
-// Server setup - following official pattern
-const server = new Server(
-  {
-    name: "mcp-notify-server",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
+// Server startup - following official pattern
+async function runServer() {
+  // Defaults < config file < environment < CLI flags
+  const config = loadServerConfig();
+  const log = createServerLogger(config);
+  logger = log;
+
+  // A file-backed store lets a restarted server report and resume interrupted tasks
+  const store: TaskStore = config.taskStoreFile ? new JsonlTaskStore(config.taskStoreFile) : new InMemoryTaskStore();
+  const registry = new TaskRegistry(config.taskRetentionMs, store, log, config.taskHistoryLimit);
+
+  // One queue for all clients so the concurrency limit is server-wide
+  const queue = new TaskQueue({ maxConcurrent: config.maxConcurrentTasks, maxQueued: config.maxQueuedTasks });
+
+  coordinator = new ShutdownCoordinator({
+    tasks: registry,
+    queue,
+    gracePeriodMs: config.shutdownGraceMs,
+    logger: log,
+    closeTransports: async () => {
+      if (httpServer) {
+        await httpServer.close();
+      }
+      if (stdioServer) {
+        await stdioServer.close();
+      }
     },
-  }
-);
+  });
 
-// Tool registration - following official pattern
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "start_long_running_task",
-        description: "Starts a long-running task that sends progress notifications and requests user feedback",
-        inputSchema: z.toJSONSchema(LongRunningTaskSchema) as any,
-      },
-      {
-        name: "cancel_task",
-        description: "Cancels a running task",
-        inputSchema: z.toJSONSchema(CancelTaskSchema) as any,
-      },
-    ],
-  };
-});
+  // Shared by every server instance so all clients see the same task tools
+  const taskKinds = createTaskKinds(config);
 
-// Tool execution handler - following official error handling patterns
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  try {
-    const { name, arguments: args } = request.params;
-
-    if (!args) {
-      throw new Error(`No arguments provided for tool: ${name}`);
-    }
+  const interrupted = await registry.recover();
+  if (interrupted.length > 0) {
+    log.info(`Recovered ${interrupted.length} interrupted task(s): ${interrupted.map(task => task.taskId).join(", ")}`);
+  }
 
-    switch (name) {
-      case "start_long_running_task": {
-        const config = LongRunningTaskSchema.parse(args);
-        const taskId = `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-        
-        // Start the long-running task
-        const taskInfo = await startLongRunningTask(taskId, config);
-        runningTasks.set(taskId, taskInfo);
+  if (config.transport === "http") {
+    httpServer = await startHttpServer({
+      port: config.port,
+      host: config.host,
+      createServer: () => createNotifyServer(registry, queue, config, log, taskKinds),
+      logger: log,
+    });
+    log.info(`${config.name} ${config.version} listening on http://${config.host}:${config.port}${HTTP_TRANSPORT.PATH}`);
+    return;
+  }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Started long-running task ${taskId} with ${config.steps} steps`,
-            },
-          ],
-        };
-      }
+  stdioServer = createNotifyServer(registry, queue, config, log, taskKinds);
+  const transport = new StdioServerTransport();
+  await stdioServer.connect(transport);
+  log.info(`${config.name} ${config.version} running on stdio`);
 
-      case "cancel_task": {
-        const { taskId } = CancelTaskSchema.parse(args);
-        const task = runningTasks.get(taskId);
-        
-        if (task) {
-          task.cancel();
-          task.cancelled = true;
-          runningTasks.delete(taskId);
-          
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Cancelled task ${taskId}`,
-              },
-            ],
-          };
-        } else {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Task ${taskId} not found`,
-              },
-            ],
-            isError: true,
-          };
-        }
-      }
+  // The single stdio client going away ends the server too
+  stdioServer.onclose = () => shutdownAndExit("transport closed");
+  process.stdin.once("end", () => shutdownAndExit("stdin closed"));
+}
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
-    }
-  } catch (error) {
-    // Official error handling pattern
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error: ${errorMessage}`,
-        },
-      ],
-      isError: true,
-    };
+// Stop tasks at a step boundary (recording them as interrupted so they can be
+// resumed), then close the transports and exit
+function shutdownAndExit(reason: string): void {
+  if (!coordinator) {
+    process.exit(0);
   }
-});
 
-// Long-running task implementation - improved error handling and cleanup
-async function startLongRunningTask(taskId: string, config: z.infer<typeof LongRunningTaskSchema>): Promise<TaskInfo> {
-  let cancelled = false;
-  let currentStep = 0;
-
-  const taskInfo: TaskInfo = {
-    cancel: () => {
-      cancelled = true;
+  coordinator.shutdown(reason).then(
+    async () => {
+      await logger?.close();
+      process.exit(0);
     },
-    currentStep: 0,
-    totalSteps: config.steps,
-    cancelled: false,
-  };
-
-  const runTask = async () => {
-    try {
-      // Send start notification with proper MCP schema format
-      server.notification({
-        method: "notifications/progress",
-        params: {
-          progressToken: `task-${taskId}-start`, // Required for MCP schema compliance
-          progress: 0, // Required for MCP schema compliance
-          taskId,
-          type: "start",
-          data: {
-            message: `Starting task with ${config.steps} steps`,
-            step: 0,
-            totalSteps: config.steps,
-            taskId,
-          },
-          level: "info",
-          timestamp: new Date().toISOString(),
-        },
-      });
-
-      for (let i = 1; i <= config.steps && !cancelled; i++) {
-        currentStep = i;
-        taskInfo.currentStep = i;
-        
-        // Wait for step delay
-        await new Promise(resolve => setTimeout(resolve, config.delayMs));
-        
-        if (cancelled) break;
-
-        const progress = (i / config.steps) * 100;
-        
-        // Send progress notification using proper MCP pattern
-        // Use the built-in notification method with proper schema
-        try {
-          server.notification({
-            method: "notifications/progress",
-            params: {
-              progressToken: `task-${taskId}-step-${i}`, // Required for MCP schema compliance
-              taskId,
-              type: "progress", 
-              data: {
-                message: `Completed step ${i} of ${config.steps}`,
-                step: i,
-                totalSteps: config.steps,
-                taskId,
-              },
-              level: "info",
-              timestamp: new Date().toISOString(),
-            },
-          });
-        } catch (error) {
-          console.error(`Failed to send progress notification:`, error);
-        }
-
-        // Request sampling/feedback at intervals
-        if (config.enableSampling && i % config.notificationInterval === 0) {
-          try {
-            // Send a sampling request to the client using the built-in createMessage method
-            // This method properly formats the JSON-RPC request
-            const samplingResponse = await server.createMessage({
-              messages: [
-                {
-                  role: "user" as const,
-                  content: {
-                    type: "text" as const,
-                    text: `Please provide feedback on progress so far. We are at step ${i} of ${config.steps} (${progress.toFixed(1)}% complete). How should we proceed?`,
-                  },
-                },
-              ],
-              systemPrompt: "You are a helpful assistant monitoring a long-running task. Provide brief, encouraging feedback.",
-              maxTokens: 100,
-              temperature: 0.7,
-            });
-            
-            // Extract response content properly
-            let responseText = 'No response';
-            if (samplingResponse && samplingResponse.content) {
-              if (samplingResponse.content.type === 'text') {
-                responseText = samplingResponse.content.text;
-              }
-            }
-            
-            // Send a notification with the sampling response
-            server.notification({
-              method: "notifications/sampling_response",
-              params: {
-                progressToken: `task-${taskId}-sampling-${i}`, // Required for MCP schema compliance
-                taskId,
-                type: "sampling_response",
-                data: {
-                  message: `Sampling response received: ${responseText}`,
-                  step: i,
-                  totalSteps: config.steps,
-                  taskId,
-                },
-                level: "info",
-                timestamp: new Date().toISOString(),
-              },
-            });
-          } catch (error) {
-            // If sampling fails (e.g., client doesn't support it), send a notification about it
-            server.notification({
-              method: "notifications/sampling_error",
-              params: {
-                progressToken: `task-${taskId}-error-${i}`, // Required for MCP schema compliance
-                taskId,
-                type: "sampling_error",
-                data: {
-                  message: `Sampling request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-                  step: i,
-                  totalSteps: config.steps,
-                  taskId,
-                },
-                level: "error",
-                timestamp: new Date().toISOString(),
-              },
-            });
-          }
-        }
-      }
-
-      if (!cancelled) {
-        // Send completion notification with proper MCP schema format
-        server.notification({
-          method: "notifications/progress",
-          params: {
-            progressToken: `task-${taskId}-complete`, // Required for MCP schema compliance
-            progress: 100, // Required for MCP schema compliance
-            taskId,
-            type: "completion",
-            data: {
-              message: `Task completed successfully - all ${config.steps} steps finished`,
-              step: config.steps,
-              totalSteps: config.steps,
-              taskId,
-            },
-            level: "info",
-            timestamp: new Date().toISOString(),
-          },
-        });
-      } else {
-        // Send cancellation notification with proper MCP schema format
-        server.notification({
-          method: "notifications/progress",
-          params: {
-            progressToken: `task-${taskId}-cancelled`, // Required for MCP schema compliance
-            progress: (currentStep / config.steps) * 100, // Required for MCP schema compliance
-            taskId,
-            type: "cancelled",
-            data: {
-              message: `Task was cancelled at step ${currentStep}`,
-              step: currentStep,
-              totalSteps: config.steps,
-              taskId,
-            },
-            level: "warning",
-            timestamp: new Date().toISOString(),
-          },
-        });
-      }
-    } catch (error) {
-      // Send error notification with proper MCP schema format
-      server.notification({
-        method: "notifications/progress",
-        params: {
-          progressToken: `task-${taskId}-error`, // Required for MCP schema compliance
-          progress: (currentStep / config.steps) * 100, // Required for MCP schema compliance
-          taskId,
-          type: "error",
-          data: {
-            message: `Task failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            step: currentStep,
-            totalSteps: config.steps,
-            taskId,
-          },
-          level: "error",
-          timestamp: new Date().toISOString(),
-        },
-      });
-    } finally {
-      // Cleanup - following official patterns
-      runningTasks.delete(taskId);
+    async (error) => {
+      logger?.error("Error during shutdown", { error });
+      await logger?.close();
+      process.exit(1);
     }
-  };
-
-  // Start the task asynchronously
-  runTask();
-
-  return taskInfo;
+  );
 }
 
-// Server startup - following official pattern
-async function runServer() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("MCP notification server running on stdio");
-}
-
-// Cleanup on exit - following official patterns
-const cleanup = async () => {
-  console.error("Cleaning up running tasks...");
-  for (const [, task] of runningTasks.entries()) {
-    task.cancel();
-    task.cancelled = true;
+const handleSignal = (signal: NodeJS.Signals) => {
+  // A second signal skips the grace period
+  if (coordinator?.shuttingDown) {
+    logger?.warn(`Received ${signal} during shutdown; exiting immediately`);
+    process.exit(1);
   }
-  runningTasks.clear();
+  shutdownAndExit(signal);
 };
 
-process.on("SIGINT", async () => {
-  await cleanup();
-  await server.close();
-  process.exit(0);
-});
+process.on("SIGINT", handleSignal);
+process.on("SIGTERM", handleSignal);
 
 // Main execution - following official pattern
 runServer().catch((error) => {
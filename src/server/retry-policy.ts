@@ -0,0 +1,79 @@
+/**
+ * Retry policies for failing task steps
+ *
+ * A step that throws is run again, up to the policy's maxAttempts, after a fixed
+ * or exponentially growing delay. Jitter spreads out the retries of tasks that
+ * failed together. Errors the policy does not consider retryable fail the task
+ * straight away.
+ */
+
+import { z } from "zod";
+
+export const RetryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).default(1).describe("Attempts per step, including the first; 1 disables retries"),
+  backoff: z.enum(["fixed", "exponential"]).default("exponential").describe("\"fixed\" waits delayMs between attempts; \"exponential\" doubles the wait after each failed attempt"),
+  delayMs: z.number().int().min(0).max(60000).default(1000).describe("Wait before the first retry in milliseconds"),
+  maxDelayMs: z.number().int().min(0).default(30000).describe("Upper bound on the wait between attempts in milliseconds"),
+  jitter: z.boolean().default(true).describe("Randomise each wait to between half and all of its length"),
+  retryOn: z.array(z.string().min(1)).optional().describe("Only retry errors whose message contains one of these strings; by default every error is retried"),
+});
+
+export type RetryPolicy = z.infer<typeof RetryPolicySchema>;
+
+// Policy for tasks started without one: a failing step fails the task
+export const NO_RETRY: RetryPolicy = RetryPolicySchema.parse({});
+
+export interface StepAttempt {
+  attempt: number;
+  error: string;
+  // Wait before the next attempt, if there was one
+  delayMs?: number;
+}
+
+/**
+ * Thrown by a task kind for step errors that running the step again cannot fix
+ */
+export class NonRetryableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NonRetryableError";
+  }
+}
+
+/**
+ * Thrown when a step has failed for good; the message lists every attempt
+ */
+export class StepFailedError extends Error {
+  constructor(
+    readonly step: number,
+    readonly attempts: StepAttempt[]
+  ) {
+    super(
+      attempts.length === 1
+        ? attempts[0].error
+        : `Step ${step} failed after ${attempts.length} attempts (${attempts.map(a => `attempt ${a.attempt}: ${a.error}`).join("; ")})`
+    );
+    this.name = "StepFailedError";
+  }
+}
+
+export function isRetryable(policy: RetryPolicy, error: unknown): boolean {
+  if (error instanceof NonRetryableError) {
+    return false;
+  }
+  if (!policy.retryOn) {
+    return true;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return policy.retryOn.some(pattern => message.includes(pattern));
+}
+
+/**
+ * Wait in milliseconds after the given failed attempt (1-based)
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const base = policy.backoff === "fixed" ? policy.delayMs : policy.delayMs * 2 ** (attempt - 1);
+  const delay = Math.min(base, policy.maxDelayMs);
+  return policy.jitter ? Math.round(delay * (0.5 + random() / 2)) : delay;
+}
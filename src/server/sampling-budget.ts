@@ -0,0 +1,49 @@
+/**
+ * Sampling budgets for tasks
+ *
+ * A task asks its client for feedback every notificationInterval steps, which
+ * for a long task adds up to many model calls. A budget caps the number of
+ * requests and the tokens they may ask for, and spaces requests out; sampling
+ * points the budget does not allow are skipped and counted.
+ */
+
+import { z } from "zod";
+import { SamplingUsage } from "../shared/types";
+
+export const SamplingBudgetSchema = z.object({
+  maxRequests: z.number().int().min(0).optional().describe("Most sampling requests the task may send"),
+  maxTokens: z.number().int().min(1).optional().describe("Most tokens the task's sampling requests may ask for together, counted as each request's maxTokens"),
+  minIntervalMs: z.number().int().min(0).optional().describe("Shortest time between two sampling requests; sampling points that come sooner are skipped"),
+});
+
+export type SamplingBudget = z.infer<typeof SamplingBudgetSchema>;
+
+export type BudgetCheck =
+  | { allowed: true }
+  // exhausted: no later request can be allowed either
+  | { allowed: false; reason: string; exhausted: boolean };
+
+/**
+ * Whether a sampling request asking for maxTokens fits the budget, given the
+ * usage so far and the time since the last request
+ */
+export function checkSamplingBudget(
+  budget: SamplingBudget | undefined,
+  usage: SamplingUsage,
+  request: { maxTokens: number; sinceLastRequestMs?: number }
+): BudgetCheck {
+  if (budget?.maxRequests !== undefined && usage.requests >= budget.maxRequests) {
+    return { allowed: false, reason: `Sampling budget of ${budget.maxRequests} requests used up`, exhausted: true };
+  }
+  if (budget?.maxTokens !== undefined && usage.tokens + request.maxTokens > budget.maxTokens) {
+    return { allowed: false, reason: `Sampling budget of ${budget.maxTokens} tokens used up`, exhausted: true };
+  }
+  if (
+    budget?.minIntervalMs !== undefined &&
+    request.sinceLastRequestMs !== undefined &&
+    request.sinceLastRequestMs < budget.minIntervalMs
+  ) {
+    return { allowed: false, reason: `Less than ${budget.minIntervalMs}ms since the last sampling request`, exhausted: false };
+  }
+  return { allowed: true };
+}
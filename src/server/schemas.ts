@@ -0,0 +1,87 @@
+/**
+ * Tool input schemas for the MCP notification server
+ */
+
+import { z } from "zod";
+import { DEFAULT_CONFIG } from "../shared/constants";
+import { CheckpointSchema } from "./checkpoints";
+import { faultInjectionSchema } from "./fault-injection";
+import { RetryPolicySchema } from "./retry-policy";
+import { SamplingBudgetSchema } from "./sampling-budget";
+import { SteeringModeSchema } from "./steering";
+
+// Operator-configurable bounds for start_long_running_task
+export interface TaskLimits {
+  maxSteps: number;
+  maxDelayMs: number;
+}
+
+// Options accepted by every task kind alongside its own parameters
+export const TaskOptionsSchema = z.object({
+  notificationInterval: z.number().min(1).default(1).describe("Send notification every N steps"),
+  enableSampling: z.boolean().default(true).describe("Enable sampling requests to client"),
+  mode: z.enum(["background", "await"]).default("background").describe("\"background\" returns immediately; \"await\" keeps the call open until the task finishes and returns its execution result"),
+  priority: z.number().int().min(0).max(10).default(0).describe("Queue priority when the server is at its concurrency limit; higher runs first"),
+  timeoutMs: z.number().int().min(1).optional().describe("Maximum running time in milliseconds, counted from when the task starts running; the task times out once it is exceeded"),
+  deadline: z.iso.datetime({ offset: true }).optional().describe("Absolute time (ISO 8601) by which the task must finish, whether queued or running"),
+  steering: SteeringModeSchema.default("structured").describe("Which sampling replies steer the task: \"off\", \"structured\" (JSON directives) or \"keywords\" (JSON directives and leading keywords such as \"pause\" or \"skip 2\")"),
+  checkpoints: z.array(CheckpointSchema).optional().describe("Steps after which the user is asked, through elicitation, to confirm before the task continues"),
+  samplingBudget: SamplingBudgetSchema.optional().describe("Limits on the task's sampling requests; sampling points beyond them are skipped"),
+  retry: RetryPolicySchema.optional().describe("Retry policy for failing steps; without one a failing step fails the task"),
+});
+
+export type TaskOptions = z.infer<typeof TaskOptionsSchema>;
+
+// Resolved parameters of a task of any kind, as stored with the task. Tasks
+// recorded before task kinds existed have no kind and are demo tasks.
+export type TaskConfig = TaskOptions & { kind?: string } & Record<string, unknown>;
+
+export const DEMO_TASK_KIND = "demo";
+
+// Tool schemas - following official patterns
+export function longRunningTaskSchema(limits: TaskLimits) {
+  return z.object({
+    steps: z.number().min(1).max(limits.maxSteps).describe("Number of steps to execute"),
+    delayMs: z.number().min(DEFAULT_CONFIG.MIN_DELAY_MS).max(limits.maxDelayMs).default(Math.min(DEFAULT_CONFIG.DELAY_MS, limits.maxDelayMs)).describe("Delay between steps in milliseconds"),
+    faults: faultInjectionSchema(limits).optional().describe("Inject failures, random delays, hangs and dropped notifications, for testing hosts"),
+    ...TaskOptionsSchema.shape,
+  });
+}
+
+export const LongRunningTaskSchema = longRunningTaskSchema({
+  maxSteps: DEFAULT_CONFIG.MAX_STEPS,
+  maxDelayMs: DEFAULT_CONFIG.MAX_DELAY_MS,
+});
+
+export type LongRunningTaskConfig = z.infer<typeof LongRunningTaskSchema>;
+
+export const CancelTaskSchema = z.object({
+  taskId: z.string().describe("ID of the task to cancel"),
+});
+
+export const PauseTaskSchema = z.object({
+  taskId: z.string().describe("ID of the running task to pause"),
+});
+
+export const ResumeTaskSchema = z.object({
+  taskId: z.string().describe("ID of the paused task to resume"),
+});
+
+export const GetTaskStatusSchema = z.object({
+  taskId: z.string().describe("ID of the task to query"),
+});
+
+export const GetTaskEventsSchema = z.object({
+  taskId: z.string().describe("ID of the task whose events to return"),
+  afterSeq: z.number().int().min(0).default(0).describe("Only return events with a higher sequence number; 0 returns every event still kept"),
+  limit: z.number().int().min(1).optional().describe("Return at most this many events, oldest first"),
+});
+
+export const ListTasksSchema = z.object({
+  state: z.enum(["queued", "running", "paused", "completed", "cancelled", "failed", "timed_out", "interrupted"]).optional().describe("Only list tasks in this state"),
+});
+
+export const ResumeInterruptedTaskSchema = z.object({
+  taskId: z.string().describe("ID of an interrupted task to resume from its last completed step"),
+  mode: z.enum(["background", "await"]).optional().describe("Overrides the execution mode the task was started with"),
+});
@@ -0,0 +1,1170 @@
+/**
+ * MCP notification server implementation
+ *
+ * Request handlers and the long-running task runner. Tool schemas live in
+ * schemas.ts and transports are wired up in index.ts.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ElicitRequest,
+  ElicitResult,
+  ListToolsRequestSchema,
+  LoggingLevel,
+  LoggingLevelSchema,
+  Notification,
+  ProgressToken,
+  SetLevelRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { setTimeout as sleep } from "node:timers/promises";
+import { z } from "zod";
+import { ServerConfig, ServerConfigSchema } from "../shared/config";
+import { DEFAULT_CONFIG, NOTIFICATION_METHODS } from "../shared/constants";
+import { Logger, LogLevel, LogRecord, toMcpLogLevel } from "../shared/logger";
+import { SamplingUsage, SteeringDecision, TaskEventsResult, TaskHistoryEntry, SteeringSource, TaskEventLevel, TaskEventType, ToolExecutionResult } from "../shared/types";
+import { createServerLogger } from "./config";
+import {
+  CancelTaskSchema,
+  DEMO_TASK_KIND,
+  GetTaskEventsSchema,
+  GetTaskStatusSchema,
+  ListTasksSchema,
+  PauseTaskSchema,
+  ResumeInterruptedTaskSchema,
+  ResumeTaskSchema,
+  TaskConfig,
+  TaskLimits,
+} from "./schemas";
+import { Checkpoint, checkpointOutcome, CONFIRM_FORM } from "./checkpoints";
+import { isRetryable, NO_RETRY, retryDelay, StepAttempt, StepFailedError } from "./retry-policy";
+import { checkSamplingBudget } from "./sampling-budget";
+import { parseSteeringResponse, STEERING_INSTRUCTIONS, SteeringDirective } from "./steering";
+import { createTaskKinds, StepResult, TaskKindRegistry, TaskPlan } from "./task-kinds";
+import { TaskQueue, TaskQueueFullError } from "./task-queue";
+import { isTerminalState, TaskInfo, TaskRegistry, totalPausedMs, toTaskStatus } from "./task-registry";
+import { registerTaskPrompts } from "./task-prompts";
+import { registerTaskResources } from "./task-resources";
+
+/**
+ * Create an MCP server instance with the task tools registered: one tool per task kind
+ * plus the task management tools. Every connected client gets its own instance; the
+ * task registry, queue, root logger and task kinds are shared.
+ */
+export function createNotifyServer(
+  tasks: TaskRegistry,
+  queue: TaskQueue = new TaskQueue(),
+  serverConfig: ServerConfig = ServerConfigSchema.parse({}),
+  logger: Logger = createServerLogger(serverConfig),
+  taskKinds: TaskKindRegistry = createTaskKinds(serverConfig)
+): Server {
+  // Server setup - following official pattern
+  const server = new Server(
+    {
+      name: serverConfig.name,
+      version: serverConfig.version,
+    },
+    {
+      capabilities: {
+        tools: {},
+        logging: {},
+        // Tasks are published as task:// resources
+        resources: { subscribe: true, listChanged: true },
+        // Prompts for explaining task runs
+        prompts: {},
+      },
+    }
+  );
+
+  // Logs from this session's tasks also go to its client, but only once the
+  // client has asked for them with logging/setLevel
+  const log = logger.child({});
+  let clientLogLevel: LoggingLevel | undefined;
+
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    clientLogLevel = request.params.level;
+    log.debug(`Client set log level to ${clientLogLevel}`);
+    return {};
+  });
+
+  log.addSink({
+    write: (record) => {
+      if (clientLogLevel && isForwarded(record, clientLogLevel)) {
+        server.sendLoggingMessage(toLoggingMessage(record)).catch(() => {
+          // The client is gone; the root logger still has the record
+        });
+      }
+    },
+  });
+
+  // Status snapshot including the task's place in the wait queue
+  const taskStatus = (task: TaskInfo) => ({
+    ...toTaskStatus(task),
+    queuePosition: queue.position(task.taskId),
+  });
+
+  registerTaskResources(server, tasks, taskStatus, log);
+  registerTaskPrompts(server, tasks, taskStatus);
+
+  // Tool registration - following official pattern
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: [
+        // Step and delay bounds in the task kinds' schemas come from the server config
+        ...taskKinds.list().map(kind => ({
+          name: kind.toolName,
+          description: kind.description,
+          inputSchema: z.toJSONSchema(kind.schema(serverConfig)) as any,
+        })),
+        {
+          name: "cancel_task",
+          description: "Cancels a running task",
+          inputSchema: z.toJSONSchema(CancelTaskSchema) as any,
+        },
+        {
+          name: "pause_task",
+          description: "Pauses a running task between steps",
+          inputSchema: z.toJSONSchema(PauseTaskSchema) as any,
+        },
+        {
+          name: "resume_task",
+          description: "Resumes a paused task",
+          inputSchema: z.toJSONSchema(ResumeTaskSchema) as any,
+        },
+        {
+          name: "get_task_status",
+          description: "Returns state, progress, timing and notification counts for a task",
+          inputSchema: z.toJSONSchema(GetTaskStatusSchema) as any,
+        },
+        {
+          name: "get_task_events",
+          description: "Returns the notifications sent for a task after a sequence number, to catch up after reconnecting",
+          inputSchema: z.toJSONSchema(GetTaskEventsSchema) as any,
+        },
+        {
+          name: "list_tasks",
+          description: "Lists running tasks and recently finished tasks still in the retention window",
+          inputSchema: z.toJSONSchema(ListTasksSchema) as any,
+        },
+        {
+          name: "resume_interrupted_task",
+          description: "Resumes a task interrupted by a server restart from its last completed step",
+          inputSchema: z.toJSONSchema(ResumeInterruptedTaskSchema) as any,
+        },
+      ],
+    };
+  });
+
+  // Tool execution handler - following official error handling patterns
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    try {
+      const { name, arguments: args } = request.params;
+
+      if (!args && name !== "list_tasks") {
+        throw new Error(`No arguments provided for tool: ${name}`);
+      }
+
+      // Tools that start a task of some kind
+      const kind = taskKinds.forTool(name);
+      if (kind) {
+        const config: TaskConfig = { ...kind.schema(serverConfig).parse(args), kind: kind.kind };
+        // Tasks without their own timeout get the server-wide default
+        config.timeoutMs ??= serverConfig.taskTimeoutMs;
+        if (deadlinePassed(config)) {
+          return toolError(`Deadline ${config.deadline} has already passed`);
+        }
+        if (config.checkpoints?.length && !server.getClientCapabilities()?.elicitation) {
+          return toolError("Checkpoints need a client that supports elicitation");
+        }
+
+        const plan = await kind.prepare(config);
+        const taskId = `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        const withSteps = plan.totalSteps !== undefined ? ` with ${plan.totalSteps} steps` : "";
+
+        // Start (or queue) the task, reporting progress against the caller's token
+        const { taskInfo, completion, queuePosition } = startTask(server, log, tasks, queue, taskId, config, plan, {
+          progressToken: request.params._meta?.progressToken,
+          limits: serverConfig,
+          signal: extra.signal,
+        });
+
+        return await taskStartResult(
+          taskInfo,
+          completion,
+          queuePosition > 0
+            ? `Queued long-running task ${taskId}${withSteps} at position ${queuePosition}`
+            : `Started long-running task ${taskId}${withSteps}`
+        );
+      }
+
+      switch (name) {
+        case "resume_interrupted_task": {
+          const { taskId, mode } = ResumeInterruptedTaskSchema.parse(args);
+          const task = tasks.get(taskId);
+
+          if (!task || task.state !== "interrupted") {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: task ? `Task ${taskId} is ${task.state}; only interrupted tasks can be resumed` : `Task ${taskId} not found`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          const taskKind = taskKinds.get(task.config.kind ?? DEMO_TASK_KIND);
+          if (!taskKind) {
+            return toolError(`Cannot resume task ${taskId}: task kind ${task.config.kind} is not available`);
+          }
+          if (!taskKind.resumable) {
+            return toolError(`Cannot resume task ${taskId}: ${taskKind.kind} tasks cannot be resumed`);
+          }
+
+          // Pick up after the last completed step, keeping the original task ID
+          const config = { ...task.config, mode: mode ?? task.config.mode };
+          if (deadlinePassed(config)) {
+            return toolError(`Cannot resume task ${taskId}: its deadline ${config.deadline} has already passed`);
+          }
+          if (config.checkpoints?.length && !server.getClientCapabilities()?.elicitation) {
+            return toolError(`Cannot resume task ${taskId}: its checkpoints need a client that supports elicitation`);
+          }
+
+          // The stored parameters are checked against the kind's schema again, which
+          // also narrows them to the kind's own
+          const params = taskKind.schema(serverConfig).parse(config);
+
+          // Claim the task before the first await, so a concurrent resume finds it
+          // no longer interrupted; give it back if it cannot be prepared or queued
+          task.state = "queued";
+          let started: ReturnType<typeof startTask>;
+          try {
+            const plan = await taskKind.prepare(params);
+            started = startTask(server, log, tasks, queue, taskId, config, plan, {
+              progressToken: request.params._meta?.progressToken,
+              completedSteps: task.completedSteps,
+              decisions: task.decisions,
+              samplingUsage: task.samplingUsage,
+              history: task.history,
+              lastSeq: task.lastSeq,
+              limits: serverConfig,
+              signal: extra.signal,
+            });
+          } catch (error) {
+            task.state = "interrupted";
+            throw error;
+          }
+          const { taskInfo, completion, queuePosition } = started;
+
+          const resumeAt = stepLabel(task.completedSteps + 1, taskInfo.totalSteps);
+          return await taskStartResult(
+            taskInfo,
+            completion,
+            queuePosition > 0
+              ? `Queued task ${taskId} to resume at ${resumeAt}, position ${queuePosition}`
+              : `Resumed task ${taskId} at ${resumeAt}`
+          );
+        }
+
+        case "cancel_task": {
+          const { taskId } = CancelTaskSchema.parse(args);
+          const task = tasks.get(taskId);
+        
+          if (task && isTerminalState(task.state)) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Task ${taskId} already ${task.state}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          if (task) {
+            task.cancel();
+            task.cancelled = true;
+          
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Cancelled task ${taskId}`,
+                },
+              ],
+            };
+          } else {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Task ${taskId} not found`,
+                },
+              ],
+              isError: true,
+            };
+          }
+        }
+
+        case "pause_task": {
+          const { taskId } = PauseTaskSchema.parse(args);
+          const task = tasks.get(taskId);
+
+          if (!task) {
+            return toolError(`Task ${taskId} not found`);
+          }
+          if (task.state !== "running" || task.cancelled) {
+            return toolError(`Cannot pause task ${taskId}: task is ${task.cancelled ? "cancelled" : task.state}`);
+          }
+
+          task.pause();
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Paused task ${taskId} at ${stepLabel(task.currentStep, task.totalSteps)}`,
+              },
+            ],
+          };
+        }
+
+        case "resume_task": {
+          const { taskId } = ResumeTaskSchema.parse(args);
+          const task = tasks.get(taskId);
+
+          if (!task) {
+            return toolError(`Task ${taskId} not found`);
+          }
+          if (task.state === "interrupted") {
+            return toolError(`Cannot resume task ${taskId}: task was interrupted by a server restart, use resume_interrupted_task`);
+          }
+          if (task.state !== "paused") {
+            return toolError(`Cannot resume task ${taskId}: task is ${task.state}, not paused`);
+          }
+
+          task.resume();
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Resumed task ${taskId}`,
+              },
+            ],
+          };
+        }
+
+        case "get_task_status": {
+          const { taskId } = GetTaskStatusSchema.parse(args);
+          const task = tasks.get(taskId);
+
+          if (!task) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Task ${taskId} not found`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          const status = taskStatus(task);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(status, null, 2),
+              },
+            ],
+            structuredContent: { ...status },
+          };
+        }
+
+        case "get_task_events": {
+          const { taskId, afterSeq, limit } = GetTaskEventsSchema.parse(args);
+          const task = tasks.get(taskId);
+
+          if (!task) {
+            return toolError(`Task ${taskId} not found`);
+          }
+
+          const { events, missed } = tasks.eventsAfter(task, afterSeq, limit);
+          const result: TaskEventsResult = { taskId, state: task.state, lastSeq: task.lastSeq, missed, events };
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+            structuredContent: { ...result },
+          };
+        }
+
+        case "list_tasks": {
+          const { state } = ListTasksSchema.parse(args ?? {});
+          const statuses = tasks.list(state).map(task => taskStatus(task));
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(statuses, null, 2),
+              },
+            ],
+            structuredContent: { tasks: statuses },
+          };
+        }
+
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      if (error instanceof TaskQueueFullError) {
+        return queueFullResult(error);
+      }
+
+      // Official error handling pattern
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+
+  return server;
+}
+
+// Whether a record meets the level the client asked for
+function isForwarded(record: LogRecord, clientLevel: LoggingLevel): boolean {
+  const severities = LoggingLevelSchema.options;
+  return severities.indexOf(toMcpLogLevel(record.level)) >= severities.indexOf(clientLevel);
+}
+
+// notifications/message params for a log record
+function toLoggingMessage(record: LogRecord): { level: LoggingLevel; logger: string; data: unknown } {
+  const context: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record.context)) {
+    context[key] = value instanceof Error ? value.message : value;
+  }
+
+  return {
+    level: toMcpLogLevel(record.level),
+    logger: record.logger,
+    data: { message: record.message, timestamp: record.timestamp, ...context },
+  };
+}
+
+/**
+ * What a steering decision asks the task to do, e.g. "skip 2 step(s)"
+ */
+function describeDecision(decision: SteeringDecision): string {
+  switch (decision.action) {
+    case "cancel":
+      return decision.reason ? `cancel (${decision.reason})` : "cancel";
+    case "skip":
+      return `skip ${decision.steps} step(s)`;
+    case "set_delay":
+      return `set the step delay to ${decision.delayMs}ms`;
+    default:
+      return decision.action;
+  }
+}
+
+// Whether a task's absolute deadline is already behind us
+function deadlinePassed(config: TaskConfig): boolean {
+  return config.deadline !== undefined && Date.parse(config.deadline) <= Date.now();
+}
+
+// Tool error result for an invalid request against a known tool
+function toolError(text: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+    ],
+    isError: true,
+  };
+}
+
+// Structured error result for a task rejected because the wait queue is full
+function queueFullResult(error: TaskQueueFullError): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error: ${error.message}`,
+      },
+    ],
+    structuredContent: {
+      error: {
+        code: error.code,
+        message: error.message,
+        running: error.running,
+        maxConcurrent: error.maxConcurrent,
+        queued: error.queued,
+        maxQueued: error.maxQueued,
+      },
+    },
+    isError: true,
+  };
+}
+
+// Build the tools/call result for a started task: the execution result in
+// await mode, otherwise an immediate acknowledgement
+async function taskStartResult(
+  taskInfo: TaskInfo,
+  completion: Promise<ToolExecutionResult>,
+  startedText: string
+): Promise<CallToolResult> {
+  if (taskInfo.config.mode !== "await") {
+    // Progress may only reference an open request: once this call has responded,
+    // the task reports through its task events and resource notifications alone
+    taskInfo.progressToken = undefined;
+    return {
+      content: [
+        {
+          type: "text",
+          text: startedText,
+        },
+      ],
+    };
+  }
+
+  const result = await completion;
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+    structuredContent: { ...result },
+    isError: taskInfo.state === "failed",
+  };
+}
+
+// Send a task notification and record it in the task's history for status queries
+// and resource subscribers
+function sendTaskNotification(server: Server, log: Logger, tasks: TaskRegistry, taskInfo: TaskInfo, notification: Notification): void {
+  const params = (notification.params ?? {}) as {
+    type?: string;
+    level?: string;
+    message?: string;
+    data?: { message?: string; step?: number };
+    progress?: number;
+    total?: number;
+    timestamp?: string;
+  };
+
+  taskInfo.notificationsSent++;
+  const { seq } = tasks.recordNotification(taskInfo, {
+    method: notification.method,
+    type: params.type ?? notification.method.replace("notifications/", ""),
+    level: params.level,
+    message: params.data?.message ?? params.message ?? "",
+    step: params.data?.step ?? params.progress,
+    timestamp: params.timestamp ?? new Date().toISOString(),
+    data: params.data ?? { progress: params.progress, total: params.total },
+  });
+
+  // Progress is a spec notification, so its sequence number travels in _meta
+  const sequenced = notification.method === "notifications/progress"
+    ? { ...notification, params: { ...notification.params, _meta: { ...notification.params?._meta, taskId: taskInfo.taskId, seq } } }
+    : { ...notification, params: { ...notification.params, seq } };
+  server.notification(sequenced).catch((error) => {
+    log.warn(`Failed to send ${notification.method} notification`, { error });
+  });
+}
+
+// Send a spec-compliant progress notification tied to the caller's progressToken,
+// while the tools/call that started the task is still open (await mode).
+// Progress is the number of completed steps and must increase with every notification.
+function sendProgress(server: Server, log: Logger, tasks: TaskRegistry, taskInfo: TaskInfo, progress: number, message: string): void {
+  if (taskInfo.progressToken === undefined || progress <= taskInfo.lastProgress) {
+    return;
+  }
+
+  taskInfo.lastProgress = progress;
+  sendTaskNotification(server, log, tasks, taskInfo, {
+    method: "notifications/progress",
+    params: {
+      progressToken: taskInfo.progressToken,
+      progress,
+      total: taskInfo.totalSteps,
+      message,
+    },
+  });
+}
+
+// Send a custom task event carrying type, level and step data, and log it.
+// Per-step events are logged at debug so info-level logs stay readable.
+function sendTaskEvent(
+  server: Server,
+  log: Logger,
+  tasks: TaskRegistry,
+  taskInfo: TaskInfo,
+  type: TaskEventType,
+  level: TaskEventLevel,
+  message: string,
+  step: number = taskInfo.currentStep,
+  details: Record<string, unknown> = {}
+): void {
+  const logLevel: LogLevel = type === "step" ? "debug" : level === "warning" ? "warn" : level;
+  log.log(logLevel, message, { step, event: type });
+
+  sendTaskNotification(server, log, tasks, taskInfo, {
+    method: NOTIFICATION_METHODS.TASK_EVENT,
+    params: {
+      taskId: taskInfo.taskId,
+      type,
+      data: {
+        message,
+        step,
+        totalSteps: taskInfo.totalSteps,
+        taskId: taskInfo.taskId,
+        deadline: taskInfo.deadlineAt !== undefined ? new Date(taskInfo.deadlineAt).toISOString() : undefined,
+        ...details,
+      },
+      level,
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+// Task runner - improved error handling and cleanup.
+// Runs a task kind's plan step by step. Returns the task record immediately along
+// with a promise for its execution result and its queue position (0 if it started
+// straight away). A resumed task passes the number of steps it had already completed.
+// Aborting the signal of the originating tools/call (the client sent
+// notifications/cancelled for it) cancels the task. A task that reaches its
+// deadline, or runs longer than its timeoutMs, is stopped mid-step and finishes as
+// timed_out. A failing step is retried as the task's retry policy allows, and
+// sampling replies can steer the task.
+// Throws TaskQueueFullError, without registering the task, when the queue is full.
+function startTask(
+  server: Server,
+  sessionLog: Logger,
+  tasks: TaskRegistry,
+  queue: TaskQueue,
+  taskId: string,
+  config: TaskConfig,
+  plan: TaskPlan,
+  options: { progressToken?: ProgressToken; completedSteps?: number; decisions?: SteeringDecision[]; samplingUsage?: SamplingUsage; history?: TaskHistoryEntry[]; lastSeq?: number; limits?: TaskLimits; signal?: AbortSignal } = {}
+): { taskInfo: TaskInfo; completion: Promise<ToolExecutionResult>; queuePosition: number } {
+  const log = sessionLog.child({ taskId });
+  const resumedFrom = options.completedSteps ?? 0;
+  const totalSteps = plan.totalSteps;
+  let queued = false;
+  let cancelled = false;
+  let timedOut = false;
+  let deadlineTimer: NodeJS.Timeout | undefined;
+  // Set when the server shuts down: stop at the next step boundary
+  let stopping = false;
+  let failed = false;
+  // Set once the plan has no more steps
+  let finished = totalSteps !== undefined && resumedFrom >= totalSteps;
+  let currentStep = resumedFrom;
+  let errorMessage: string | undefined;
+  // Reason given with notifications/cancelled, if any
+  let cancelReason: string | undefined;
+  // When this run last sent a sampling request, for the budget's minimum interval
+  let lastSamplingAt: number | undefined;
+  // Resolves the step loop's wait while the task is paused
+  let wakeStepLoop: (() => void) | null = null;
+  // Aborts the step in progress
+  const stepAbort = new AbortController();
+
+  const wake = () => {
+    wakeStepLoop?.();
+    wakeStepLoop = null;
+  };
+
+  // Send the terminal shutdown event and record the task as interrupted so a
+  // durable store can resume it after a restart
+  const stopForShutdown = () => {
+    if (isTerminalState(taskInfo.state)) return;
+
+    errorMessage = `Server shut down after ${stepLabel(taskInfo.completedSteps, totalSteps)}`;
+    sendTaskEvent(server, log, tasks, taskInfo, "server_shutdown", "warning", errorMessage, taskInfo.completedSteps);
+    tasks.finish(taskId, "interrupted");
+  };
+
+  // Report the timeout right away and stop the runner without waiting for its step
+  const timeOut = () => {
+    if (cancelled || isTerminalState(taskInfo.state)) return;
+
+    timedOut = true;
+    cancelled = true;
+    stepAbort.abort();
+    errorMessage = config.deadline !== undefined && taskInfo.deadlineAt === Date.parse(config.deadline)
+      ? `Task missed its deadline of ${config.deadline} at ${stepLabel(taskInfo.currentStep, totalSteps)}`
+      : `Task timed out after ${config.timeoutMs}ms at ${stepLabel(taskInfo.currentStep, totalSteps)}`;
+    sendTaskEvent(server, log, tasks, taskInfo, "timed_out", "error", errorMessage, taskInfo.completedSteps);
+    // Hand the run slot (or queue place) on without waiting for the step to end
+    queue.release(taskId);
+    tasks.finish(taskId, "timed_out");
+    wake();
+  };
+
+  // (Re)arm the timer for the earlier of the deadline and, once running, the timeout
+  const armDeadline = (runningSince?: number) => {
+    const limits = [
+      config.deadline !== undefined ? Date.parse(config.deadline) : undefined,
+      runningSince !== undefined && config.timeoutMs !== undefined ? runningSince + config.timeoutMs : undefined,
+    ].filter((limit): limit is number => limit !== undefined);
+    if (limits.length === 0) return;
+
+    taskInfo.deadlineAt = Math.min(...limits);
+    clearTimeout(deadlineTimer);
+    deadlineTimer = setTimeout(timeOut, Math.max(0, taskInfo.deadlineAt - Date.now()));
+  };
+
+  const taskInfo: TaskInfo = {
+    taskId,
+    config,
+    cancel: () => {
+      cancelled = true;
+      stepAbort.abort();
+      if (queued) {
+        queue.release(taskId);
+      }
+      wake();
+    },
+    pause: () => {
+      taskInfo.state = "paused";
+      taskInfo.pausedAt = Date.now();
+      tasks.checkpoint(taskInfo);
+      sendTaskEvent(server, log, tasks, taskInfo, "paused", "info", `Task paused at ${stepLabel(taskInfo.currentStep, totalSteps)}`);
+    },
+    resume: () => {
+      taskInfo.pausedMs += Date.now() - (taskInfo.pausedAt ?? Date.now());
+      taskInfo.pausedAt = undefined;
+      taskInfo.state = "running";
+      tasks.checkpoint(taskInfo);
+      sendTaskEvent(server, log, tasks, taskInfo, "resumed", "info", `Task resumed after ${stepLabel(taskInfo.completedSteps, totalSteps)}`, taskInfo.completedSteps);
+      wake();
+    },
+    interrupt: (force = false) => {
+      stopping = true;
+      wake();
+      if (force) {
+        // The runner is stuck mid-step; report the shutdown without waiting for it
+        cancelled = true;
+        stepAbort.abort();
+        stopForShutdown();
+        return Promise.resolve();
+      }
+      return completion.then(() => undefined);
+    },
+    currentStep: resumedFrom,
+    completedSteps: resumedFrom,
+    totalSteps,
+    cancelled: false,
+    state: "queued",
+    startedAt: Date.now(),
+    pausedMs: 0,
+    notificationsSent: 0,
+    samplingRequests: 0,
+    samplingUsage: options.samplingUsage ?? { requests: 0, tokens: 0, skipped: 0 },
+    history: options.history ?? [],
+    lastSeq: options.lastSeq ?? 0,
+    progressToken: options.progressToken,
+    lastProgress: -1,
+    decisions: options.decisions ?? [],
+  };
+
+  // Called by the queue once the task holds a run slot
+  const start = () => {
+    taskInfo.state = "running";
+    taskInfo.startedAt = Date.now();
+    armDeadline(taskInfo.startedAt);
+    if (queued) {
+      queued = false;
+      tasks.checkpoint(taskInfo);
+      wake();
+    }
+  };
+
+  // The client cancelled the tools/call request that started this task
+  const cancelFromRequest = () => {
+    if (isTerminalState(taskInfo.state)) return;
+
+    const reason = options.signal?.reason;
+    cancelReason = typeof reason === "string" ? reason : undefined;
+    log.info("Client cancelled the originating tools/call request", { reason: cancelReason });
+    taskInfo.cancel();
+    taskInfo.cancelled = true;
+  };
+
+  const queuePosition = queue.submit(taskId, start, config.priority);
+  queued = queuePosition > 0;
+  if (queued) {
+    armDeadline();
+  }
+  tasks.add(taskInfo);
+  options.signal?.addEventListener("abort", cancelFromRequest, { once: true });
+
+  if (queued) {
+    sendTaskEvent(
+      server,
+      log,
+      tasks,
+      taskInfo,
+      "queued",
+      "info",
+      `Task queued at position ${queuePosition} (${queue.runningCount} of ${queue.maxConcurrent} slots in use)`,
+      resumedFrom
+    );
+  }
+
+  // Run one step, retrying it as the task's retry policy allows. Resolves to
+  // undefined once the task is cancelled; throws StepFailedError when out of attempts.
+  const retry = config.retry ?? NO_RETRY;
+  const runStep = async (step: number): Promise<StepResult | undefined> => {
+    const attempts: StepAttempt[] = [];
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await plan.step(step, { signal: stepAbort.signal, log: log.child({ step }) });
+      } catch (error) {
+        // An aborted step is how cancellation reaches the kind
+        if (cancelled) return undefined;
+
+        const message = error instanceof Error ? error.message : String(error);
+        if (attempt >= retry.maxAttempts || !isRetryable(retry, error)) {
+          attempts.push({ attempt, error: message });
+          throw new StepFailedError(step, attempts);
+        }
+
+        const delayMs = retryDelay(retry, attempt);
+        attempts.push({ attempt, error: message, delayMs });
+        sendTaskEvent(
+          server,
+          log,
+          tasks,
+          taskInfo,
+          "retrying",
+          "warning",
+          `Step ${step} failed on attempt ${attempt} of ${retry.maxAttempts}, retrying in ${delayMs}ms: ${message}`,
+          step,
+          { attempt, maxAttempts: retry.maxAttempts, retryDelayMs: delayMs, error: message }
+        );
+
+        // Cancellation and timeouts cut the wait short
+        await sleep(delayMs, undefined, { signal: stepAbort.signal }).catch(() => undefined);
+        if (cancelled) return undefined;
+      }
+    }
+  };
+
+  // Act on a steering directive from the sampling reply after the given step,
+  // recording the decision and notifying the client. Returns the step the loop
+  // continues after, which is further on when steps are skipped.
+  const steer = (step: number, directive: SteeringDirective, source: SteeringSource): number => {
+    const decision: SteeringDecision = { step, action: directive.action, source, applied: true, decidedAt: new Date().toISOString() };
+    if (directive.action === "cancel") {
+      decision.reason = directive.reason;
+    } else if (directive.action === "skip") {
+      decision.steps = totalSteps !== undefined ? Math.min(directive.steps, totalSteps - step) : directive.steps;
+    } else if (directive.action === "set_delay") {
+      decision.delayMs = directive.delayMs;
+    }
+
+    // Directives the task cannot act on are still recorded
+    if (directive.action === "pause" && taskInfo.state !== "running") {
+      decision.note = `task is already ${taskInfo.state}`;
+    } else if (directive.action === "skip" && totalSteps === undefined) {
+      decision.note = "the task's step count is unknown";
+    } else if (directive.action === "skip" && decision.steps === 0) {
+      decision.note = "no steps are left";
+    } else if (directive.action === "set_delay" && !plan.setDelay) {
+      decision.note = "the task has no step delay";
+    }
+    decision.applied = decision.note === undefined;
+
+    taskInfo.decisions.push(decision);
+    tasks.checkpoint(taskInfo);
+    const description = describeDecision(decision);
+    sendTaskEvent(
+      server,
+      log,
+      tasks,
+      taskInfo,
+      "steered",
+      decision.applied ? "info" : "warning",
+      decision.applied
+        ? `Sampling response steered the task to ${description}`
+        : `Ignored sampling response asking to ${description}: ${decision.note}`,
+      step,
+      { decision }
+    );
+    if (!decision.applied) return step;
+
+    switch (directive.action) {
+      case "pause":
+        taskInfo.pause();
+        break;
+      case "cancel":
+        cancelReason = directive.reason ?? "Cancelled by sampling response";
+        taskInfo.cancel();
+        taskInfo.cancelled = true;
+        break;
+      case "skip": {
+        // Skipped steps count as done, so a resumed task does not run them either
+        const skippedTo = step + decision.steps!;
+        taskInfo.currentStep = skippedTo;
+        taskInfo.completedSteps = skippedTo;
+        finished = skippedTo >= totalSteps!;
+        tasks.checkpoint(taskInfo);
+        sendProgress(server, log, tasks, taskInfo, skippedTo, `Skipped to ${stepLabel(skippedTo, totalSteps)}`);
+        return skippedTo;
+      }
+      case "set_delay":
+        plan.setDelay!(directive.delayMs);
+        break;
+    }
+    return step;
+  };
+
+  // Ask the user, through elicitation, whether to continue past a checkpoint. A
+  // refusal cancels the task; failing to ask, or an answer that does not fit the
+  // form, fails it.
+  const askCheckpoint = async (checkpoint: Checkpoint): Promise<void> => {
+    const step = checkpoint.afterStep;
+    sendTaskEvent(server, log, tasks, taskInfo, "input_requested", "info", `Waiting for confirmation after ${stepLabel(step, totalSteps)}`, step, {
+      checkpoint: { afterStep: step },
+    });
+
+    let result: ElicitResult;
+    try {
+      result = await server.elicitInput(
+        {
+          message: checkpoint.message ?? `Task ${taskId} has completed ${stepLabel(step, totalSteps)}. Continue?`,
+          requestedSchema: (checkpoint.requestedSchema ?? CONFIRM_FORM) as ElicitRequest["params"]["requestedSchema"],
+        },
+        // The user may take a while; cancelling or timing out the task withdraws the question
+        { signal: stepAbort.signal, timeout: DEFAULT_CONFIG.ELICITATION_TIMEOUT_MS }
+      );
+    } catch (error) {
+      if (cancelled) return;
+      throw new Error(`Checkpoint after step ${step} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const outcome = checkpointOutcome(checkpoint, result);
+    sendTaskEvent(
+      server,
+      log,
+      tasks,
+      taskInfo,
+      "input_received",
+      outcome.proceed ? "info" : "warning",
+      outcome.reason ?? `Confirmed at the checkpoint after step ${step}`,
+      step,
+      { checkpoint: { afterStep: step, action: result.action, content: result.content } }
+    );
+    if (!outcome.proceed && !cancelled) {
+      cancelReason = outcome.reason;
+      taskInfo.cancel();
+      taskInfo.cancelled = true;
+    }
+  };
+
+  const runTask = async (): Promise<ToolExecutionResult> => {
+    try {
+      // Wait for a run slot; cancelling or shutdown also wakes the wait
+      if (queued) {
+        await new Promise<void>(resolve => {
+          wakeStepLoop = resolve;
+        });
+      }
+
+      if (!cancelled && !stopping) {
+        const startMessage = resumedFrom > 0
+          ? `Resuming task at ${stepLabel(resumedFrom + 1, totalSteps)}`
+          : totalSteps !== undefined ? `Starting task with ${totalSteps} steps` : "Starting task";
+        sendProgress(server, log, tasks, taskInfo, resumedFrom, startMessage);
+        sendTaskEvent(server, log, tasks, taskInfo, "start", "info", startMessage, resumedFrom);
+      }
+
+      for (let i = resumedFrom + 1; !finished && !cancelled && !stopping; i++) {
+        // Hold between steps while paused; cancelling or shutdown also wakes the loop
+        if (taskInfo.state === "paused") {
+          await new Promise<void>(resolve => {
+            wakeStepLoop = resolve;
+          });
+          if (cancelled || stopping) break;
+        }
+
+        currentStep = i;
+        taskInfo.currentStep = i;
+
+        const result = await runStep(i);
+        if (!result || cancelled) break;
+
+        taskInfo.completedSteps = i;
+        finished = result.done === true || (totalSteps !== undefined && i >= totalSteps);
+        tasks.checkpoint(taskInfo);
+
+        try {
+          if (!result.silent) {
+            sendProgress(server, log, tasks, taskInfo, i, result.message);
+            sendTaskEvent(server, log, tasks, taskInfo, "step", "info", result.message);
+          }
+        } catch (error) {
+          log.warn("Failed to send progress notification", { step: i, error });
+        }
+
+        // Request sampling/feedback at intervals, as far as the sampling budget allows
+        const samplingDue = config.enableSampling && !stopping && i % config.notificationInterval === 0;
+        const budgetCheck = samplingDue
+          ? checkSamplingBudget(config.samplingBudget, taskInfo.samplingUsage, {
+              maxTokens: DEFAULT_CONFIG.SAMPLING_MAX_TOKENS,
+              sinceLastRequestMs: lastSamplingAt !== undefined ? Date.now() - lastSamplingAt : undefined,
+            })
+          : undefined;
+        if (budgetCheck && !budgetCheck.allowed) {
+          const usage = taskInfo.samplingUsage;
+          usage.skipped++;
+          if (budgetCheck.exhausted && usage.exhausted === undefined) {
+            usage.exhausted = budgetCheck.reason;
+            sendTaskEvent(server, log, tasks, taskInfo, "sampling_budget_exhausted", "warning", `${budgetCheck.reason}; no more sampling for this task`, i, {
+              samplingUsage: { ...usage },
+            });
+          } else {
+            log.debug("Sampling skipped", { step: i, reason: budgetCheck.reason });
+          }
+          tasks.checkpoint(taskInfo);
+        } else if (budgetCheck) {
+          const steering = config.steering ?? "structured";
+          const progress = totalSteps ? ` (${((i / totalSteps) * 100).toFixed(1)}% complete)` : "";
+          try {
+            // Send a sampling request to the client using the built-in createMessage method
+            // This method properly formats the JSON-RPC request
+            taskInfo.samplingRequests++;
+            taskInfo.samplingUsage.requests++;
+            taskInfo.samplingUsage.tokens += DEFAULT_CONFIG.SAMPLING_MAX_TOKENS;
+            lastSamplingAt = Date.now();
+            const question = `Please provide feedback on progress so far. We are at ${stepLabel(i, totalSteps)}${progress}. How should we proceed?`;
+            const samplingResponse = await server.createMessage({
+              messages: [
+                {
+                  role: "user" as const,
+                  content: {
+                    type: "text" as const,
+                    text: `${question}${steering !== "off" ? ` ${STEERING_INSTRUCTIONS}` : ""}`,
+                  },
+                },
+              ],
+              systemPrompt: "You are a helpful assistant monitoring a long-running task. Provide brief, encouraging feedback.",
+              maxTokens: DEFAULT_CONFIG.SAMPLING_MAX_TOKENS,
+              temperature: 0.7,
+            }, { timeout: DEFAULT_CONFIG.SAMPLING_REQUEST_TIMEOUT_MS });
+            
+            // Extract response content properly
+            let responseText = 'No response';
+            if (samplingResponse && samplingResponse.content) {
+              if (samplingResponse.content.type === 'text') {
+                responseText = samplingResponse.content.text;
+              }
+            }
+            
+            sendTaskEvent(server, log, tasks, taskInfo, "sampling_response", "info", `Sampling response received: ${responseText}`, i, {
+              sampling: { question, response: responseText, model: samplingResponse.model },
+            });
+
+            // The reply may steer the task, unless it has been stopped in the meantime
+            const directive = parseSteeringResponse(responseText, steering, options.limits);
+            if (directive && !cancelled && !stopping) {
+              i = steer(i, directive.directive, directive.source);
+            }
+          } catch (error) {
+            // If sampling fails (e.g., client doesn't support it), send a notification about it
+            sendTaskEvent(
+              server,
+              log,
+              tasks,
+              taskInfo,
+              "sampling_error",
+              "error",
+              `Sampling request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              i
+            );
+          }
+        }
+
+        // Hold at a checkpoint until the user confirms
+        const checkpoint = config.checkpoints?.find(checkpoint => checkpoint.afterStep === i);
+        if (checkpoint && !finished && !cancelled && !stopping) {
+          await askCheckpoint(checkpoint);
+        }
+      }
+
+      if (timedOut) {
+        // Already reported when the deadline passed
+      } else if (!cancelled && (!stopping || finished)) {
+        const completionMessage = totalSteps !== undefined
+          ? `Task completed successfully - all ${totalSteps} steps finished`
+          : `Task completed successfully after ${taskInfo.completedSteps} steps`;
+        sendTaskEvent(server, log, tasks, taskInfo, "completion", "info", completionMessage, taskInfo.completedSteps);
+      } else if (stopping) {
+        stopForShutdown();
+      } else {
+        errorMessage = queued
+          ? "Task was cancelled while queued"
+          : `Task was cancelled at step ${currentStep}`;
+        if (cancelReason) {
+          errorMessage += `: ${cancelReason}`;
+        }
+        sendTaskEvent(server, log, tasks, taskInfo, "cancelled", "warning", errorMessage, currentStep);
+      }
+    } catch (error) {
+      failed = true;
+      errorMessage = `Task failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      sendTaskEvent(server, log, tasks, taskInfo, "error", "error", errorMessage, currentStep);
+    } finally {
+      // Free the run slot for the next queued task and keep this one
+      // queryable until its retention window expires
+      queue.release(taskId);
+      clearTimeout(deadlineTimer);
+      options.signal?.removeEventListener("abort", cancelFromRequest);
+      await plan.cleanup?.().catch((error) => {
+        log.warn("Task cleanup failed", { error });
+      });
+      tasks.finish(taskId, failed ? "failed" : timedOut ? "timed_out" : cancelled ? "cancelled" : "completed");
+    }
+
+    return {
+      success: taskInfo.state === "completed",
+      totalSteps: totalSteps ?? (taskInfo.state === "completed" ? taskInfo.completedSteps : undefined),
+      completedSteps: taskInfo.completedSteps,
+      executionTimeMs: (taskInfo.finishedAt ?? Date.now()) - taskInfo.startedAt - totalPausedMs(taskInfo),
+      notificationsSent: taskInfo.notificationsSent,
+      samplingRequests: taskInfo.samplingRequests,
+      samplingUsage: { ...taskInfo.samplingUsage },
+      error: errorMessage,
+      output: plan.output?.(),
+    };
+  };
+
+  // Start the task asynchronously
+  const completion = runTask();
+
+  return { taskInfo, completion, queuePosition };
+}
+
+// "step 3 of 10", or "step 3" when the step count is not known up front
+function stepLabel(step: number, totalSteps?: number): string {
+  return totalSteps !== undefined ? `step ${step} of ${totalSteps}` : `step ${step}`;
+}
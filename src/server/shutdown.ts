@@ -0,0 +1,78 @@
+/**
+ * Graceful shutdown for the MCP notification server
+ *
+ * On a signal or transport close the coordinator stops accepting tasks, asks
+ * every unfinished task to stop at its next step boundary, waits up to a grace
+ * period, and only then flushes the task store and closes the transports. Each
+ * task ends with a "server_shutdown" event and is recorded as interrupted.
+ */
+
+import { DEFAULT_CONFIG, SERVER_INFO } from "../shared/constants";
+import { createLogger, Logger } from "../shared/logger";
+import { TaskQueue } from "./task-queue";
+import { TaskRegistry } from "./task-registry";
+
+export interface ShutdownCoordinatorOptions {
+  tasks: TaskRegistry;
+  queue: TaskQueue;
+  gracePeriodMs?: number;
+  // Close the server(s) once every task has been stopped
+  closeTransports: () => Promise<void>;
+  logger?: Logger;
+}
+
+export class ShutdownCoordinator {
+  private tasks: TaskRegistry;
+  private queue: TaskQueue;
+  private gracePeriodMs: number;
+  private closeTransports: () => Promise<void>;
+  private log: Logger;
+  private shutdownPromise: Promise<void> | null = null;
+
+  constructor(options: ShutdownCoordinatorOptions) {
+    this.tasks = options.tasks;
+    this.queue = options.queue;
+    this.gracePeriodMs = options.gracePeriodMs ?? DEFAULT_CONFIG.SHUTDOWN_GRACE_MS;
+    this.closeTransports = options.closeTransports;
+    this.log = options.logger ?? createLogger({ name: SERVER_INFO.NAME });
+  }
+
+  get shuttingDown(): boolean {
+    return this.shutdownPromise !== null;
+  }
+
+  /**
+   * Shut down once; later calls return the shutdown already in progress
+   */
+  shutdown(reason: string): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.run(reason);
+    }
+    return this.shutdownPromise;
+  }
+
+  private async run(reason: string): Promise<void> {
+    this.queue.close();
+
+    const active = this.tasks.active();
+    this.log.info(`Shutting down (${reason}): waiting up to ${this.gracePeriodMs}ms for ${active.length} task(s) to stop`);
+
+    let timer: NodeJS.Timeout | undefined;
+    const stopped = await Promise.race([
+      Promise.all(active.map(task => task.interrupt())).then(() => true),
+      new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), this.gracePeriodMs);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    if (!stopped) {
+      const stuck = this.tasks.active();
+      this.log.warn(`Grace period expired; interrupting ${stuck.length} task(s) mid-step`);
+      await Promise.all(stuck.map(task => task.interrupt(true)));
+    }
+
+    await this.tasks.close();
+    await this.closeTransports();
+  }
+}
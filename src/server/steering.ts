@@ -0,0 +1,98 @@
+/**
+ * Sampling-driven task steering
+ *
+ * The reply to a task's sampling request can tell the task what to do next:
+ * continue, pause, cancel, skip ahead or change the delay of its remaining
+ * steps. Replies are read as a JSON directive and, if the task allows it, as a
+ * leading keyword. Anything else is treated as plain feedback.
+ */
+
+import { z } from "zod";
+import { DEFAULT_CONFIG } from "../shared/constants";
+import { SteeringSource } from "../shared/types";
+import { TaskLimits } from "./schemas";
+
+// A set_delay directive is held to the same bound as the delayMs a task starts with
+export function steeringDirectiveSchema(limits: Pick<TaskLimits, "maxDelayMs">) {
+  return z.discriminatedUnion("action", [
+    z.object({ action: z.literal("continue") }),
+    z.object({ action: z.literal("pause") }),
+    z.object({ action: z.literal("cancel"), reason: z.string().optional() }),
+    z.object({ action: z.literal("skip"), steps: z.number().int().min(1).default(1) }),
+    z.object({
+      action: z.literal("set_delay"),
+      delayMs: z.number().int().min(DEFAULT_CONFIG.MIN_DELAY_MS).max(limits.maxDelayMs),
+    }),
+  ]);
+}
+
+export const SteeringDirectiveSchema = steeringDirectiveSchema({ maxDelayMs: DEFAULT_CONFIG.MAX_DELAY_MS });
+
+export type SteeringDirective = z.infer<typeof SteeringDirectiveSchema>;
+
+// Which replies steer a task: none, JSON directives only, or leading keywords too
+export const SteeringModeSchema = z.enum(["off", "structured", "keywords"]);
+
+export type SteeringMode = z.infer<typeof SteeringModeSchema>;
+
+// Appended to the sampling prompt so the model knows how to steer
+export const STEERING_INSTRUCTIONS =
+  'To steer the task, reply with a JSON object such as {"action":"continue"}, {"action":"pause"}, ' +
+  '{"action":"cancel","reason":"..."}, {"action":"skip","steps":2} or {"action":"set_delay","delayMs":500}.';
+
+// Keywords must start the reply, so feedback that merely mentions them does not steer
+const KEYWORDS: Array<[RegExp, (match: RegExpMatchArray) => unknown]> = [
+  [/^(?:continue|proceed|go on)\b/, () => ({ action: "continue" })],
+  [/^pause\b/, () => ({ action: "pause" })],
+  [/^(?:cancel|stop|abort)\b/, () => ({ action: "cancel" })],
+  [/^skip(?: ahead)?(?: (\d+)(?: steps?)?)?\b/, match => ({ action: "skip", steps: match[1] !== undefined ? Number(match[1]) : 1 })],
+  [/^(?:set )?delay(?: to)? (\d+) ?ms\b/, match => ({ action: "set_delay", delayMs: Number(match[1]) })],
+];
+
+/**
+ * Read a steering directive from a sampling reply, if it contains one
+ */
+export function parseSteeringResponse(
+  text: string,
+  mode: SteeringMode,
+  limits: Pick<TaskLimits, "maxDelayMs"> = { maxDelayMs: DEFAULT_CONFIG.MAX_DELAY_MS }
+): { directive: SteeringDirective; source: SteeringSource } | undefined {
+  if (mode === "off") {
+    return undefined;
+  }
+
+  const schema = steeringDirectiveSchema(limits);
+  const structured = parseJsonDirective(text, schema);
+  if (structured) {
+    return { directive: structured, source: "structured" };
+  }
+  if (mode !== "keywords") {
+    return undefined;
+  }
+
+  const reply = text.trim().toLowerCase();
+  for (const [pattern, toDirective] of KEYWORDS) {
+    const match = reply.match(pattern);
+    if (match) {
+      const parsed = schema.safeParse(toDirective(match));
+      return parsed.success ? { directive: parsed.data, source: "keyword" } : undefined;
+    }
+  }
+  return undefined;
+}
+
+// The whole reply, or a fenced code block in it, as a JSON directive
+function parseJsonDirective(text: string, schema: typeof SteeringDirectiveSchema): SteeringDirective | undefined {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+  if (!candidate.startsWith("{")) {
+    return undefined;
+  }
+
+  try {
+    const parsed = schema.safeParse(JSON.parse(candidate));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
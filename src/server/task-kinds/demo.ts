@@ -0,0 +1,58 @@
+/**
+ * Demo task kind: sleep for delayMs per step
+ *
+ * Optional fault injection makes steps fail, hang, take random time or go
+ * unreported, so hosts can exercise their error and timeout handling.
+ */
+
+import { once } from "node:events";
+import { setTimeout as sleep } from "node:timers/promises";
+import { InjectedFaultError, seededRandom } from "../fault-injection";
+import { DEMO_TASK_KIND, LongRunningTaskConfig, longRunningTaskSchema } from "../schemas";
+import { TaskKind } from "./task-kind";
+
+export const demoTaskKind: TaskKind<LongRunningTaskConfig> = {
+  kind: DEMO_TASK_KIND,
+  toolName: "start_long_running_task",
+  description: "Starts a long-running task that sends progress notifications and requests user feedback",
+  resumable: true,
+  schema: longRunningTaskSchema,
+
+  async prepare(params) {
+    const faults = params.faults;
+    const random = faults?.seed !== undefined ? seededRandom(faults.seed) : Math.random;
+    let delayRange = faults?.delayRangeMs;
+
+    return {
+      totalSteps: params.steps,
+      async step(step, { signal, log }) {
+        if (faults?.hangAtStep === step) {
+          log.debug("Injected hang");
+          await once(signal, "abort");
+          signal.throwIfAborted();
+        }
+
+        // Random choices are made in a fixed order so a seed replays the same run
+        const delayMs = delayRange
+          ? delayRange.min + Math.floor(random() * (delayRange.max - delayRange.min + 1))
+          : params.delayMs;
+        const fails = faults?.failAtStep === step || (faults?.failureRate !== undefined && random() < faults.failureRate);
+        const silent = faults?.dropNotificationRate !== undefined && random() < faults.dropNotificationRate;
+
+        await sleep(delayMs, undefined, { signal });
+        if (fails) {
+          throw new InjectedFaultError(step);
+        }
+        if (silent) {
+          log.debug("Dropping notifications for this step");
+        }
+        return { message: `Completed step ${step} of ${params.steps}`, silent };
+      },
+      setDelay(delayMs) {
+        // params is the task's stored config, so a resumed task keeps the new delay
+        params.delayMs = delayMs;
+        delayRange = undefined;
+      },
+    };
+  },
+};
@@ -0,0 +1,134 @@
+/**
+ * Hash-directory task kind: a step listing the files, then one step per file
+ *
+ * Directories are resolved against a root directory and must stay inside it,
+ * symbolic links included. Files are hashed in path order and the directory
+ * digest is the hash of every file's relative path and digest, so it only
+ * changes when some file's name or contents change.
+ */
+
+import { createHash } from "node:crypto";
+import { createReadStream, promises as fs } from "node:fs";
+import path from "node:path";
+import { pipeline } from "node:stream/promises";
+import { z } from "zod";
+import { TaskOptionsSchema } from "../schemas";
+import { TaskKind, TaskPlan } from "./task-kind";
+
+export const HashDirectorySchema = z.object({
+  path: z.string().min(1).describe("Directory to hash, relative to the server's hash_directory root"),
+  algorithm: z.enum(["sha256", "sha1", "md5"]).default("sha256").describe("Hash algorithm"),
+  ...TaskOptionsSchema.shape,
+  // One sampling request per file is rarely wanted
+  enableSampling: TaskOptionsSchema.shape.enableSampling.default(false),
+});
+
+export type HashDirectoryParams = z.infer<typeof HashDirectorySchema>;
+
+/**
+ * Paths of all files under a directory, relative to it, in sorted order.
+ * Symbolic links are skipped, so the walk never leaves the directory.
+ */
+async function listFiles(root: string, signal: AbortSignal, dir: string = root): Promise<string[]> {
+  signal.throwIfAborted();
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(root, signal, fullPath));
+    } else if (entry.isFile()) {
+      files.push(path.relative(root, fullPath).split(path.sep).join("/"));
+    }
+  }
+  return files.sort();
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * Resolve a requested directory against the root, refusing anything outside it
+ */
+async function resolveDirectory(root: string, requested: string): Promise<string> {
+  const realRoot = await fs.realpath(root).catch(() => {
+    throw new Error(`The hash_directory root ${root} does not exist`);
+  });
+  if (!isInside(realRoot, path.resolve(realRoot, requested))) {
+    throw new Error(`${requested} is outside the directories this server hashes`);
+  }
+
+  // Follow symbolic links before checking again
+  const dir = await fs.realpath(path.resolve(realRoot, requested)).catch(() => undefined);
+  const stat = dir !== undefined ? await fs.stat(dir).catch(() => undefined) : undefined;
+  if (dir === undefined || !stat?.isDirectory()) {
+    throw new Error(`${requested} is not a directory`);
+  }
+  if (!isInside(realRoot, dir)) {
+    throw new Error(`${requested} is outside the directories this server hashes`);
+  }
+  return dir;
+}
+
+/**
+ * The hash_directory kind, hashing directories under root
+ */
+export function createHashDirectoryTaskKind(root: string): TaskKind<HashDirectoryParams> {
+  return {
+    kind: "hash_directory",
+    toolName: "hash_directory",
+    description: "Hashes every file in a directory, one step per file, and reports a digest for the whole directory",
+    // The running directory digest is not persisted
+    resumable: false,
+    schema: () => HashDirectorySchema,
+    prepare: (params) => prepareHashDirectory(root, params),
+  };
+}
+
+async function prepareHashDirectory(root: string, params: HashDirectoryParams): Promise<TaskPlan> {
+  const dir = await resolveDirectory(root, params.path);
+  // Listed by the first step, so a large tree is walked inside the task
+  let files: string[] | undefined;
+  const directoryHash = createHash(params.algorithm);
+  let hashedFiles = 0;
+  let totalBytes = 0;
+  let digest: string | undefined;
+
+  return {
+    async step(step, { signal }) {
+      if (!files) {
+        files = await listFiles(dir, signal);
+        return { message: `Found ${files.length} files to hash`, done: files.length === 0 };
+      }
+
+      const file = files[step - 2];
+      const fileHash = createHash(params.algorithm);
+      let bytes = 0;
+
+      await pipeline(
+        createReadStream(path.join(dir, file)),
+        async function* (source: AsyncIterable<Buffer>) {
+          for await (const chunk of source) {
+            bytes += chunk.length;
+            fileHash.update(chunk);
+          }
+        },
+        { signal }
+      );
+
+      hashedFiles++;
+      totalBytes += bytes;
+      directoryHash.update(`${file}\0${fileHash.digest("hex")}\n`);
+      return { message: `Hashed ${file} (${bytes} bytes)`, done: hashedFiles === files.length };
+    },
+    output: () => ({
+      path: params.path,
+      algorithm: params.algorithm,
+      files: hashedFiles,
+      bytes: totalBytes,
+      // Only a complete pass has a directory digest
+      digest: files !== undefined && hashedFiles === files.length ? (digest ??= directoryHash.digest("hex")) : undefined,
+    }),
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Built-in task kinds
+ */
+
+import path from "node:path";
+import { ServerConfig } from "../../shared/config";
+import { demoTaskKind } from "./demo";
+import { createHashDirectoryTaskKind } from "./hash-directory";
+import { shellCommandTaskKind } from "./shell-command";
+import { TaskKindRegistry } from "./task-kind";
+
+export { demoTaskKind } from "./demo";
+export { createHashDirectoryTaskKind } from "./hash-directory";
+export { shellCommandTaskKind } from "./shell-command";
+export { StepContext, StepResult, TaskKind, TaskKindRegistry, TaskPlan } from "./task-kind";
+
+/**
+ * Registry with the built-in task kinds. Running shell commands hands every
+ * client a shell on the server, and hashing directories lets every client read
+ * files on it, so those kinds are only registered when allowed.
+ */
+export function createTaskKinds(
+  options: Pick<ServerConfig, "allowShellCommands" | "allowHashDirectory" | "hashDirectoryRoot">
+): TaskKindRegistry {
+  const kinds = new TaskKindRegistry().register(demoTaskKind);
+
+  if (options.allowHashDirectory) {
+    kinds.register(createHashDirectoryTaskKind(path.resolve(options.hashDirectoryRoot ?? ".")));
+  }
+  if (options.allowShellCommands) {
+    kinds.register(shellCommandTaskKind);
+  }
+  return kinds;
+}
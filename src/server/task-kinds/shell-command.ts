@@ -0,0 +1,139 @@
+/**
+ * Shell-command task kind: one step per output line
+ *
+ * The command runs through the system shell once the task starts. Each line it
+ * writes to stdout or stderr becomes a step, so its output streams to the client
+ * as progress; the step count is not known until the command exits. A non-zero
+ * exit fails the task, and cancelling or timing out the task kills the command.
+ * The command gets a process group of its own, so the signal reaches everything
+ * the shell started rather than the shell alone.
+ */
+
+import { ChildProcess, spawn } from "node:child_process";
+import { createInterface } from "node:readline";
+import { setTimeout as sleep } from "node:timers/promises";
+import { z } from "zod";
+import { DEFAULT_CONFIG } from "../../shared/constants";
+import { NonRetryableError } from "../retry-policy";
+import { TaskOptionsSchema } from "../schemas";
+import { TaskKind } from "./task-kind";
+
+export const ShellCommandSchema = z.object({
+  command: z.string().min(1).describe("Command line to run through the system shell"),
+  cwd: z.string().optional().describe("Working directory, relative to the server's working directory"),
+  ...TaskOptionsSchema.shape,
+  // One sampling request per output line is rarely wanted
+  enableSampling: TaskOptionsSchema.shape.enableSampling.default(false),
+});
+
+export type ShellCommandParams = z.infer<typeof ShellCommandSchema>;
+
+export const shellCommandTaskKind: TaskKind<ShellCommandParams> = {
+  kind: "shell_command",
+  toolName: "run_shell_command",
+  description: "Runs a shell command, streaming each line of its output as a progress step",
+  // A command cannot pick up where it left off
+  resumable: false,
+  schema: () => ShellCommandSchema,
+
+  async prepare(params) {
+    let child: ChildProcess | undefined;
+    let exit: { code: number | null; signal: NodeJS.Signals | null; error?: Error } | undefined;
+    let lineCount = 0;
+    const lines: string[] = [];
+    // Wakes a step waiting for the next line or the exit
+    let notify: (() => void) | null = null;
+
+    const wake = () => {
+      notify?.();
+      notify = null;
+    };
+
+    const start = () => {
+      child = spawn(params.command, { cwd: params.cwd, shell: true, detached: true, stdio: ["ignore", "pipe", "pipe"] });
+
+      for (const [stream, prefix] of [[child.stdout!, ""], [child.stderr!, "stderr: "]] as const) {
+        createInterface({ input: stream }).on("line", line => {
+          lines.push(prefix + line);
+          wake();
+        });
+      }
+
+      // "close" follows the end of both output streams, so every line is already queued
+      child.on("close", (code, signal) => {
+        exit ??= { code, signal };
+        wake();
+      });
+      child.on("error", error => {
+        exit ??= { code: null, signal: null, error };
+        wake();
+      });
+    };
+
+    // Signal the shell and every process it started
+    const killGroup = (signal: NodeJS.Signals) => {
+      try {
+        process.kill(-child!.pid!, signal);
+      } catch {
+        // The group has already gone
+      }
+    };
+
+    // Wait for the next line or the exit
+    const nextEvent = (signal: AbortSignal) => new Promise<void>(resolve => {
+      const onAbort = () => resolve();
+      notify = () => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+
+    return {
+      async step(_step, { signal }) {
+        if (!child) {
+          start();
+        }
+
+        while (lines.length === 0 && !exit) {
+          signal.throwIfAborted();
+          await nextEvent(signal);
+        }
+        signal.throwIfAborted();
+
+        const line = lines.shift();
+        if (line !== undefined) {
+          lineCount++;
+          return { message: line };
+        }
+
+        // Running the step again would not run the command again
+        if (exit!.error) {
+          throw new NonRetryableError(`Command could not be started: ${exit!.error.message}`);
+        }
+        if (exit!.code !== 0) {
+          throw new NonRetryableError(exit!.signal ? `Command was killed by ${exit!.signal}` : `Command exited with code ${exit!.code}`);
+        }
+        return { message: "Command exited with code 0", done: true };
+      },
+      async cleanup() {
+        if (!child?.pid || exit) {
+          return;
+        }
+
+        // SIGTERM first, SIGKILL for whatever is still running after the grace period
+        killGroup("SIGTERM");
+        const grace = new AbortController();
+        const exited = new Promise<void>(resolve => child!.once("close", () => resolve()));
+        await Promise.race([exited, sleep(DEFAULT_CONFIG.SHELL_KILL_GRACE_MS, undefined, { signal: grace.signal }).catch(() => undefined)]);
+        grace.abort();
+        killGroup("SIGKILL");
+      },
+      output: () => ({
+        command: params.command,
+        exitCode: exit?.code ?? null,
+        lines: lineCount,
+      }),
+    };
+  },
+};
@@ -0,0 +1,98 @@
+/**
+ * Task kinds for the MCP notification server
+ *
+ * A task kind is a kind of work the server can run as a task. It names the tool
+ * that starts it, declares that tool's input schema and splits the work into
+ * steps. The task runner supplies everything else: queueing, pause and resume,
+ * cancellation, timeouts, progress and task event notifications, and sampling.
+ */
+
+import { z } from "zod";
+import { Logger } from "../../shared/logger";
+import { TaskLimits, TaskOptions } from "../schemas";
+
+// Outcome of one step
+export interface StepResult {
+  // Sent as the step's progress and task event message
+  message: string;
+  // Ends the task after this step; for plans that don't know their step count
+  done?: boolean;
+  // Send no progress or step notification for this step
+  silent?: boolean;
+}
+
+export interface StepContext {
+  // Aborted when the task is cancelled, times out or is cut off by a shutdown
+  signal: AbortSignal;
+  log: Logger;
+}
+
+// The work for one run of a task
+export interface TaskPlan {
+  // Number of steps, if known before the task starts
+  totalSteps?: number;
+  // Run one step (1-based). Resumed tasks start after their last completed step.
+  // A step that throws may be run again under the task's retry policy; throw
+  // NonRetryableError for errors that another attempt cannot fix.
+  step(step: number, context: StepContext): Promise<StepResult>;
+  // Change the delay of the remaining steps, for kinds that have one; sampling
+  // replies can steer it
+  setDelay?(delayMs: number): void;
+  // Release resources however the task ends
+  cleanup?(): Promise<void>;
+  // Kind-specific output for the execution result
+  output?(): Record<string, unknown>;
+}
+
+export interface TaskKind<Params extends TaskOptions = TaskOptions> {
+  // Recorded with each task so a resumed task finds its kind again
+  kind: string;
+  toolName: string;
+  description: string;
+  // Whether an interrupted task can continue from its last completed step
+  resumable: boolean;
+  // Input schema for the kind's tool, including the shared task options
+  schema(limits: TaskLimits): z.ZodType<Params>;
+  // Plan a task from its validated parameters. Runs when the tool is called, so
+  // errors are reported to the caller; expensive work belongs in the steps.
+  prepare(params: Params): Promise<TaskPlan>;
+}
+
+/**
+ * The registered task kinds. Kinds are held by their shared task options only:
+ * callers narrow a task's parameters to the kind's own with its schema before
+ * preparing it.
+ */
+export class TaskKindRegistry {
+  private kinds = new Map<string, TaskKind>();
+
+  /**
+   * Add a task kind; its tool is listed and callable on every server sharing the registry
+   */
+  register<Params extends TaskOptions>(kind: TaskKind<Params>): this {
+    if (this.kinds.has(kind.kind)) {
+      throw new Error(`Task kind ${kind.kind} is already registered`);
+    }
+    if (this.forTool(kind.toolName)) {
+      throw new Error(`Tool ${kind.toolName} is already registered`);
+    }
+
+    this.kinds.set(kind.kind, kind);
+    return this;
+  }
+
+  get(kind: string): TaskKind | undefined {
+    return this.kinds.get(kind);
+  }
+
+  /**
+   * The task kind started by a tool, if any
+   */
+  forTool(toolName: string): TaskKind | undefined {
+    return this.list().find(kind => kind.toolName === toolName);
+  }
+
+  list(): TaskKind[] {
+    return Array.from(this.kinds.values());
+  }
+}
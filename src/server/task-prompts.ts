@@ -0,0 +1,146 @@
+/**
+ * Prompts about task runs
+ *
+ * Each prompt takes a taskId and renders that task's configuration, status,
+ * notification history and sampling exchanges into a single user message, so a
+ * host can ask a model to explain a run without assembling the context itself.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  McpError,
+  Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+import { TaskHistoryEntry, TaskStatus } from "../shared/types";
+import { isTerminalState, TaskInfo, TaskRegistry } from "./task-registry";
+
+const TASK_ID_ARGUMENT = {
+  name: "taskId",
+  description: "ID of the task, as returned by the tool that started it",
+  required: true,
+};
+
+export const TASK_PROMPTS: Prompt[] = [
+  {
+    name: "summarize_task",
+    description: "Summarize a task run: what it did, how far it got and how it ended",
+    arguments: [TASK_ID_ARGUMENT],
+  },
+  {
+    name: "diagnose_failed_task",
+    description: "Explain why a task failed, timed out, was cancelled or was interrupted, and what to change",
+    arguments: [TASK_ID_ARGUMENT],
+  },
+];
+
+const INSTRUCTIONS: Record<string, (task: TaskInfo) => string> = {
+  summarize_task: () =>
+    "Summarize the task run below for the person who started it: what it was asked to do, how far it got and how it ended. " +
+    "Mention anything notable, such as retries, pauses, steering decisions, checkpoints or sampling replies. " +
+    "Answer with a short paragraph followed by a bullet list of the notable events.",
+  diagnose_failed_task: (task) =>
+    `The task run below did not complete (state: ${task.state}). ` +
+    "Explain what most likely went wrong, quoting the notifications that show it, " +
+    "and suggest what to change in its configuration or environment before running it again.",
+};
+
+function historyLine(entry: TaskHistoryEntry): string {
+  const step = entry.step !== undefined ? ` step ${entry.step}` : "";
+  const level = entry.level ? ` (${entry.level})` : "";
+  return `- ${entry.timestamp} ${entry.type}${level}${step}: ${entry.message}`;
+}
+
+function samplingLines(history: TaskHistoryEntry[]): string[] {
+  return history.flatMap((entry) => {
+    const step = entry.step !== undefined ? `Step ${entry.step}` : "Task";
+    switch (entry.type) {
+      case "sampling_response": {
+        const sampling = entry.data?.sampling as { question?: string; response?: string; model?: string } | undefined;
+        if (!sampling) {
+          return [`- ${step}: ${entry.message}`];
+        }
+        return [`- ${step}, asked: ${sampling.question}`, `  ${sampling.model ?? "model"} replied: ${sampling.response}`];
+      }
+      case "sampling_error":
+      case "sampling_budget_exhausted":
+        return [`- ${step}: ${entry.message}`];
+      default:
+        return [];
+    }
+  });
+}
+
+/**
+ * Render the context of a task run as Markdown
+ */
+export function renderTaskContext(task: TaskInfo, status: TaskStatus): string {
+  const sampling = samplingLines(task.history);
+  return [
+    `# Task ${task.taskId}`,
+    "",
+    "## Configuration",
+    "```json",
+    JSON.stringify(task.config, null, 2),
+    "```",
+    "",
+    "## Status",
+    "```json",
+    JSON.stringify(status, null, 2),
+    "```",
+    "",
+    "## Notification history",
+    ...(task.history.length > 0 ? task.history.map(historyLine) : ["No notifications were sent."]),
+    "",
+    "## Sampling exchanges",
+    ...(sampling.length > 0 ? sampling : ["The task made no sampling requests."]),
+  ].join("\n");
+}
+
+/**
+ * Serve the task prompts on one session's server. Status snapshots come from
+ * taskStatus so they match get_task_status.
+ */
+export function registerTaskPrompts(
+  server: Server,
+  tasks: TaskRegistry,
+  taskStatus: (task: TaskInfo) => TaskStatus
+): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: TASK_PROMPTS }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request): Promise<GetPromptResult> => {
+    const { name, arguments: args } = request.params;
+    const prompt = TASK_PROMPTS.find(prompt => prompt.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const taskId = args?.taskId;
+    if (!taskId) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt ${name} needs a taskId argument`);
+    }
+    const task = tasks.get(taskId);
+    if (!task) {
+      throw new McpError(ErrorCode.InvalidParams, `Task ${taskId} not found`);
+    }
+    if (name === "diagnose_failed_task" && (!isTerminalState(task.state) || task.state === "completed")) {
+      throw new McpError(ErrorCode.InvalidParams, `Task ${taskId} has not failed (state: ${task.state})`);
+    }
+
+    return {
+      description: `${prompt.description} (task ${taskId})`,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `${INSTRUCTIONS[name](task)}\n\n${renderTaskContext(task, taskStatus(task))}`,
+          },
+        },
+      ],
+    };
+  });
+}
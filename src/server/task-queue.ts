@@ -0,0 +1,128 @@
+/**
+ * Concurrency limit and wait queue for the MCP notification server
+ *
+ * At most maxConcurrent tasks hold a run slot; further tasks wait in a queue
+ * ordered by priority (higher first) and then by arrival. The queue itself is
+ * bounded so a client cannot pile up unlimited work.
+ */
+
+import { DEFAULT_CONFIG } from '../shared/constants';
+
+export interface TaskQueueOptions {
+  maxConcurrent?: number;
+  maxQueued?: number;
+}
+
+interface QueueEntry {
+  taskId: string;
+  priority: number;
+  start: () => void;
+}
+
+/**
+ * Thrown when a task is submitted while the queue is at its size limit
+ */
+export class TaskQueueFullError extends Error {
+  readonly code = 'queue_full';
+
+  constructor(
+    readonly running: number,
+    readonly maxConcurrent: number,
+    readonly queued: number,
+    readonly maxQueued: number
+  ) {
+    super(`Task queue is full: ${queued} task(s) waiting (limit ${maxQueued}) behind ${running} running (limit ${maxConcurrent})`);
+    this.name = 'TaskQueueFullError';
+  }
+}
+
+export class TaskQueue {
+  readonly maxConcurrent: number;
+  readonly maxQueued: number;
+  private running = new Set<string>();
+  private waiting: QueueEntry[] = [];
+  private closed = false;
+
+  constructor(options: TaskQueueOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? DEFAULT_CONFIG.MAX_CONCURRENT_TASKS;
+    this.maxQueued = options.maxQueued ?? DEFAULT_CONFIG.MAX_QUEUED_TASKS;
+  }
+
+  /**
+   * Start a task now if a slot is free, otherwise queue it.
+   * Returns the 1-based queue position, or 0 if the task started immediately.
+   * Throws TaskQueueFullError (without queueing) when the queue is full.
+   */
+  submit(taskId: string, start: () => void, priority: number = 0): number {
+    if (this.closed) {
+      throw new Error('Server is shutting down; no new tasks are accepted');
+    }
+
+    if (this.running.size < this.maxConcurrent && this.waiting.length === 0) {
+      this.running.add(taskId);
+      start();
+      return 0;
+    }
+
+    if (this.waiting.length >= this.maxQueued) {
+      throw new TaskQueueFullError(this.running.size, this.maxConcurrent, this.waiting.length, this.maxQueued);
+    }
+
+    // Insert after every entry of equal or higher priority to keep FIFO order within a priority
+    const entry: QueueEntry = { taskId, priority, start };
+    const index = this.waiting.findIndex(other => other.priority < priority);
+    if (index === -1) {
+      this.waiting.push(entry);
+    } else {
+      this.waiting.splice(index, 0, entry);
+    }
+    return this.position(taskId)!;
+  }
+
+  /**
+   * Give up a task's run slot or queue entry and start the next waiting task
+   */
+  release(taskId: string): void {
+    if (this.running.delete(taskId)) {
+      this.drain();
+      return;
+    }
+
+    const index = this.waiting.findIndex(entry => entry.taskId === taskId);
+    if (index !== -1) {
+      this.waiting.splice(index, 1);
+    }
+  }
+
+  /**
+   * Refuse new tasks, e.g. while the server shuts down. Queued tasks are not started
+   * once their slot frees up.
+   */
+  close(): void {
+    this.closed = true;
+  }
+
+  /**
+   * 1-based position of a waiting task, or undefined if it is not queued
+   */
+  position(taskId: string): number | undefined {
+    const index = this.waiting.findIndex(entry => entry.taskId === taskId);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  get runningCount(): number {
+    return this.running.size;
+  }
+
+  get queuedCount(): number {
+    return this.waiting.length;
+  }
+
+  private drain(): void {
+    while (!this.closed && this.running.size < this.maxConcurrent && this.waiting.length > 0) {
+      const next = this.waiting.shift()!;
+      this.running.add(next.taskId);
+      next.start();
+    }
+  }
+}
@@ -0,0 +1,382 @@
+/**
+ * Task registry for the MCP notification server
+ *
+ * Tracks running tasks and keeps finished ones queryable for a retention
+ * window so clients can poll status instead of scraping notifications.
+ * Every change is written through to a TaskStore.
+ */
+
+import { ProgressToken } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_CONFIG, SERVER_INFO } from '../shared/constants';
+import { createLogger, Logger } from '../shared/logger';
+import { SamplingUsage, SteeringDecision, TaskHistoryEntry, TaskNotificationSummary, TaskState, TaskStatus } from '../shared/types';
+import { DEMO_TASK_KIND, TaskConfig } from './schemas';
+import { InMemoryTaskStore, TaskRecord, TaskStore } from './task-store';
+
+// Server-side task record
+export interface TaskInfo {
+  taskId: string;
+  config: TaskConfig;
+  cancel: () => void;
+  // Suspend or continue the step loop between steps
+  pause: () => void;
+  resume: () => void;
+  // Stop at the next step boundary for a server shutdown; resolves once the task
+  // has stopped. force reports the shutdown immediately without waiting.
+  interrupt: (force?: boolean) => Promise<void>;
+  currentStep: number;
+  completedSteps: number;
+  // Unknown for task kinds that discover their steps as they go
+  totalSteps?: number;
+  cancelled: boolean;
+  state: TaskState;
+  startedAt: number;
+  finishedAt?: number;
+  pausedAt?: number;
+  pausedMs: number;
+  // Time at which the task times out; the timeout part is added once it starts running
+  deadlineAt?: number;
+  notificationsSent: number;
+  samplingRequests: number;
+  // Counted over every run of the task, so a resumed task keeps its budget
+  samplingUsage: SamplingUsage;
+  lastNotification?: TaskNotificationSummary;
+  // The latest notifications sent for the task, oldest first, up to the
+  // registry's history limit
+  history: TaskHistoryEntry[];
+  // Sequence number of the last notification sent for the task
+  lastSeq: number;
+  // progressToken from the originating tools/call request while it is open, if the caller supplied one
+  progressToken?: ProgressToken;
+  lastProgress: number;
+  // Steering decisions taken from sampling replies
+  decisions: SteeringDecision[];
+}
+
+/**
+ * Whether a task has stopped for good (queued and paused tasks can still continue)
+ */
+export function isTerminalState(state: TaskState): boolean {
+  return state !== 'queued' && state !== 'running' && state !== 'paused';
+}
+
+/**
+ * Time a task has spent paused, including a pause still in progress
+ */
+export function totalPausedMs(task: TaskInfo, now: number = Date.now()): number {
+  return task.pausedMs + (task.pausedAt !== undefined ? (task.finishedAt ?? now) - task.pausedAt : 0);
+}
+
+/**
+ * Build a serializable status snapshot for a task
+ */
+export function toTaskStatus(task: TaskInfo, now: number = Date.now()): TaskStatus {
+  const endTime = task.finishedAt ?? now;
+  const pausedMs = totalPausedMs(task, now);
+
+  return {
+    taskId: task.taskId,
+    kind: task.config.kind ?? DEMO_TASK_KIND,
+    state: task.state,
+    currentStep: task.currentStep,
+    totalSteps: task.totalSteps,
+    percentage: task.totalSteps ? Math.round((task.currentStep / task.totalSteps) * 100) : undefined,
+    startedAt: new Date(task.startedAt).toISOString(),
+    finishedAt: task.finishedAt !== undefined ? new Date(task.finishedAt).toISOString() : undefined,
+    elapsedMs: task.state === 'queued' ? 0 : endTime - task.startedAt - pausedMs,
+    pausedMs,
+    deadline: task.deadlineAt !== undefined ? new Date(task.deadlineAt).toISOString() : undefined,
+    remainingMs: task.deadlineAt !== undefined && !isTerminalState(task.state) ? Math.max(0, task.deadlineAt - now) : undefined,
+    notificationsSent: task.notificationsSent,
+    samplingRequests: task.samplingRequests,
+    samplingUsage: task.samplingUsage,
+    lastNotification: task.lastNotification,
+    decisions: task.decisions,
+  };
+}
+
+/**
+ * Build the persisted form of a task
+ */
+export function toTaskRecord(task: TaskInfo): TaskRecord {
+  return {
+    taskId: task.taskId,
+    config: task.config,
+    state: task.state,
+    completedSteps: task.completedSteps,
+    totalSteps: task.totalSteps,
+    startedAt: task.startedAt,
+    updatedAt: Date.now(),
+    finishedAt: task.finishedAt,
+    decisions: task.decisions,
+    samplingUsage: task.samplingUsage,
+    lastSeq: task.lastSeq,
+  };
+}
+
+/**
+ * Rebuild a task from its persisted form. Recovered tasks have no runner attached.
+ */
+function fromTaskRecord(record: TaskRecord): TaskInfo {
+  return {
+    taskId: record.taskId,
+    config: record.config,
+    cancel: () => {},
+    pause: () => {},
+    resume: () => {},
+    interrupt: async () => {},
+    currentStep: record.completedSteps,
+    completedSteps: record.completedSteps,
+    // Records written before task kinds existed only have the demo's steps parameter
+    totalSteps: record.totalSteps ?? (typeof record.config.steps === 'number' ? record.config.steps : undefined),
+    cancelled: record.state === 'cancelled',
+    state: record.state,
+    startedAt: record.startedAt,
+    finishedAt: record.finishedAt,
+    pausedMs: 0,
+    notificationsSent: 0,
+    samplingRequests: 0,
+    samplingUsage: record.samplingUsage ?? { requests: 0, tokens: 0, skipped: 0 },
+    history: [],
+    lastSeq: record.lastSeq ?? 0,
+    lastProgress: -1,
+    decisions: record.decisions ?? [],
+  };
+}
+
+// How a task changed, for change listeners
+export type TaskChange = 'added' | 'updated' | 'removed';
+
+export type TaskChangeListener = (task: TaskInfo, change: TaskChange) => void;
+
+export class TaskRegistry {
+  private tasks = new Map<string, TaskInfo>();
+  private listeners = new Set<TaskChangeListener>();
+  private expiryTimers = new Map<string, NodeJS.Timeout>();
+  private retentionMs: number;
+  private historyLimit: number;
+  private store: TaskStore;
+  private pendingWrites = new Set<Promise<void>>();
+  private log: Logger;
+
+  constructor(
+    retentionMs: number = DEFAULT_CONFIG.TASK_RETENTION_MS,
+    store: TaskStore = new InMemoryTaskStore(),
+    logger: Logger = createLogger({ name: SERVER_INFO.NAME }),
+    historyLimit: number = DEFAULT_CONFIG.TASK_HISTORY_LIMIT
+  ) {
+    this.retentionMs = retentionMs;
+    this.historyLimit = historyLimit;
+    this.store = store;
+    this.log = logger;
+  }
+
+  /**
+   * Register a newly started (or resumed) task
+   */
+  add(task: TaskInfo): void {
+    this.clearExpiry(task.taskId);
+    this.tasks.set(task.taskId, task);
+    this.persist(task);
+    this.emitChange(task, 'added');
+  }
+
+  /**
+   * Look up a task by ID (running or retained)
+   */
+  get(taskId: string): TaskInfo | undefined {
+    return this.tasks.get(taskId);
+  }
+
+  /**
+   * All known tasks, optionally filtered by state
+   */
+  list(state?: TaskState): TaskInfo[] {
+    const tasks = Array.from(this.tasks.values());
+    return state ? tasks.filter(task => task.state === state) : tasks;
+  }
+
+  /**
+   * Tasks that have not reached a terminal state (queued, running or paused)
+   */
+  active(): TaskInfo[] {
+    return this.list().filter(task => !isTerminalState(task.state));
+  }
+
+  /**
+   * Add a notification sent for a task to its history under the task's next
+   * sequence number, dropping the oldest entries beyond the history limit
+   */
+  recordNotification(task: TaskInfo, notification: Omit<TaskHistoryEntry, 'seq'>): TaskHistoryEntry {
+    const entry: TaskHistoryEntry = { seq: ++task.lastSeq, ...notification };
+    task.lastNotification = { method: entry.method, type: entry.type, message: entry.message, timestamp: entry.timestamp };
+    task.history.push(entry);
+    if (task.history.length > this.historyLimit) {
+      task.history.splice(0, task.history.length - this.historyLimit);
+    }
+    this.emitChange(task, 'updated');
+    return entry;
+  }
+
+  /**
+   * A task's notifications after the given sequence number, oldest first.
+   * missed counts those that were already dropped from the history.
+   */
+  eventsAfter(task: TaskInfo, afterSeq: number, limit?: number): { events: TaskHistoryEntry[]; missed: number } {
+    const events = task.history.filter(entry => entry.seq > afterSeq);
+    const firstSeq = events[0]?.seq ?? task.lastSeq + 1;
+    return {
+      events: limit !== undefined ? events.slice(0, limit) : events,
+      missed: Math.max(0, firstSeq - afterSeq - 1),
+    };
+  }
+
+  /**
+   * Listen for tasks being added, changing (every notification sent for them and
+   * their final state) and expiring. Returns a function that stops listening.
+   */
+  onChange(listener: TaskChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Persist a task's progress after a completed step
+   */
+  checkpoint(task: TaskInfo): void {
+    this.persist(task);
+  }
+
+  /**
+   * Mark a task as finished and schedule its removal after the retention window.
+   * Tasks that already reached a terminal state are left untouched.
+   */
+  finish(taskId: string, state: Exclude<TaskState, 'queued' | 'running' | 'paused'>): void {
+    const task = this.tasks.get(taskId);
+    if (!task || isTerminalState(task.state)) return;
+
+    task.state = state;
+    task.finishedAt = Date.now();
+    this.persist(task);
+    this.scheduleExpiry(taskId, this.retentionMs);
+    this.emitChange(task, 'updated');
+  }
+
+  /**
+   * Stop every unfinished task and record it as interrupted so it can be resumed
+   * after a restart
+   */
+  interruptActive(): TaskInfo[] {
+    const interrupted = this.active();
+    for (const task of interrupted) {
+      task.cancel();
+      task.cancelled = true;
+      this.finish(task.taskId, 'interrupted');
+    }
+    return interrupted;
+  }
+
+  /**
+   * Load tasks left behind by a previous server process. Tasks that were still
+   * running are recorded as interrupted; expired finished tasks are dropped.
+   */
+  async recover(): Promise<TaskInfo[]> {
+    const now = Date.now();
+    const interrupted: TaskInfo[] = [];
+
+    for (const record of await this.store.list()) {
+      if (this.tasks.has(record.taskId)) continue;
+
+      if (!isTerminalState(record.state)) {
+        record.state = 'interrupted';
+        record.finishedAt = now;
+        record.updatedAt = now;
+        await this.store.save(record);
+      }
+
+      const remainingMs = (record.finishedAt ?? now) + this.retentionMs - now;
+      if (remainingMs <= 0) {
+        await this.store.delete(record.taskId);
+        continue;
+      }
+
+      const task = fromTaskRecord(record);
+      this.tasks.set(task.taskId, task);
+      this.scheduleExpiry(task.taskId, remainingMs);
+      if (task.state === 'interrupted') {
+        interrupted.push(task);
+      }
+    }
+
+    return interrupted;
+  }
+
+  /**
+   * Drop all tasks and pending expiry timers
+   */
+  clear(): void {
+    for (const timer of this.expiryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.expiryTimers.clear();
+    this.tasks.clear();
+  }
+
+  /**
+   * Flush pending store writes
+   */
+  async close(): Promise<void> {
+    await Promise.all(this.pendingWrites);
+    await this.store.close();
+  }
+
+  get size(): number {
+    return this.tasks.size;
+  }
+
+  private persist(task: TaskInfo): void {
+    this.track(this.store.save(toTaskRecord(task)), 'Failed to persist task', task.taskId);
+  }
+
+  private track(write: Promise<void>, failureMessage: string, taskId: string): void {
+    const pending = write.catch((error) => {
+      this.log.error(failureMessage, { taskId, error });
+    });
+    this.pendingWrites.add(pending);
+    pending.finally(() => this.pendingWrites.delete(pending));
+  }
+
+  private scheduleExpiry(taskId: string, delayMs: number): void {
+    this.clearExpiry(taskId);
+    const timer = setTimeout(() => {
+      const task = this.tasks.get(taskId);
+      this.tasks.delete(taskId);
+      this.expiryTimers.delete(taskId);
+      if (task) this.emitChange(task, 'removed');
+      this.track(this.store.delete(taskId), 'Failed to delete task from store', taskId);
+    }, delayMs);
+    // Retained tasks must not keep the process alive
+    timer.unref();
+    this.expiryTimers.set(taskId, timer);
+  }
+
+  private emitChange(task: TaskInfo, change: TaskChange): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(task, change);
+      } catch (error) {
+        this.log.warn('Task change listener failed', { taskId: task.taskId, error });
+      }
+    }
+  }
+
+  private clearExpiry(taskId: string): void {
+    const timer = this.expiryTimers.get(taskId);
+    if (timer) {
+      clearTimeout(timer);
+      this.expiryTimers.delete(taskId);
+    }
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Tasks as MCP resources
+ *
+ * Every task the registry knows is published as two resources: its status
+ * snapshot at task://{taskId} and its notification history at
+ * task://{taskId}/log. Clients can read them, list them, and subscribe to get
+ * notifications/resources/updated whenever the task changes, instead of piecing
+ * the task's state together from progress notifications.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  Resource,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { RESOURCE_NOT_FOUND_ERROR } from "../shared/constants";
+import { Logger } from "../shared/logger";
+import { TaskStatus } from "../shared/types";
+import { TaskInfo, TaskRegistry } from "./task-registry";
+
+const TASK_URI = /^task:\/\/([^/]+)(\/log)?$/;
+
+export function taskUri(taskId: string): string {
+  return `task://${taskId}`;
+}
+
+export function taskLogUri(taskId: string): string {
+  return `task://${taskId}/log`;
+}
+
+function taskResources(task: TaskInfo): Resource[] {
+  return [
+    {
+      uri: taskUri(task.taskId),
+      name: `Task ${task.taskId}`,
+      description: `Status of the ${task.config.kind ?? "demo"} task (${task.state})`,
+      mimeType: "application/json",
+    },
+    {
+      uri: taskLogUri(task.taskId),
+      name: `Task ${task.taskId} log`,
+      description: "The latest notifications sent for the task with their sequence numbers, oldest first",
+      mimeType: "application/json",
+    },
+  ];
+}
+
+/**
+ * Serve the registry's tasks as resources on one session's server. Subscriptions
+ * belong to the session; status snapshots come from taskStatus so they match
+ * get_task_status.
+ */
+export function registerTaskResources(
+  server: Server,
+  tasks: TaskRegistry,
+  taskStatus: (task: TaskInfo) => TaskStatus,
+  log: Logger
+): void {
+  const subscriptions = new Set<string>();
+  let stopListening: (() => void) | undefined;
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    listen();
+    return { resources: tasks.list().flatMap(taskResources) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: "task://{taskId}",
+        name: "Task status",
+        description: "State, progress, timing and counters of a task, as returned by get_task_status",
+        mimeType: "application/json",
+      },
+      {
+        uriTemplate: "task://{taskId}/log",
+        name: "Task log",
+        description: "The latest progress notifications and task events sent for a task, up to the history limit, oldest first",
+        mimeType: "application/json",
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const match = uri.match(TASK_URI);
+    const task = match ? tasks.get(match[1]) : undefined;
+    if (!match || !task) {
+      throw new McpError(RESOURCE_NOT_FOUND_ERROR.CODE, `Resource not found: ${uri}`, { uri });
+    }
+
+    const body = match[2] ? { taskId: task.taskId, entries: task.history } : taskStatus(task);
+    return {
+      contents: [{ uri, mimeType: "application/json", text: JSON.stringify(body, null, 2) }],
+    };
+  });
+
+  // Tasks that do not exist yet can be subscribed to; updates start once they do
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    if (!TASK_URI.test(request.params.uri)) {
+      throw new McpError(RESOURCE_NOT_FOUND_ERROR.CODE, `Resource not found: ${request.params.uri}`, { uri: request.params.uri });
+    }
+    subscriptions.add(request.params.uri);
+    listen();
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Listen to the shared registry only once the client shows interest, and stop
+  // once the session is gone
+  function listen(): void {
+    stopListening ??= tasks.onChange((task, change) => {
+      if (!server.transport) {
+        stopListening?.();
+        return;
+      }
+
+      if (change !== "updated") {
+        send(server.sendResourceListChanged());
+      }
+      for (const uri of [taskUri(task.taskId), taskLogUri(task.taskId)]) {
+        if (subscriptions.has(uri)) {
+          send(server.sendResourceUpdated({ uri }));
+        }
+      }
+    });
+  }
+
+  function send(notification: Promise<void>): void {
+    notification.catch((error) => {
+      log.debug("Failed to send resource notification", { error });
+    });
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Durable task storage for the MCP notification server
+ *
+ * The registry writes every task's config, progress and state through a
+ * TaskStore so a restarted server can report (and resume) interrupted tasks.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { DEFAULT_CONFIG } from '../shared/constants';
+import { SamplingUsage, SteeringDecision, TaskState } from '../shared/types';
+import { TaskConfig } from './schemas';
+
+// Persisted snapshot of a task
+export interface TaskRecord {
+  taskId: string;
+  config: TaskConfig;
+  state: TaskState;
+  completedSteps: number;
+  // Absent for task kinds that discover their steps as they go
+  totalSteps?: number;
+  startedAt: number;
+  updatedAt: number;
+  finishedAt?: number;
+  decisions?: SteeringDecision[];
+  samplingUsage?: SamplingUsage;
+  // Sequence number of the last notification sent, so a resumed task continues it
+  lastSeq?: number;
+}
+
+export interface TaskStore {
+  /** Insert or replace a task record */
+  save(record: TaskRecord): Promise<void>;
+  get(taskId: string): Promise<TaskRecord | undefined>;
+  list(): Promise<TaskRecord[]>;
+  delete(taskId: string): Promise<void>;
+  /** Flush pending writes and release resources */
+  close(): Promise<void>;
+}
+
+/**
+ * Task store that lives only as long as the process
+ */
+export class InMemoryTaskStore implements TaskStore {
+  private records = new Map<string, TaskRecord>();
+
+  async save(record: TaskRecord): Promise<void> {
+    this.records.set(record.taskId, { ...record });
+  }
+
+  async get(taskId: string): Promise<TaskRecord | undefined> {
+    const record = this.records.get(taskId);
+    return record ? { ...record } : undefined;
+  }
+
+  async list(): Promise<TaskRecord[]> {
+    return Array.from(this.records.values(), record => ({ ...record }));
+  }
+
+  async delete(taskId: string): Promise<void> {
+    this.records.delete(taskId);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to flush
+  }
+}
+
+// One line of the JSON lines log
+type TaskStoreEntry =
+  | { op: 'save'; record: TaskRecord }
+  | { op: 'delete'; taskId: string };
+
+/**
+ * Task store backed by an append-only JSON lines file.
+ *
+ * Every change appends one line; the last line for a task wins. The file is
+ * compacted to one line per live task when it is loaded, and again after every
+ * compactAfter appended lines, so a long-running server's file stays bounded.
+ */
+export class JsonlTaskStore implements TaskStore {
+  private filePath: string;
+  private compactAfter: number;
+  private records = new Map<string, TaskRecord>();
+  private loaded: Promise<void> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+  // Lines appended since the file was last compacted
+  private appended = 0;
+
+  constructor(filePath: string, options: { compactAfter?: number } = {}) {
+    this.filePath = filePath;
+    this.compactAfter = options.compactAfter ?? DEFAULT_CONFIG.TASK_STORE_COMPACT_AFTER;
+  }
+
+  async save(record: TaskRecord): Promise<void> {
+    await this.load();
+    this.records.set(record.taskId, { ...record });
+    await this.append({ op: 'save', record });
+  }
+
+  async get(taskId: string): Promise<TaskRecord | undefined> {
+    await this.load();
+    const record = this.records.get(taskId);
+    return record ? { ...record } : undefined;
+  }
+
+  async list(): Promise<TaskRecord[]> {
+    await this.load();
+    return Array.from(this.records.values(), record => ({ ...record }));
+  }
+
+  async delete(taskId: string): Promise<void> {
+    await this.load();
+    if (this.records.delete(taskId)) {
+      await this.append({ op: 'delete', taskId });
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.writes;
+  }
+
+  /**
+   * Read the log once, replaying entries in order, then compact it
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readLog();
+    }
+    return this.loaded;
+  }
+
+  private async readLog(): Promise<void> {
+    let contents = '';
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+
+      let entry: TaskStoreEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A torn final line from a crash mid-write; everything before it is intact
+        continue;
+      }
+
+      if (entry.op === 'save') {
+        this.records.set(entry.record.taskId, entry.record);
+      } else if (entry.op === 'delete') {
+        this.records.delete(entry.taskId);
+      }
+    }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await this.compact();
+  }
+
+  /**
+   * Rewrite the file as one line per live task, replacing it atomically
+   */
+  private async compact(): Promise<void> {
+    const compacted = Array.from(this.records.values(), record => JSON.stringify({ op: 'save', record }) + '\n').join('');
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, compacted, 'utf8');
+    await fs.rename(tempPath, this.filePath);
+    this.appended = 0;
+  }
+
+  /**
+   * Append an entry, serialized behind earlier writes so the log stays ordered.
+   * Compacting from the in-memory records is safe in that order: they already
+   * include every change queued behind this one, which only appends it again.
+   */
+  private append(entry: TaskStoreEntry): Promise<void> {
+    const write = this.writes.then(async () => {
+      await fs.appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+      if (++this.appended >= this.compactAfter) {
+        await this.compact();
+      }
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
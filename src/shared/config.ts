@@ -3,6 +3,7 @@
  */
 
 import { z } from 'zod';
+import { DEFAULT_CONFIG, HTTP_TRANSPORT } from './constants';
 
 // Server configuration schema
 export const ServerConfigSchema = z.object({
@@ -10,6 +11,30 @@ export const ServerConfigSchema = z.object({
   version: z.string().default('1.0.0'),
   enableLogging: z.boolean().default(true),
   logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+  logFormat: z.enum(['json', 'pretty']).default('pretty'),
+  // Append logs to this file instead of stderr
+  logFile: z.string().optional(),
+  // Transport
+  transport: z.enum(['stdio', 'http']).default('stdio'),
+  host: z.string().default(HTTP_TRANSPORT.DEFAULT_HOST),
+  port: z.number().int().min(0).max(65535).default(HTTP_TRANSPORT.DEFAULT_PORT),
+  taskStoreFile: z.string().optional(),
+  // Limits
+  maxSteps: z.number().int().min(DEFAULT_CONFIG.MIN_STEPS).default(DEFAULT_CONFIG.MAX_STEPS),
+  maxDelayMs: z.number().int().min(DEFAULT_CONFIG.MIN_DELAY_MS).default(DEFAULT_CONFIG.MAX_DELAY_MS),
+  maxConcurrentTasks: z.number().int().min(1).default(DEFAULT_CONFIG.MAX_CONCURRENT_TASKS),
+  maxQueuedTasks: z.number().int().min(0).default(DEFAULT_CONFIG.MAX_QUEUED_TASKS),
+  taskRetentionMs: z.number().int().min(0).default(DEFAULT_CONFIG.TASK_RETENTION_MS),
+  taskHistoryLimit: z.number().int().min(1).default(DEFAULT_CONFIG.TASK_HISTORY_LIMIT),
+  shutdownGraceMs: z.number().int().min(0).default(DEFAULT_CONFIG.SHUTDOWN_GRACE_MS),
+  // Timeout for tasks started without their own timeoutMs
+  taskTimeoutMs: z.number().int().min(1).optional(),
+  // Register the run_shell_command task kind, which lets clients run any command
+  allowShellCommands: z.boolean().default(false),
+  // Register the hash_directory task kind, which lets clients read every file under
+  // hashDirectoryRoot (the working directory by default)
+  allowHashDirectory: z.boolean().default(false),
+  hashDirectoryRoot: z.string().optional(),
 });
 
 export type ServerConfig = z.infer<typeof ServerConfigSchema>;
@@ -25,15 +50,100 @@ export const ClientConfigSchema = z.object({
 
 export type ClientConfig = z.infer<typeof ClientConfigSchema>;
 
+// How the client answers elicitation requests: ask on the terminal, or answer
+// without asking for scripted runs
+export const ElicitationPolicySchema = z.enum(['prompt', 'auto-accept', 'auto-decline']);
+
+export type ElicitationPolicy = z.infer<typeof ElicitationPolicySchema>;
+
+// Whether the user reviews sampling replies before they are sent, and what
+// happens to a reply nobody reviews in time
+export const SamplingApprovalModeSchema = z.enum(['auto', 'prompt']);
+export const SamplingApprovalFallbackSchema = z.enum(['approve', 'reject']);
+
+// The longest the client can take over a sampling reply, provider and review
+// together, before the server gives up on the request
+export const MAX_SAMPLING_ANSWER_MS = DEFAULT_CONFIG.SAMPLING_REQUEST_TIMEOUT_MS - DEFAULT_CONFIG.SAMPLING_REPLY_MARGIN_MS;
+
+export const SamplingApprovalSchema = z.object({
+  mode: SamplingApprovalModeSchema.default('auto'),
+  // At most MAX_SAMPLING_ANSWER_MS, and cut short by the time the provider took
+  timeoutMs: z.number().int().min(1).max(MAX_SAMPLING_ANSWER_MS).default(DEFAULT_CONFIG.SAMPLING_APPROVAL_TIMEOUT_MS),
+  fallback: SamplingApprovalFallbackSchema.default('reject'),
+});
+
+export type SamplingApproval = z.infer<typeof SamplingApprovalSchema>;
+
+// Limits on the sampling requests the client answers: a rate per window and
+// caps for the whole session. Requests beyond them are refused with an error.
+export const SamplingRateLimitSchema = z.object({
+  maxRequests: z.number().int().min(1).optional(),
+  windowMs: z.number().int().min(1).default(60 * 1000),
+  maxTotalRequests: z.number().int().min(0).optional(),
+  // Counted as each request's maxTokens
+  maxTotalTokens: z.number().int().min(1).optional(),
+});
+
+export type SamplingRateLimit = z.infer<typeof SamplingRateLimitSchema>;
+
+// How the client reconnects after losing the server: up to maxAttempts tries,
+// the first after initialDelayMs and each later one multiplier times longer, up to
+// maxDelayMs. 0 attempts turns reconnecting off.
+export const ReconnectPolicySchema = z.object({
+  maxAttempts: z.number().int().min(0).default(5),
+  initialDelayMs: z.number().int().min(0).default(500),
+  maxDelayMs: z.number().int().min(0).default(10 * 1000),
+  multiplier: z.number().min(1).default(2),
+});
+
+export type ReconnectPolicy = z.infer<typeof ReconnectPolicySchema>;
+
+// Where the client's sampling replies come from: canned text, an OpenAI-compatible
+// API or a file of scripted replies
+export const SamplingProviderNameSchema = z.enum(['mock', 'openai', 'scripted']);
+
+export type SamplingProviderName = z.infer<typeof SamplingProviderNameSchema>;
+
 // CLI arguments schema
 export const CliArgsSchema = z.object({
   serverPath: z.string(),
+  url: z.url().optional(),
   toolName: z.string(),
   steps: z.number().min(1).max(1000).optional(),
   interval: z.number().min(1).optional(),
   delay: z.number().min(100).max(10000).optional(),
   sampling: z.boolean().default(true),
   verbose: z.boolean().default(false),
+  // Ask the server to forward its logs at this level
+  logLevel: z.enum(['debug', 'info', 'warn', 'error']).optional(),
+  // Maximum task running time in milliseconds
+  timeout: z.number().int().min(1).optional(),
+  // Steps after which the server asks for confirmation before continuing
+  confirmAt: z.array(z.number().int().min(1)).optional(),
+  // How to answer those confirmations; the client asks on the terminal by default
+  elicitation: ElicitationPolicySchema.optional(),
+  // What answers sampling requests, and its settings
+  samplingProvider: SamplingProviderNameSchema.optional(),
+  samplingUrl: z.url().optional(),
+  samplingModel: z.string().min(1).optional(),
+  // Models the server may pick from with modelPreferences hints, and how long to wait for one
+  samplingModels: z.array(z.string().min(1)).optional(),
+  samplingTimeout: z.number().int().min(1).max(MAX_SAMPLING_ANSWER_MS).optional(),
+  samplingScript: z.string().optional(),
+  // Review each sampling reply before it is sent, and the timeout and fallback for that
+  samplingApproval: SamplingApprovalModeSchema.optional(),
+  samplingApprovalTimeout: z.number().int().min(1).max(MAX_SAMPLING_ANSWER_MS).optional(),
+  samplingApprovalFallback: SamplingApprovalFallbackSchema.optional(),
+  // Sampling requests answered per minute, and in the whole session
+  samplingRateLimit: z.number().int().min(1).optional(),
+  samplingMaxRequests: z.number().int().min(0).optional(),
+  samplingMaxTokens: z.number().int().min(1).optional(),
+  // Reconnect attempts after losing the server, and the wait before the first
+  reconnectAttempts: z.number().int().min(0).optional(),
+  reconnectDelay: z.number().int().min(0).optional(),
+}).refine(args => args.samplingProvider !== 'scripted' || args.samplingScript !== undefined, {
+  message: 'The scripted sampling provider needs --sampling-script',
+  path: ['samplingScript'],
 });
 
 export type CliArgs = z.infer<typeof CliArgsSchema>;
@@ -45,6 +155,12 @@ export const ExecutionParamsSchema = z.object({
   delay: z.number().min(100).max(10000).default(1000),
   sampling: z.boolean().default(true),
   verbose: z.boolean().default(false),
+  mode: z.enum(['background', 'await']).optional(),
+  timeoutMs: z.number().int().min(1).optional(),
+  // Fault injection settings, passed through to the server, which validates them
+  faults: z.record(z.string(), z.unknown()).optional(),
+  // Steps after which the server asks for confirmation before continuing
+  confirmAt: z.array(z.number().int().min(1)).optional(),
 });
 
 export type ExecutionParams = z.infer<typeof ExecutionParamsSchema>;
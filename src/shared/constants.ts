@@ -5,6 +5,10 @@
 // Tool names
 export const TOOL_NAMES = {
   EXECUTE_LONG_PROCESS: 'start_long_running_task',
+  CANCEL_TASK: 'cancel_task',
+  GET_TASK_STATUS: 'get_task_status',
+  LIST_TASKS: 'list_tasks',
+  GET_TASK_EVENTS: 'get_task_events',
 } as const;
 
 // Notification methods (custom JSON-RPC methods)
@@ -13,6 +17,7 @@ export const NOTIFICATION_METHODS = {
   STATUS_UPDATE: 'notifications/status',
   ERROR_UPDATE: 'notifications/error',
   COMPLETION_UPDATE: 'notifications/completion',
+  TASK_EVENT: 'notifications/task_event',
 } as const;
 
 // Sampling methods
@@ -20,6 +25,23 @@ export const SAMPLING_METHODS = {
   CREATE_MESSAGE: 'sampling/createMessage',
 } as const;
 
+// Error returned when the user rejects a sampling request (code from the MCP specification)
+export const SAMPLING_REJECTED_ERROR = {
+  CODE: -1,
+  MESSAGE: 'User rejected sampling request',
+} as const;
+
+// Error returned for a resource URI that names no known resource (code from the MCP specification)
+export const RESOURCE_NOT_FOUND_ERROR = {
+  CODE: -32002,
+} as const;
+
+// Error returned when the client's sampling rate limit refuses a request; an
+// implementation-defined JSON-RPC server error code
+export const SAMPLING_RATE_LIMITED_ERROR = {
+  CODE: -32029,
+} as const;
+
 // Default configuration values
 export const DEFAULT_CONFIG = {
   NOTIFICATION_INTERVAL: 1,
@@ -29,6 +51,41 @@ export const DEFAULT_CONFIG = {
   MIN_STEPS: 1,
   MIN_DELAY_MS: 100,
   MAX_DELAY_MS: 10000,
+  TASK_RETENTION_MS: 5 * 60 * 1000,
+  // Notifications kept per task for replay; older ones are dropped
+  TASK_HISTORY_LIMIT: 1000,
+  // Lines the JSON lines task store appends between compactions
+  TASK_STORE_COMPACT_AFTER: 1000,
+  // The longest timer delay, about 24 days. An awaited tools/call has no limit of
+  // its own: it ends with the task (bounded by its timeoutMs or deadline), or when
+  // the user cancels it
+  AWAIT_REQUEST_TIMEOUT_MS: 2 ** 31 - 1,
+  SHUTDOWN_GRACE_MS: 10 * 1000,
+  // How long a cancelled shell command has to exit on SIGTERM before it is killed
+  SHELL_KILL_GRACE_MS: 5 * 1000,
+  MAX_CONCURRENT_TASKS: 10,
+  MAX_QUEUED_TASKS: 100,
+  // How long a checkpoint waits for the user to answer
+  ELICITATION_TIMEOUT_MS: 10 * 60 * 1000,
+  // How long the server waits for a sampling reply
+  SAMPLING_REQUEST_TIMEOUT_MS: 60 * 1000,
+  // Kept back from that timeout for the reply to reach the server
+  SAMPLING_REPLY_MARGIN_MS: 5 * 1000,
+  // How long the client waits for the user to review a sampling reply. The review
+  // only gets what is left of the server's timeout after the provider has replied.
+  SAMPLING_APPROVAL_TIMEOUT_MS: 30 * 1000,
+  // How long the openai sampling provider waits for a completion; with a full
+  // review after it, still below the server's timeout
+  SAMPLING_PROVIDER_TIMEOUT_MS: 20 * 1000,
+  // maxTokens of each sampling request a task sends
+  SAMPLING_MAX_TOKENS: 100,
+} as const;
+
+// Streamable HTTP transport settings
+export const HTTP_TRANSPORT = {
+  PATH: '/mcp',
+  DEFAULT_PORT: 3000,
+  DEFAULT_HOST: '127.0.0.1',
 } as const;
 
 // Server information
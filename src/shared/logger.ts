@@ -0,0 +1,249 @@
+/**
+ * Structured logging shared by the server and client
+ *
+ * A Logger builds leveled records carrying context (taskId, step, ...) and hands
+ * them to sinks. Child loggers add context and their own sinks; records always
+ * propagate up to the parent, so the root logger's output sink sees everything
+ * while a child's sink (e.g. forwarding to one MCP client) only sees its own.
+ */
+
+import { createWriteStream, WriteStream } from 'node:fs';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFormat = 'json' | 'pretty';
+
+export const LOG_LEVEL_SEVERITY: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+// Structured fields attached to a log line
+export interface LogContext {
+  taskId?: string;
+  step?: number;
+  [key: string]: unknown;
+}
+
+export interface LogRecord {
+  timestamp: string;
+  level: LogLevel;
+  logger: string;
+  message: string;
+  context: LogContext;
+}
+
+export interface LogSink {
+  write(record: LogRecord): void;
+  /** Flush and release resources */
+  close?(): Promise<void>;
+}
+
+export interface LoggerOptions {
+  name: string;
+  level?: LogLevel;
+  format?: LogFormat;
+  // Append to this file instead of writing to stderr
+  file?: string;
+  // When false the logger has no output sink; child sinks still receive records
+  enabled?: boolean;
+}
+
+/**
+ * MCP logging level (notifications/message, logging/setLevel) for a log level
+ */
+export function toMcpLogLevel(level: LogLevel): 'debug' | 'info' | 'warning' | 'error' {
+  return level === 'warn' ? 'warning' : level;
+}
+
+/**
+ * Whether a record at the given level passes a minimum level
+ */
+export function isLevelEnabled(level: LogLevel, minimum: LogLevel): boolean {
+  return LOG_LEVEL_SEVERITY[level] >= LOG_LEVEL_SEVERITY[minimum];
+}
+
+// Errors don't survive JSON.stringify; keep their message (and stack for JSON output)
+function serializeValue(value: unknown, includeStack: boolean): unknown {
+  if (value instanceof Error) {
+    return includeStack ? { name: value.name, message: value.message, stack: value.stack } : value.message;
+  }
+  return value;
+}
+
+/**
+ * Render a record as one JSON object per line
+ */
+export function formatJson(record: LogRecord): string {
+  const context: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record.context)) {
+    context[key] = serializeValue(value, true);
+  }
+
+  return JSON.stringify({
+    timestamp: record.timestamp,
+    level: record.level,
+    logger: record.logger,
+    message: record.message,
+    ...context,
+  });
+}
+
+/**
+ * Render a record for humans: timestamp, level, logger, message, then key=value context
+ */
+export function formatPretty(record: LogRecord): string {
+  const fields = Object.entries(record.context)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const serialized = serializeValue(value, false);
+      return `${key}=${typeof serialized === 'string' ? serialized : JSON.stringify(serialized)}`;
+    });
+
+  const line = `${record.timestamp} ${record.level.toUpperCase().padEnd(5)} [${record.logger}] ${record.message}`;
+  return fields.length > 0 ? `${line} ${fields.join(' ')}` : line;
+}
+
+/**
+ * Sink writing formatted records at or above a level to stderr or a file. A file
+ * that cannot be opened or written is reported once, and records go to stderr
+ * from then on, starting with those written before the file failed to open.
+ */
+export function createOutputSink(options: { level: LogLevel; format: LogFormat; file?: string }): LogSink {
+  const format = options.format === 'json' ? formatJson : formatPretty;
+  let stream: WriteStream | null = null;
+  // Lines written before the file opened, replayed to stderr if it never does
+  let unopened: string[] = [];
+  let fileFailed = false;
+
+  const openFile = (file: string): WriteStream => {
+    const opened = createWriteStream(file, { flags: 'a' });
+    opened.once('open', () => {
+      unopened = [];
+    });
+    opened.on('error', (error) => {
+      if (fileFailed) return;
+      fileFailed = true;
+      stream = null;
+      process.stderr.write(`Cannot write log file ${file}: ${error.message}; logging to stderr instead\n`);
+      unopened.forEach(line => process.stderr.write(line));
+      unopened = [];
+    });
+    return opened;
+  };
+
+  return {
+    write(record) {
+      if (!isLevelEnabled(record.level, options.level)) return;
+
+      const line = format(record) + '\n';
+      if (options.file && !fileFailed) {
+        stream ??= openFile(options.file);
+        if (stream.pending) {
+          unopened.push(line);
+        }
+        stream.write(line);
+      } else {
+        process.stderr.write(line);
+      }
+    },
+    async close() {
+      if (stream) {
+        const closing = stream;
+        stream = null;
+        await new Promise<void>(resolve => closing.end(() => resolve()));
+      }
+    },
+  };
+}
+
+export class Logger {
+  readonly name: string;
+  private context: LogContext;
+  private parent?: Logger;
+  private sinks: LogSink[] = [];
+
+  constructor(name: string, context: LogContext = {}, parent?: Logger) {
+    this.name = name;
+    this.context = context;
+    this.parent = parent;
+  }
+
+  /**
+   * Logger that adds context to every record and can carry its own sinks
+   */
+  child(context: LogContext): Logger {
+    return new Logger(this.name, { ...this.context, ...context }, this);
+  }
+
+  /**
+   * Attach a sink; returns a function that detaches it
+   */
+  addSink(sink: LogSink): () => void {
+    this.sinks.push(sink);
+    return () => {
+      this.sinks = this.sinks.filter(other => other !== sink);
+    };
+  }
+
+  debug(message: string, context?: LogContext): void {
+    this.log('debug', message, context);
+  }
+
+  info(message: string, context?: LogContext): void {
+    this.log('info', message, context);
+  }
+
+  warn(message: string, context?: LogContext): void {
+    this.log('warn', message, context);
+  }
+
+  error(message: string, context?: LogContext): void {
+    this.log('error', message, context);
+  }
+
+  log(level: LogLevel, message: string, context: LogContext = {}): void {
+    this.emit({
+      timestamp: new Date().toISOString(),
+      level,
+      logger: this.name,
+      message,
+      context: { ...this.context, ...context },
+    });
+  }
+
+  /**
+   * Close this logger's sinks (not the parent's)
+   */
+  async close(): Promise<void> {
+    await Promise.all(this.sinks.map(sink => sink.close?.()));
+  }
+
+  private emit(record: LogRecord): void {
+    for (const sink of this.sinks) {
+      try {
+        sink.write(record);
+      } catch {
+        // A broken sink must not take down the code that is logging
+      }
+    }
+    this.parent?.emit(record);
+  }
+}
+
+/**
+ * Create a root logger writing to stderr (or a file) at the given level
+ */
+export function createLogger(options: LoggerOptions): Logger {
+  const logger = new Logger(options.name);
+  if (options.enabled !== false) {
+    logger.addSink(createOutputSink({
+      level: options.level ?? 'info',
+      format: options.format ?? 'pretty',
+      file: options.file,
+    }));
+  }
+  return logger;
+}
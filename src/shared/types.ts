@@ -7,6 +7,60 @@ import { z } from 'zod';
 // Notification types
 export type NotificationType = 'progress' | 'status' | 'error' | 'completion';
 
+// Custom task event types sent via notifications/task_event
+export type TaskEventType =
+  | 'queued'
+  | 'start'
+  | 'step'
+  | 'completion'
+  | 'cancelled'
+  | 'timed_out'
+  | 'retrying'
+  | 'steered'
+  | 'input_requested'
+  | 'input_received'
+  | 'paused'
+  | 'resumed'
+  | 'error'
+  | 'server_shutdown'
+  | 'sampling_response'
+  | 'sampling_error'
+  | 'sampling_budget_exhausted';
+
+export type TaskEventLevel = 'debug' | 'info' | 'warning' | 'error';
+
+// Task event notification params schema (custom method, so clients validate it themselves)
+export const TaskEventParamsSchema = z.object({
+  taskId: z.string(),
+  type: z.string(),
+  level: z.string().default('info'),
+  // Sequence number within the task, for replaying missed events
+  seq: z.number().optional(),
+  data: z.looseObject({
+    message: z.string(),
+    step: z.number().optional(),
+    totalSteps: z.number().optional(),
+    taskId: z.string().optional(),
+    // When the task times out, if it has a timeout or deadline
+    deadline: z.string().optional(),
+    // Retrying events: the attempt that failed and the wait before the next one
+    attempt: z.number().optional(),
+    maxAttempts: z.number().optional(),
+    retryDelayMs: z.number().optional(),
+    // Steered events: the decision taken from the sampling reply
+    decision: z.looseObject({ action: z.string(), applied: z.boolean() }).optional(),
+    // Input events: the checkpoint's step and, once answered, the user's answer
+    checkpoint: z.looseObject({ afterStep: z.number(), action: z.string().optional() }).optional(),
+    // Sampling response events: the question asked and the reply
+    sampling: z.looseObject({ question: z.string(), response: z.string(), model: z.string().optional() }).optional(),
+    // Sampling budget events: the task's sampling so far
+    samplingUsage: z.looseObject({ requests: z.number(), tokens: z.number(), skipped: z.number() }).optional(),
+  }),
+  timestamp: z.string(),
+});
+
+export type TaskEventParams = z.infer<typeof TaskEventParamsSchema>;
+
 // Progress notification interface
 export interface ProgressNotification {
   type: NotificationType;
@@ -31,12 +85,28 @@ export type LongRunningToolParams = z.infer<typeof LongRunningToolParamsSchema>;
 // Tool execution result
 export interface ToolExecutionResult {
   success: boolean;
-  totalSteps: number;
+  // Unknown for task kinds that discover their steps as they go
+  totalSteps?: number;
   completedSteps: number;
   executionTimeMs: number;
   notificationsSent: number;
   samplingRequests: number;
+  // Sampling against the task's budget, over every run of the task
+  samplingUsage?: SamplingUsage;
   error?: string;
+  // Kind-specific output, e.g. a directory digest or a command's exit code
+  output?: Record<string, unknown>;
+}
+
+// Sampling a task has done, for checking and reporting its sampling budget
+export interface SamplingUsage {
+  requests: number;
+  // Tokens asked for, counted as each request's maxTokens
+  tokens: number;
+  // Sampling points passed over because the budget did not allow a request
+  skipped: number;
+  // Why the task stopped sampling, once its budget ran out
+  exhausted?: string;
 }
 
 // Sampling request/response types
@@ -51,3 +121,86 @@ export interface SamplingResponse {
   response: string;
   timestamp: string;
 }
+
+// Task lifecycle states reported by the status tools
+export type TaskState = 'queued' | 'running' | 'paused' | 'completed' | 'cancelled' | 'failed' | 'timed_out' | 'interrupted';
+
+// Summary of the most recent notification sent for a task
+export interface TaskNotificationSummary {
+  method: string;
+  type: string;
+  message: string;
+  timestamp: string;
+}
+
+// A notification sent for a task, as kept in its history
+export interface TaskHistoryEntry extends TaskNotificationSummary {
+  // Position among the task's notifications, from 1; notifications carry it too
+  seq: number;
+  level?: string;
+  step?: number;
+  // The rest of the notification: a task event's data, or progress and total
+  data?: Record<string, unknown>;
+}
+
+// Result of get_task_events
+export interface TaskEventsResult {
+  taskId: string;
+  state: TaskState;
+  // Sequence number of the last notification sent for the task
+  lastSeq: number;
+  // Events after the requested sequence number that the server no longer keeps
+  missed: number;
+  events: TaskHistoryEntry[];
+}
+
+export type SteeringAction = 'continue' | 'pause' | 'cancel' | 'skip' | 'set_delay';
+
+// Whether a steering directive came as a JSON reply or a leading keyword
+export type SteeringSource = 'structured' | 'keyword';
+
+// A sampling reply that steered (or tried to steer) a task
+export interface SteeringDecision {
+  // Step after which the sampling request was made
+  step: number;
+  action: SteeringAction;
+  // Steps skipped, for skip
+  steps?: number;
+  // New step delay, for set_delay
+  delayMs?: number;
+  reason?: string;
+  source: SteeringSource;
+  // False when the task could not act on the directive; note says why
+  applied: boolean;
+  note?: string;
+  decidedAt: string;
+}
+
+// Task status snapshot returned by get_task_status and list_tasks
+export interface TaskStatus {
+  taskId: string;
+  // Task kind, e.g. "demo" for start_long_running_task
+  kind: string;
+  state: TaskState;
+  currentStep: number;
+  // Unknown (and no percentage) for task kinds that discover their steps as they go
+  totalSteps?: number;
+  percentage?: number;
+  // Time the task started running (or was submitted, while still queued)
+  startedAt: string;
+  finishedAt?: string;
+  // 1-based position in the wait queue while the task is queued
+  queuePosition?: number;
+  // Excludes time spent queued or paused
+  elapsedMs: number;
+  pausedMs: number;
+  // When the task times out (the earlier of its deadline and its timeout), if either is set
+  deadline?: string;
+  remainingMs?: number;
+  notificationsSent: number;
+  samplingRequests: number;
+  samplingUsage: SamplingUsage;
+  lastNotification?: TaskNotificationSummary;
+  // Steering decisions taken from sampling replies, oldest first
+  decisions: SteeringDecision[];
+}